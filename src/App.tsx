@@ -1,8 +1,158 @@
-import React from 'react';
+import { useEffect, useLayoutEffect, useState } from 'react';
 import SevenDropsTitle from './components/SevenDropsTitle';
+import GameContainer from './components/game/GameContainer';
+import ChallengeSelect from './components/game/ChallengeSelect';
+import Achievements, { AchievementToasts } from './components/game/Achievements';
+import Leaderboard from './components/game/Leaderboard';
+import SettingsScreen from './components/settings/SettingsScreen';
+import ProfileMergeDialog from './components/auth/ProfileMergeDialog';
+import ConsentBanner from './components/common/ConsentBanner';
+import ErrorBoundary from './components/common/ErrorBoundary';
+import LiveAnnouncer from './components/common/LiveAnnouncer';
+import MetricsOverlay from './components/common/MetricsOverlay';
+import { CHALLENGE_STAGES } from './config/gameConfig';
+import { useAudio } from './hooks/useAudio';
+import { useReducedMotion } from './hooks/useReducedMotion';
+import { useTheme } from './hooks/useTheme';
+import { useTranslation } from './hooks/useTranslation';
+import { useUserSettings } from './hooks/useUserSettings';
+import { leaderboard } from './services/leaderboard';
+import { startAuth } from './services/auth';
+import { startProfileSync } from './services/profile';
+import { startAnalytics } from './services/analytics';
+import { addBreadcrumb, startErrorCapture } from './services/error';
+import { setLocale } from './services/i18n';
+import { startMetrics } from './services/metrics';
+import { applyTheme } from './utils/theme';
+import type { ChallengeStage, Screen } from './types/Game';
 
 function App() {
-  return <SevenDropsTitle />;
+  const [screen, setScreen] = useState<Screen>('title');
+  const [stage, setStage] = useState<ChallengeStage | null>(null);
+  const [daily, setDaily] = useState(false);
+  const { settings } = useUserSettings();
+  const theme = useTheme();
+  const reducedMotion = useReducedMotion();
+  const { locale } = useTranslation();
+  // 오디오 볼륨/음소거는 useAudio가 믹서에 반영
+  useAudio();
+
+  // 언어 전환 (카탈로그를 받는 동안에는 이전 언어 유지)
+  useEffect(() => {
+    void setLocale(settings.language);
+  }, [settings.language]);
+
+  // 화면과 무관한 설정은 여기서 한 번에 적용
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dataset.reducedMotion = String(reducedMotion);
+  }, [locale, reducedMotion]);
+
+  // 테마 색 (CSS 변수라서 화면을 다시 그리지 않고 바뀜, 첫 화면부터 색이 있도록 그리기 전에 적용)
+  useLayoutEffect(() => applyTheme(theme), [theme]);
+
+  // 처리되지 않은 오류 수집
+  useEffect(() => startErrorCapture(), []);
+
+  // 오류 보고에 남길 화면 전환 기록
+  useEffect(() => addBreadcrumb('navigation', screen), [screen]);
+
+  // 성능 측정 오버레이 (환경설정/단축키로 켬)
+  useEffect(() => startMetrics(), []);
+
+  // 사용 통계 수집 (동의 전에는 전송하지 않음)
+  useEffect(() => startAnalytics(), []);
+
+  // 로그인 리디렉션 처리와 토큰 자동 갱신
+  useEffect(() => startAuth(), []);
+
+  // 로그인하면 이 기기의 진행 상황을 계정 프로필과 병합
+  useEffect(() => startProfileSync(), []);
+
+  // 오프라인에서 등록한 점수 전송 (재연결 시 자동 재시도)
+  useEffect(() => leaderboard.startSync(), []);
+
+  const playStage = (next: ChallengeStage) => {
+    setStage(next);
+    setScreen('game');
+  };
+
+  const renderScreen = () => {
+    if (screen === 'settings') {
+      return <SettingsScreen onBack={() => setScreen('title')} />;
+    }
+
+    if (screen === 'challenges') {
+      return <ChallengeSelect onSelect={playStage} onBack={() => setScreen('title')} />;
+    }
+
+    if (screen === 'leaderboard') {
+      return (
+        <Leaderboard
+          onPlayDaily={() => {
+            setDaily(true);
+            setScreen('game');
+          }}
+          onBack={() => setScreen('title')}
+        />
+      );
+    }
+
+    if (screen === 'achievements') {
+      return <Achievements onBack={() => setScreen('title')} />;
+    }
+
+    if (screen === 'game' && stage) {
+      const index = CHALLENGE_STAGES.findIndex(({ id }) => id === stage.id);
+      return (
+        <GameContainer
+          key={stage.id}
+          challenge={stage}
+          nextStage={CHALLENGE_STAGES[index + 1]}
+          onNextStage={playStage}
+          onExit={() => setScreen('challenges')}
+        />
+      );
+    }
+
+    if (screen === 'game' && daily) {
+      return <GameContainer daily onExit={() => setScreen('leaderboard')} />;
+    }
+
+    if (screen === 'game') {
+      return <GameContainer onExit={() => setScreen('title')} />;
+    }
+
+    return (
+      <SevenDropsTitle
+        onNavigate={(next) => {
+          // 타이틀에서 시작하는 게임은 항상 일반 모드
+          setStage(null);
+          setDaily(false);
+          setScreen(next);
+        }}
+      />
+    );
+  };
+
+  return (
+    <>
+      {/* 화면마다 따로 복구 (다른 화면으로 이동하면 오류 상태 초기화) */}
+      <ErrorBoundary
+        key={screen}
+        area={screen}
+        onHome={screen === 'title' ? undefined : () => setScreen('title')}
+      >
+        {renderScreen()}
+      </ErrorBoundary>
+      {/* 업적 달성 알림은 화면 전환과 무관하게 표시 */}
+      <AchievementToasts />
+      <ProfileMergeDialog />
+      <ConsentBanner />
+      <MetricsOverlay />
+      <LiveAnnouncer />
+    </>
+  );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -3,11 +3,45 @@ import React, {
   useRef,
   useEffect,
   useCallback,
+  useMemo,
   MouseEvent as ReactMouseEvent,
   TouchEvent as ReactTouchEvent,
 } from "react";
-import { Play, Trophy, Settings, Volume2, VolumeX } from "lucide-react";
-import { SOUNDS, initializeSounds, playSound } from "../utils/sound";
+import { Play, Trophy, ListOrdered, Award, Settings, Volume2, VolumeX, LucideIcon } from "lucide-react";
+import { initializeSounds, playMusic, playSound } from "../utils/sound";
+import { vibrate } from "../utils/haptics";
+import { track } from "../services/analytics";
+import { loadAssets } from "../services/assets";
+import { addBreadcrumb } from "../services/error";
+import { recordTiming } from "../services/metrics";
+import { useAssetProgress } from "../hooks/useAssetProgress";
+import { useBlockControl } from "../hooks/useBlockControl";
+import { useEnvironmentDetection } from "../hooks/useEnvironmentDetection";
+import { useObstacle } from "../hooks/useObstacle";
+import { usePhysics } from "../hooks/usePhysics";
+import { useReducedMotion } from "../hooks/useReducedMotion";
+import { useRovingFocus } from "../hooks/useRovingFocus";
+import { useTranslation } from "../hooks/useTranslation";
+import { useUserSettings } from "../hooks/useUserSettings";
+import { TITLE_FONT } from "../config/assets";
+import { TANGRAM_KINDS, TANGRAM_PIECES } from "../config/constants";
+import { CHARACTER_IMPACT_SOUND_SPEED } from "../config/physics";
+import { getPatternTemplate } from "../core/patterns/templates";
+import { intersectsAabb } from "../core/physics/collision";
+import { createRng, getDailySeed } from "../utils/random";
+import { themeColor } from "../utils/theme";
+import { parseClipPathPolygon } from "../utils/collision";
+import {
+  createObstacleRef,
+  getObstacleBounds,
+  getObstacleElement,
+  getObstacles,
+  invalidateObstacles,
+} from "../utils/obstacles";
+import type { Screen } from "../types/Game";
+import type { PhysicsFrame, PhysicsSensing } from "../hooks/usePhysics";
+import type { LetterColor, MenuColor } from "../types/Theme";
+import type { Size } from "../types/Physics";
 
 /* --- 상수 및 설정 객체 --- */
 
@@ -49,6 +83,12 @@ const LETTER_INTERACTION = {
   }
 };
 
+// 로딩 화면 글자 색 (타이틀 글자와 같은 순서)
+const LOADING_LETTER_COLORS: LetterColor[] = ["cyan", "yellow", "purple", "green", "red", "blue"];
+
+// 캐릭터에 눌린 글자가 내려가는 거리 (translate-y-2, px)
+const LETTER_PRESS_OFFSET_Y = 8;
+
 /* --- 메뉴 버튼 설정 --- */
 const MENU_BUTTON_CONFIG = {
   // 호버링 효과
@@ -63,44 +103,20 @@ const MENU_BUTTON_CONFIG = {
     scaleAmount: 1.5, // 충돌 시 확대 비율
     ringEffect: true, // 링 효과 사용 여부
   },
-  // 배경색 설정
-  colors: {
-    cyan: {
-      background: "rgba(6, 182, 212, 0.60)",
-      hover: "rgba(6, 182, 212, 0.90)",
-      border: "rgba(6, 182, 212, 0.3)",
-    },
-    purple: {
-      background: "rgba(147, 51, 234, 0.60)",
-      hover: "rgba(147, 51, 234, 0.90)",
-      border: "rgba(147, 51, 234, 0.3)",
-    },
-    settings: {
-      background: "rgba(100, 116, 139, 0.60)",
-      hover: "rgba(100, 116, 139, 0.90)",
-      border: "rgba(100, 116, 139, 0.3)",
-    },
-  }
+  // 배경/테두리 투명도 (색은 테마의 메뉴 색 사용)
+  alpha: {
+    background: 0.6,
+    hover: 0.9,
+    border: 0.3,
+  },
 };
 
-/* --- 유틸리티 함수 --- */
-
-// AABB 충돌 감지
-function isColliding(rect1: DOMRect, rect2: DOMRect): boolean {
-  return !(
-    rect1.right < rect2.left ||
-    rect1.left > rect2.right ||
-    rect1.bottom < rect2.top ||
-    rect1.top > rect2.bottom
-  );
-}
-
 /* --- 인터페이스 및 타입 정의 --- */
 
 // TitleLetter 컴포넌트 Props
 interface TitleLetterProps {
   children: React.ReactNode;
-  color: string;
+  color: LetterColor;
   index: number; // 순차적 애니메이션을 위한 인덱스
 }
 
@@ -110,45 +126,48 @@ interface DraggableCharacterProps {
   onButtonActivate?: (button: string) => void;
 }
 
+// SevenDropsTitle 컴포넌트 Props
+interface SevenDropsTitleProps {
+  onNavigate?: (screen: Screen) => void; // 메뉴 선택 시 화면 전환
+}
+
+// 메뉴 버튼으로 이동할 수 있는 화면 (버튼 식별자로도 사용)
+type MenuScreen = Exclude<Screen, "title">;
+
 /* --- 컴포넌트 정의 --- */
 
 // 로딩 화면 컴포넌트
 const LoadingScreen: React.FC<{ onComplete: () => void }> = ({ onComplete }) => {
-  // 로딩 진행률 상태
-  const [progress, setProgress] = useState(0);
+  const { t } = useTranslation();
+  // 실제 리소스 로딩 진행률 (받은 바이트 기준, services/assets.ts)
+  const { loadedBytes, totalBytes } = useAssetProgress();
+  const progress = totalBytes > 0 ? (loadedBytes / totalBytes) * 100 : 0;
   
   useEffect(() => {
-    // 진행 상황을 시뮬레이션합니다 (실제로는 리소스 로딩에 연결)
-    const interval = setInterval(() => {
-      setProgress(prev => {
-        const newProgress = prev + (100 - prev) * 0.1;
-        return newProgress > 99 ? 100 : newProgress;
-      });
-    }, 100);
-    
-    // 로딩 완료 조건
-    const completeTimer = setTimeout(() => {
-      onComplete();
-    }, 1500);
+    // 매니페스트의 리소스를 다 받으면 (또는 최대 대기 시간이 지나면) 완료
+    let cancelled = false;
+    void loadAssets().then(() => {
+      if (!cancelled) onComplete();
+    });
     
     return () => {
-      clearInterval(interval);
-      clearTimeout(completeTimer);
+      cancelled = true;
     };
   }, [onComplete]);
   
   return (
     <div 
-      className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-gray-900"
-      aria-label="7Drops 로딩 화면"
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-surface-sunken"
+      aria-label={t("title.loadingScreen")}
     >
       <div className="text-center">
         <h1 className="flex space-x-2 font-baloo text-5xl mb-6">
           {['7', 'D', 'R', 'O', 'P', 'S'].map((letter, index) => (
             <span 
               key={index} 
-              className={`inline-block text-${['cyan', 'yellow', 'purple', 'green', 'red', 'blue'][index]}-400`}
+              className="inline-block"
               style={{
+                color: themeColor(`letter-${LOADING_LETTER_COLORS[index]}`),
                 animation: 'bounce 0.6s ease infinite',
                 animationDelay: `${index * 0.1}s`
               }}
@@ -159,21 +178,28 @@ const LoadingScreen: React.FC<{ onComplete: () => void }> = ({ onComplete }) =>
         </h1>
         
         {/* 로딩 진행 표시 */}
-        <div className="w-64 h-2 bg-gray-800 rounded-full overflow-hidden mt-4 mb-2">
+        <div
+          className="w-64 h-2 bg-surface-panel rounded-full overflow-hidden mt-4 mb-2"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.floor(progress)}
+        >
           <div 
             className="h-full bg-gradient-to-r from-cyan-500 via-purple-500 to-blue-500 transition-all duration-300 ease-out"
             style={{ width: `${progress}%` }}
           />
         </div>
         
-        <p className="text-white/70">Loading game assets... {Math.floor(progress)}%</p>
+        <p className="text-content/70">{t("title.loading", { percent: Math.floor(progress) })}</p>
       </div>
     </div>
   );
 };
 
-// 커스텀 커서 컴포넌트
-const CustomCursor: React.FC = () => {
+// 커스텀 커서 컴포넌트 (enabled가 false면 시스템 커서를 그대로 사용)
+const CustomCursor: React.FC<{ enabled: boolean }> = ({ enabled }) => {
+  const { t } = useTranslation();
   const cursorRef = useRef<HTMLDivElement>(null);
   const requestRef = useRef<number>();
   const previousTimeRef = useRef<number>();
@@ -210,6 +236,7 @@ const CustomCursor: React.FC = () => {
     }
     
     previousTimeRef.current = time;
+    const frameStartedAt = performance.now();
     
     // 커서 설정에 따른 속도 계산
     const speed = CURSOR_CONFIG.speed.followSpeed;
@@ -234,6 +261,7 @@ const CustomCursor: React.FC = () => {
     if (cursorRef.current) {
       cursorRef.current.style.transform = `translate(${cursorPosition.current.x}px, ${cursorPosition.current.y}px)`;
     }
+    recordTiming("cursor", performance.now() - frameStartedAt);
     
     // 다음 프레임 요청
     requestRef.current = requestAnimationFrame(animateCursor);
@@ -263,20 +291,18 @@ const CustomCursor: React.FC = () => {
         setShowText(false);
       }
     } else if (target.closest('[data-draggable="true"]')) {
-      setCursorText("Drag");
+      setCursorText(t("title.cursorDrag"));
       setShowText(false);
     } else {
       setShowText(false);
     }
-  }, []);
+  }, [t]);
   
   // 마우스 클릭 이벤트 핸들러
   const handleMouseDown = useCallback(() => {
     setIsClicking(true);
     // 햅틱 피드백 (모바일)
-    if ('vibrate' in navigator) {
-      navigator.vibrate(15);
-    }
+    vibrate(15);
   }, []);
   
   const handleMouseUp = useCallback(() => {
@@ -285,13 +311,8 @@ const CustomCursor: React.FC = () => {
   
   // 컴포넌트 마운트/언마운트 시 이벤트 리스너 및 애니메이션 설정
   useEffect(() => {
-    // 전체 문서에 cursor: none 적용
     const style = document.createElement('style');
     style.textContent = `
-      body, a, button, [role="button"] {
-        cursor: none !important;
-      }
-      
       @keyframes bounce {
         0%, 100% { transform: translateY(0); }
         50% { transform: translateY(-10px); }
@@ -320,7 +341,15 @@ const CustomCursor: React.FC = () => {
       }
     `;
     document.head.appendChild(style);
-    
+    return () => {
+      document.head.removeChild(style);
+    };
+  }, []);
+
+  // 커스텀 커서를 쓸 때만 마우스 추적과 프레임 루프 실행 (끄면 시스템 커서만 사용)
+  useEffect(() => {
+    if (!enabled) return;
+
     // 이벤트 리스너 등록
     window.addEventListener('mousemove', updateMousePosition);
     window.addEventListener('mousedown', handleMouseDown);
@@ -331,15 +360,32 @@ const CustomCursor: React.FC = () => {
     
     // 클린업 함수
     return () => {
-      document.head.removeChild(style);
       window.removeEventListener('mousemove', updateMousePosition);
       window.removeEventListener('mousedown', handleMouseDown);
       window.removeEventListener('mouseup', handleMouseUp);
       if (requestRef.current) {
         cancelAnimationFrame(requestRef.current);
       }
+      previousTimeRef.current = undefined;
+    };
+  }, [enabled, updateMousePosition, handleMouseDown, handleMouseUp, animateCursor]);
+
+  // 커스텀 커서를 쓸 때만 전체 문서에 cursor: none 적용
+  useEffect(() => {
+    if (!enabled) return;
+    const style = document.createElement('style');
+    style.textContent = `
+      body, a, button, [role="button"] {
+        cursor: none !important;
+      }
+    `;
+    document.head.appendChild(style);
+    return () => {
+      document.head.removeChild(style);
     };
-  }, [updateMousePosition, handleMouseDown, handleMouseUp, animateCursor]);
+  }, [enabled]);
+
+  if (!enabled) return null;
   
   return (
     <>
@@ -386,23 +432,31 @@ const ParallaxElement: React.FC<{
   className?: string;
 }> = ({ children, amount = 10, className = "" }) => {
   const ref = useRef<HTMLDivElement>(null);
+  const reducedMotion = useReducedMotion();
   
   useEffect(() => {
     const element = ref.current;
     if (!element) return;
+    // 움직임 줄이기: 제자리에 고정
+    if (reducedMotion) {
+      element.style.transform = "";
+      return;
+    }
     
     const handleMouseMove = (e: MouseEvent) => {
+      const startedAt = performance.now();
       const { clientX, clientY } = e;
       const xPos = (clientX / window.innerWidth - 0.5) * amount;
       const yPos = (clientY / window.innerHeight - 0.5) * amount;
       
       // 성능 최적화: transform 속성 사용
       element.style.transform = `translate3d(${xPos}px, ${yPos}px, 0)`;
+      recordTiming("parallax", performance.now() - startedAt);
     };
     
     window.addEventListener('mousemove', handleMouseMove);
     return () => window.removeEventListener('mousemove', handleMouseMove);
-  }, [amount]);
+  }, [amount, reducedMotion]);
   
   return (
     <div 
@@ -422,29 +476,19 @@ const TitleLetter = React.forwardRef<HTMLSpanElement, TitleLetterProps>(
     const innerRef = useRef<HTMLSpanElement>(null);
     const letterRef = (ref as React.RefObject<HTMLSpanElement>) || innerRef;
 
-    const colorClasses = {
-      cyan: "text-cyan-400",
-      yellow: "text-yellow-400",
-      purple: "text-purple-400",
-      green: "text-green-400",
-      red: "text-red-400",
-      blue: "text-blue-400",
-    } as const;
 
+    // 물리 장애물로 등록 (눌려 내려간 만큼 캐릭터도 낮게 내려앉음)
+    useObstacle(letterRef, {
+      material: "obstacle",
+      restOffsetY: isPressed ? LETTER_PRESS_OFFSET_Y : 0,
+    });
     
     // 캐릭터와 충돌하면 isPressed를 true로 설정 (글자 하단 이동 효과)
     useEffect(() => {
       const checkCollision = (charRect: DOMRect) => {
-        if (letterRef.current) {
-          const letterRect = letterRef.current.getBoundingClientRect();
-          const colliding =
-            !(
-              charRect.right < letterRect.left ||
-              charRect.left > letterRect.right ||
-              charRect.bottom < letterRect.top ||
-              charRect.top > letterRect.bottom
-            );
-          setIsPressed(colliding);
+        const letterRect = letterRef.current && getObstacleBounds(letterRef.current);
+        if (letterRect) {
+          setIsPressed(intersectsAabb(charRect, letterRect));
         }
       };
       const handleCharacterMove = (e: Event) => {
@@ -463,13 +507,13 @@ const TitleLetter = React.forwardRef<HTMLSpanElement, TitleLetterProps>(
         ref={letterRef}
         className={`
           obstacle 
-          ${colorClasses[color as keyof typeof colorClasses]} 
           transition-all duration-300 
           text-6xl relative leading-none inline-block 
           font-baloo opacity-100 
           ${isPressed ? "transform translate-y-2" : ""}
         `}
         style={{
+          color: themeColor(`letter-${color}`),
           transform: isHovered
             ? `scale(1.3) ${isPressed ? "translateY(0.5rem)" : ""}`
             : isPressed
@@ -491,6 +535,7 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
   initialPos,
   onButtonActivate,
 }) => {
+  const { t } = useTranslation();
   const [pos, setPos] = useState<{ x: number; y: number }>(
     initialPos || { x: window.innerWidth - 80, y: 100 }
   );
@@ -498,14 +543,11 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
   const [rotation, setRotation] = useState<number>(0);
   const [isGlowing, setIsGlowing] = useState<boolean>(false);
 
-  const posRef = useRef<{ x: number; y: number }>(pos);
-  const velocityRef = useRef<{ vx: number; vy: number }>({ vx: 0, vy: 0 });
   const characterRef = useRef<HTMLDivElement>(null);
   const offsetRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
-  const animationFrameRef = useRef<number | null>(null);
-  const lastTimeRef = useRef<number | null>(null);
   const draggingRef = useRef<boolean>(false);
   const lastCollidedButton = useRef<string | null>(null);
+  const sizeRef = useRef<Size>({ width: 0, height: 0 });
 
   // 눈 움직임 관련 상수
   const EYE_CONSTANTS = {
@@ -517,14 +559,6 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
     MAX_PUPIL_OFFSET: 2,
   };
 
-  // 충돌 물리 파라미터
-  const PHYSICS_PARAMS = {
-    ground: { bounceFactor: 0.7, friction: 0.95, landingThreshold: 150 },
-    obstacle: { bounceFactor: 0.7, friction: 0.98, landingThreshold: 200 },
-  };
-  const gravity = 2000;
-  const bounceFactor = 0.7;
-
   // 주기적 애니메이션 효과 (제거)
   useEffect(() => {
     // 필요한 초기화만 수행
@@ -543,12 +577,10 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
       
       if (isCollidingFlag) {
         if (!lastCollidedButton.current) {
-          SOUNDS.hover.play().catch(console.warn);
+          playSound("hover");
           
           // 햅틱 피드백 (모바일)
-          if ('vibrate' in navigator) {
-            navigator.vibrate(15);
-          }
+          vibrate(15);
         }
         
         // 스케일 및 링 효과 적용
@@ -556,7 +588,7 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
           buttonElement.style.transform = `scale(${MENU_BUTTON_CONFIG.characterCollision.scaleAmount})`;
           
           if (MENU_BUTTON_CONFIG.characterCollision.ringEffect) {
-            buttonElement?.classList.add("ring-4", "ring-white/50");
+            buttonElement?.classList.add("ring-4", "ring-content/50");
           }
           
           // 메뉴 버튼 내 아이콘 기울임 효과
@@ -574,7 +606,7 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
           buttonElement.style.transform = "";
           
           if (MENU_BUTTON_CONFIG.characterCollision.ringEffect) {
-            buttonElement?.classList.remove("ring-4", "ring-white/50");
+            buttonElement?.classList.remove("ring-4", "ring-content/50");
           }
           
           const icon = buttonElement?.querySelector("svg") as HTMLElement | null;
@@ -596,181 +628,82 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
     }
   };
 
-  // 물리 시뮬레이션 - 최적화 버전
-  const physicsStep = useCallback((time: number) => {
-    if (lastTimeRef.current === null) {
-      lastTimeRef.current = time;
-      animationFrameRef.current = requestAnimationFrame(physicsStep);
-      return;
-    }
-    
-    // 시간 간격 제한 (안정성 향상)
-    const dt = Math.min((time - lastTimeRef.current) / 1000, 0.1);
-    lastTimeRef.current = time;
-    
-    if (!draggingRef.current) velocityRef.current.vy += gravity * dt;
-    
-    posRef.current.x += velocityRef.current.vx * dt;
-    posRef.current.y += velocityRef.current.vy * dt;
+  // 캐릭터 크기는 창 크기가 바뀔 때만 다시 잼 (프레임마다 레이아웃을 읽지 않도록)
+  useEffect(() => {
+    const measure = () => {
+      const charElem = characterRef.current;
+      if (charElem) sizeRef.current = { width: charElem.offsetWidth, height: charElem.offsetHeight };
+    };
+    measure();
+    window.addEventListener("resize", measure);
+    return () => window.removeEventListener("resize", measure);
+  }, []);
+
+  // 등록된 장애물의 캐시된 위치를 충돌체로 사용
+  const senseObstacles = useCallback(
+    (): PhysicsSensing => ({ ...getObstacles(), size: sizeRef.current }),
+    []
+  );
+
+  // 충돌 결과를 화면 효과로 반영
+  const handlePhysicsFrame = useCallback(
+    ({ position, contacts }: PhysicsFrame) => {
+      setPos(position);
+
+      // 바닥 또는 장애물에 세게 부딪히면 착지음 (프레임당 한 번)
+      const landed = contacts.some(
+        ({ colliderId, normal, impactSpeed }) =>
+          (colliderId !== null || normal.y === -1) && impactSpeed > CHARACTER_IMPACT_SOUND_SPEED
+      );
+      if (landed) playSound("land");
 
-    const charElem = characterRef.current;
-    if (charElem) {
-      const { width: charWidth, height: charHeight } = charElem.getBoundingClientRect();
-      
-      // 경계 충돌 처리
-      if (posRef.current.x < 0) {
-        posRef.current.x = 0;
-        velocityRef.current.vx = -velocityRef.current.vx * bounceFactor;
-      }
-      if (posRef.current.x + charWidth > window.innerWidth) {
-        posRef.current.x = window.innerWidth - charWidth;
-        velocityRef.current.vx = -velocityRef.current.vx * bounceFactor;
-      }
-      if (posRef.current.y < 0) {
-        posRef.current.y = 0;
-        velocityRef.current.vy = -velocityRef.current.vy * bounceFactor;
-      }
-      if (posRef.current.y + charHeight > window.innerHeight) {
-        if (Math.abs(velocityRef.current.vy) > 100)
-          SOUNDS.land.play().catch(console.warn);
-        posRef.current.y = window.innerHeight - charHeight;
-        velocityRef.current.vy = -velocityRef.current.vy * bounceFactor;
-      }
-      
-      // 충돌 검사: 최적화를 위해 현재 화면에 보이는 요소만 검사
-      const charRect = charElem.getBoundingClientRect();
-      const obstacles = document.querySelectorAll(".obstacle");
-      
       let didCollide = false; // 이번 프레임에 충돌 발생 여부
-      
-      obstacles.forEach((obstacle) => {
-        const obsElem = obstacle as HTMLElement;
-        if (obsElem === charElem) return;
-        
-        // 화면에 보이는 요소만 충돌 확인 (성능 최적화)
-        const obsRect = obsElem.getBoundingClientRect();
-        if (
-          obsRect.right < 0 ||
-          obsRect.left > window.innerWidth ||
-          obsRect.bottom < 0 ||
-          obsRect.top > window.innerHeight
-        ) {
-          return;
-        }
-        
-        if (isColliding(charRect, obsRect)) {
-          didCollide = true;
-          
-          // 메뉴 버튼 충돌 처리
-          if (obsElem.dataset.menuItem) {
-            const buttonName = obsElem.dataset.menuItem;
-            if (buttonName && buttonName !== lastCollidedButton.current) {
-              handleCollisionWithButton(buttonName, true);
-              lastCollidedButton.current = buttonName;
-            }
-          } else {
-            if (lastCollidedButton.current) {
-              handleCollisionWithButton(lastCollidedButton.current, false);
-              lastCollidedButton.current = null;
-            }
-          }
-          
-          // 충돌 효과
-          if (Math.abs(velocityRef.current.vy) > 100) {
-            SOUNDS.land.play().catch(console.warn);
-          }
-          
-          if (!obsElem.dataset.menuItem && obsElem.tagName === "DIV") {
-            obsElem.classList.add("shake-piece", "glow-piece");
-            setTimeout(() => obsElem.classList.remove("shake-piece", "glow-piece"), 500);
-          }
-          
-          // 충돌 방향 계산 및 반응
-          const overlapLeft = charRect.right - obsRect.left;
-          const overlapRight = obsRect.right - charRect.left;
-          const overlapTop = charRect.bottom - obsRect.top;
-          const overlapBottom = obsRect.bottom - charRect.top;
-          const minOverlap = Math.min(overlapLeft, overlapRight, overlapTop, overlapBottom);
-          
-          const isLetterObstacle = (obsElem.textContent || "").trim().length === 1;
-          const params = isLetterObstacle ? PHYSICS_PARAMS.obstacle : PHYSICS_PARAMS.ground;
-          
-          if (minOverlap === overlapTop) {
-            let letterOffsetY = 0;
-            if (isLetterObstacle) {
-              const computedStyle = window.getComputedStyle(obsElem);
-              const transform = computedStyle.transform;
-              if (transform && transform !== "none") {
-                try {
-                  letterOffsetY = new DOMMatrix(transform).m42;
-                } catch (e) {
-                  if (obsElem.classList.contains("translate-y-2")) letterOffsetY = 8;
-                }
-              } else if (obsElem.classList.contains("translate-y-2")) {
-                letterOffsetY = 8;
-              }
-            }
-            
-            if (Math.abs(velocityRef.current.vy) < params.landingThreshold) {
-              posRef.current.y = obsRect.top - charHeight + letterOffsetY;
-              velocityRef.current.vy = 0;
-              velocityRef.current.vx *= params.friction;
-              if (Math.abs(velocityRef.current.vx) < (isLetterObstacle ? 2 : 5))
-                velocityRef.current.vx = 0;
-            } else {
-              posRef.current.y -= minOverlap;
-              velocityRef.current.vy = -velocityRef.current.vy * params.bounceFactor;
-            }
-          } else if (minOverlap === overlapBottom) {
-            posRef.current.y += minOverlap;
-            velocityRef.current.vy = -velocityRef.current.vy * params.bounceFactor;
-          } else if (minOverlap === overlapLeft) {
-            posRef.current.x -= minOverlap;
-            velocityRef.current.vx =
-              Math.abs(velocityRef.current.vx) < params.landingThreshold
-                ? 0
-                : -velocityRef.current.vx * params.bounceFactor;
-          } else if (minOverlap === overlapRight) {
-            posRef.current.x += minOverlap;
-            velocityRef.current.vx =
-              Math.abs(velocityRef.current.vx) < params.landingThreshold
-                ? 0
-                : -velocityRef.current.vx * params.bounceFactor;
+      contacts.forEach(({ colliderId }) => {
+        const obsElem = colliderId ? getObstacleElement(colliderId) : null;
+        if (!obsElem) return;
+        didCollide = true;
+
+        // 메뉴 버튼 충돌 처리
+        const buttonName = obsElem.dataset.menuItem;
+        if (buttonName) {
+          if (buttonName !== lastCollidedButton.current) {
+            handleCollisionWithButton(buttonName, true);
+            lastCollidedButton.current = buttonName;
           }
+        } else if (lastCollidedButton.current) {
+          handleCollisionWithButton(lastCollidedButton.current, false);
+          lastCollidedButton.current = null;
+        }
+
+        if (!buttonName && obsElem.tagName === "DIV") {
+          obsElem.classList.add("shake-piece", "glow-piece");
+          setTimeout(() => obsElem.classList.remove("shake-piece", "glow-piece"), 500);
         }
       });
-      
+
       // 이번 프레임에 충돌하지 않았지만 이전에 버튼과 충돌한 경우, 버튼 상태 복원
       if (!didCollide && lastCollidedButton.current) {
         handleCollisionWithButton(lastCollidedButton.current, false);
         lastCollidedButton.current = null;
       }
-      
-      // 위치 상태 업데이트 (리렌더링)
-      setPos({ x: posRef.current.x, y: posRef.current.y });
-      
+
       // 캐릭터 위치 이벤트 발생
+      const { width, height } = sizeRef.current;
       window.dispatchEvent(
         new CustomEvent<{ charRect: DOMRect }>("characterMove", {
-          detail: { charRect },
+          detail: { charRect: new DOMRect(position.x, position.y, width, height) },
         })
       );
-    }
-    
-    // 애니메이션 계속 필요한지 확인
-    if (
-      draggingRef.current ||
-      Math.abs(velocityRef.current.vx) > 1 ||
-      Math.abs(velocityRef.current.vy) > 1
-    ) {
-      animationFrameRef.current = requestAnimationFrame(physicsStep);
-    } else {
-      if (animationFrameRef.current !== null) {
-        cancelAnimationFrame(animationFrameRef.current);
-        animationFrameRef.current = null;
-      }
-    }
-  }, [handleCollisionWithButton]);
+    },
+    [handleCollisionWithButton]
+  );
+
+  // 물리 시뮬레이션 (고정 스텝 엔진, 멈추면 프레임 루프도 쉼)
+  const physics = usePhysics({
+    initialPosition: pos,
+    sense: senseObstacles,
+    onFrame: handlePhysicsFrame,
+  });
 
   // React 이벤트용 좌표 추출
   const getPointerCoords = (
@@ -796,15 +729,10 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
     setIsSqueezing(true);
     
     // 햅틱 피드백 (모바일)
-    if ('vibrate' in navigator) {
-      navigator.vibrate(15);
-    }
+    vibrate(15);
     
-    // 기존 애니메이션 취소
-    if (animationFrameRef.current !== null) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
+    // 드래그하는 동안 시뮬레이션 정지
+    physics.setKinematic(true);
     
     // 드래그 오프셋 계산
     const { x, y } = getPointerCoords(e);
@@ -826,12 +754,10 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
     }
     
     // 새 위치 계산 및 적용
-    const newX = x - offsetRef.current.x;
-    const newY = y - offsetRef.current.y;
-    
-    posRef.current = { x: newX, y: newY };
-    setPos({ x: newX, y: newY });
-  }, []);
+    const next = { x: x - offsetRef.current.x, y: y - offsetRef.current.y };
+    physics.setPosition(next);
+    setPos(next);
+  }, [physics]);
 
   // 드래그 종료 처리
   const handleDragEnd = useCallback(() => {
@@ -841,10 +767,9 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
       setRotation(0);
       
       // 물리 시뮬레이션 재개
-      lastTimeRef.current = performance.now();
-      animationFrameRef.current = requestAnimationFrame(physicsStep);
+      physics.setKinematic(false);
     }
-  }, [physicsStep]);
+  }, [physics]);
 
   // 눈동자 움직임 처리
   const handlePupilMovement = useCallback((e: MouseEvent) => {
@@ -892,40 +817,21 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
     }
   }, []);
 
-  // 키보드 조작 지원
-  useEffect(() => {
-    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
-      // 방향키 이동
-      if (e.key === "ArrowLeft") {
-        posRef.current.x = Math.max(0, posRef.current.x - 20);
-        setPos({ ...posRef.current });
-      } else if (e.key === "ArrowRight") {
-        posRef.current.x = Math.min(window.innerWidth - 48, posRef.current.x + 20);
-        setPos({ ...posRef.current });
-      } else if (e.key === " " || e.key === "Spacebar") {
-        // 스페이스바로 점프
-        if (!draggingRef.current) {
-          setIsSqueezing(true);
-          velocityRef.current.vy = -800;
-          velocityRef.current.vx += (Math.random() - 0.5) * 200;
-          
-          // 햅틱 피드백 (모바일)
-          if ('vibrate' in navigator) {
-            navigator.vibrate([15, 10, 15]);
-          }
-          
-          SOUNDS.land.play().catch(console.warn);
-          
-          lastTimeRef.current = performance.now();
-          animationFrameRef.current = requestAnimationFrame(physicsStep);
-          setTimeout(() => setIsSqueezing(false), 300);
-        }
+  // 키보드/게임패드 조작 지원 (게임과 같은 입력 배치: 좌우 이동, 하드 드롭으로 점프)
+  useBlockControl({
+    onAction: (action) => {
+      if (action === "moveLeft" || action === "moveRight") {
+        const dx = action === "moveLeft" ? -20 : 20;
+        const { position } = physics.getBody();
+        const next = { ...position, x: Math.min(window.innerWidth - 48, Math.max(0, position.x + dx)) };
+        physics.setPosition(next);
+        setPos(next);
+        physics.wake();
+      } else if (action === "hardDrop") {
+        handleClick();
       }
-    };
-    
-    window.addEventListener("keydown", handleKeyDown);
-    return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [physicsStep]);
+    },
+  });
 
   // 이벤트 리스너 등록
   useEffect(() => {
@@ -948,18 +854,16 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
   const handleClick = () => {
     if (!draggingRef.current) {
       setIsSqueezing(true);
-      velocityRef.current.vy = -800;
-      velocityRef.current.vx += (Math.random() - 0.5) * 200;
+      physics.updateVelocity((velocity) => ({
+        x: velocity.x + (Math.random() - 0.5) * 200,
+        y: -800,
+      }));
       
       // 햅틱 피드백 (모바일)
-      if ('vibrate' in navigator) {
-        navigator.vibrate([15, 10, 15]);
-      }
+      vibrate([15, 10, 15]);
       
-      SOUNDS.land.play().catch(console.warn);
+      playSound("land");
       
-      lastTimeRef.current = performance.now();
-      animationFrameRef.current = requestAnimationFrame(physicsStep);
       setTimeout(() => setIsSqueezing(false), 300);
     }
   };
@@ -981,7 +885,7 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
         transition: draggingRef.current ? "none" : "transform 0.3s ease",
       }}
       data-draggable="true"
-      aria-label="드래그 가능한 캐릭터"
+      aria-label={t("title.character")}
       tabIndex={0}
       role="button"
     >
@@ -1064,27 +968,20 @@ const DraggableCharacter: React.FC<DraggableCharacterProps> = ({
 
 // 사운드 컨트롤 컴포넌트
 const SoundControl: React.FC = () => {
-  const [isMuted, setIsMuted] = useState<boolean>(false);
+  const { settings, updateSettings } = useUserSettings();
+  const { t } = useTranslation();
+  const isMuted = settings.audio.muted;
   const [isHovered, setIsHovered] = useState<boolean>(false);
   
   const toggleSound = () => {
-    const newMuted = !isMuted;
-    setIsMuted(newMuted);
-    
     // 햅틱 피드백 (모바일)
-    if ('vibrate' in navigator) {
-      navigator.vibrate(15);
-    }
+    vibrate(15);
     
-    // 모든 오디오 요소에 음소거 적용
-    Object.values(SOUNDS).forEach((sound) => {
-      sound.muted = newMuted;
-    });
+    // 음소거 상태는 사용자 설정에 저장 (실제 적용은 App에서 일괄 처리)
+    updateSettings((prev) => ({ ...prev, audio: { ...prev.audio, muted: !isMuted } }));
     
     // 토글 사운드 재생 (음소거 전환 시에도 들리도록)
-    const sound = SOUNDS.hover.cloneNode() as HTMLAudioElement;
-    sound.volume = 0.5;
-    sound.play().catch(console.warn);
+    playSound("hover", { bypassMute: true });
   };
   
   return (
@@ -1094,15 +991,15 @@ const SoundControl: React.FC = () => {
       onMouseLeave={() => setIsHovered(false)}
       className={`
         fixed bottom-4 right-4 p-3 
-        bg-gray-800/50 hover:bg-gray-700/70
+        bg-surface-panel/50 hover:bg-surface/70
         rounded-full 
         transition-all duration-300 
-        text-white/70 hover:text-white
+        text-content/70 hover:text-content
         transform
         ${isHovered ? 'scale-110' : 'scale-100'}
         shadow-lg
       `}
-      aria-label={isMuted ? "소리 켜기" : "소리 끄기"}
+      aria-label={t(isMuted ? "title.soundOn" : "title.soundOff")}
       style={{
         animation: 'fadeInUp 0.5s ease 0.8s both',
       }}
@@ -1112,96 +1009,55 @@ const SoundControl: React.FC = () => {
   );
 };
 
+// 패턴 프리뷰 배치 (실루엣 모양은 패턴 템플릿의 SVG를 사용)
+const PATTERN_PREVIEW_LAYOUT: {
+  patternId: string;
+  amount: number;
+  className: string;
+  sizeClass: string;
+  colorClass: string;
+}[] = [
+  // 물고기 모양 패턴
+  { patternId: "fish", amount: 30, className: "right-32 top-1/4", sizeClass: "w-16 h-16", colorClass: "text-cyan-400" },
+  // 새 모양 패턴
+  { patternId: "bird-diamond", amount: 20, className: "left-32 bottom-1/4", sizeClass: "w-16 h-16", colorClass: "text-purple-400" },
+  // 추가 패턴: 별 모양
+  { patternId: "star", amount: 15, className: "right-1/4 bottom-1/3", sizeClass: "w-12 h-12", colorClass: "text-yellow-400" },
+];
+
 // 패턴 프리뷰 컴포넌트
 const PatternPreview: React.FC = () => {
   return (
     <div className="absolute inset-0 pointer-events-none">
       <div className="relative w-full h-full">
-        {/* 물고기 모양 패턴 */}
-        <ParallaxElement amount={30} className="absolute right-32 top-1/4 opacity-20 transition-opacity duration-500 hover:opacity-40">
-          <svg viewBox="0 0 100 60" className="w-16 h-16">
-            <path
-              d="M10,30 Q30,10 50,30 Q70,50 90,30 Q70,10 50,30 Q30,50 10,30"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              className="text-cyan-400"
-            />
-          </svg>
-        </ParallaxElement>
-        
-        {/* 새 모양 패턴 */}
-        <ParallaxElement amount={20} className="absolute left-32 bottom-1/4 opacity-20 transition-opacity duration-500 hover:opacity-40">
-          <svg viewBox="0 0 100 100" className="w-16 h-16">
-            <path
-              d="M20,50 L50,20 L80,50 L50,80 Z"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              className="text-purple-400"
-            />
-          </svg>
-        </ParallaxElement>
-        
-        {/* 추가 패턴: 별 모양 */}
-        <ParallaxElement amount={15} className="absolute right-1/4 bottom-1/3 opacity-20 transition-opacity duration-500 hover:opacity-40">
-          <svg viewBox="0 0 100 100" className="w-12 h-12">
-            <path
-              d="M50,10 L61,40 L94,40 L67,60 L78,90 L50,70 L22,90 L33,60 L6,40 L39,40 Z"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              className="text-yellow-400"
-            />
-          </svg>
-        </ParallaxElement>
+        {PATTERN_PREVIEW_LAYOUT.map((item) => {
+          const template = getPatternTemplate(item.patternId);
+          if (!template) return null;
+          return (
+            <ParallaxElement
+              key={item.patternId}
+              amount={item.amount}
+              className={`absolute ${item.className} opacity-20 transition-opacity duration-500 hover:opacity-40`}
+            >
+              <svg viewBox={template.svg.viewBox} className={item.sizeClass}>
+                <path
+                  d={template.svg.path}
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  className={item.colorClass}
+                />
+              </svg>
+            </ParallaxElement>
+          );
+        })}
       </div>
     </div>
   );
 };
 
-// 환경 감지 커스텀 훅
-const useEnvironmentDetection = () => {
-  const [isDarkMode, setIsDarkMode] = useState(false);
-  const [isMobile, setIsMobile] = useState(false);
-  const [isEvening, setIsEvening] = useState(false);
-  
-  useEffect(() => {
-    // 다크모드 감지
-    const darkModeMediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
-    setIsDarkMode(darkModeMediaQuery.matches);
-    
-    const handleDarkModeChange = (e: MediaQueryListEvent) => {
-      setIsDarkMode(e.matches);
-    };
-    
-    darkModeMediaQuery.addEventListener('change', handleDarkModeChange);
-    
-    // 모바일 디바이스 감지
-    const mobileMediaQuery = window.matchMedia('(max-width: 768px)');
-    setIsMobile(mobileMediaQuery.matches);
-    
-    const handleMobileChange = (e: MediaQueryListEvent) => {
-      setIsMobile(e.matches);
-    };
-    
-    mobileMediaQuery.addEventListener('change', handleMobileChange);
-    
-    // 시간대 감지 (저녁/밤)
-    const currentHour = new Date().getHours();
-    setIsEvening(currentHour >= 18 || currentHour < 6);
-    
-    return () => {
-      darkModeMediaQuery.removeEventListener('change', handleDarkModeChange);
-      mobileMediaQuery.removeEventListener('change', handleMobileChange);
-    };
-  }, []);
-  
-  return { isDarkMode, isMobile, isEvening };
-};
-
 /* --- 메인 컴포넌트 --- */
-const SevenDropsTitle: React.FC = () => {
+const SevenDropsTitle: React.FC<SevenDropsTitleProps> = ({ onNavigate }) => {
   const [hoveredButton, setHoveredButton] = useState<number | null>(null);
   const [characterInitialPos, setCharacterInitialPos] = useState<{ x: number; y: number } | null>(null);
   const [parallaxOffset, setParallaxOffset] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
@@ -1210,67 +1066,50 @@ const SevenDropsTitle: React.FC = () => {
   const letterSRef = useRef<HTMLSpanElement>(null);
   
   // 환경 감지 훅 사용
-  const { isDarkMode, isMobile, isEvening } = useEnvironmentDetection();
+  const { isMobile } = useEnvironmentDetection();
+  const { settings } = useUserSettings();
+  const reducedMotion = useReducedMotion();
+  const { t } = useTranslation();
 
-  // Tangram 조각 정의
-  const tangramPieces: { color: string; style: React.CSSProperties }[] = [
-    {
-      color: "bg-cyan-500",
-      style: {
-        width: isMobile ? "3rem" : "4rem",
-        height: isMobile ? "3rem" : "4rem",
-        clipPath: "polygon(0 0, 100% 0, 50% 100%)",
-      },
-    },
-    {
-      color: "bg-yellow-500",
-      style: { 
-        width: isMobile ? "3rem" : "4rem", 
-        height: isMobile ? "3rem" : "4rem", 
-        clipPath: "none" 
-      },
-    },
-    {
-      color: "bg-purple-500",
-      style: {
-        width: isMobile ? "2.5rem" : "3rem",
-        height: isMobile ? "2.5rem" : "3rem",
-        clipPath: "polygon(50% 0%, 0% 100%, 100% 100%)",
-      },
-    },
-    {
-      color: "bg-green-500",
-      style: {
-        width: isMobile ? "3rem" : "4rem",
-        height: isMobile ? "2.5rem" : "3rem",
-        clipPath: "polygon(25% 0%, 100% 0%, 75% 100%, 0% 100%)",
-      },
-    },
-    {
-      color: "bg-red-500",
-      style: {
-        width: isMobile ? "4rem" : "5rem",
-        height: isMobile ? "4rem" : "5rem",
-        clipPath: "polygon(50% 0%, 0% 100%, 100% 100%)",
-      },
-    },
-    {
-      color: "bg-blue-500",
-      style: {
-        width: isMobile ? "4rem" : "5rem",
-        height: isMobile ? "4rem" : "5rem",
-        clipPath: "polygon(50% 0%, 0% 100%, 100% 100%)",
-      },
-    },
-    {
-      color: "bg-pink-500",
-      style: {
-        width: isMobile ? "3rem" : "4rem",
-        height: isMobile ? "3rem" : "4rem",
-        clipPath: "polygon(0 0, 100% 50%, 0 100%)",
-      },
-    },
-  ];
+  // Tangram 조각 정의 (게임 보드와 같은 조각 정의 사용)
+  const tangramPieces: { style: React.CSSProperties }[] = TANGRAM_KINDS.map(
+    (kind) => {
+      const piece = TANGRAM_PIECES[kind];
+      return {
+        style: {
+          backgroundColor: themeColor(`piece-${kind}`),
+          ...(isMobile ? piece.size.mobile : piece.size.desktop),
+          clipPath: piece.clipPath,
+        },
+      };
+    }
+  );
+
+  // Tangram 조각 배치 (날짜별 시드로 고정되어 리렌더링 시에도 움직이지 않음)
+  const tangramPositions = useMemo(() => {
+    const rng = createRng(getDailySeed());
+    return TANGRAM_KINDS.map(() => ({
+      left: `${rng.next() * 80 + 10}%`,
+      top: `${rng.next() * 80 + 10}%`,
+    }));
+  }, []);
+
+  // Tangram 조각을 물리 장애물로 등록 (clipPath와 같은 다각형으로 충돌)
+  const tangramObstacleRefs = useMemo(
+    () =>
+      TANGRAM_KINDS.map((kind) =>
+        createObstacleRef({
+          material: "ground",
+          shape: parseClipPathPolygon(TANGRAM_PIECES[kind].clipPath) ?? undefined,
+        })
+      ),
+    []
+  );
+
+  // 패럴랙스로 조각이 움직이면 장애물 위치를 다시 잼
+  useEffect(() => {
+    invalidateObstacles();
+  }, [parallaxOffset]);
 
   // 캐릭터 초기 위치 설정 (S 글자 위치 기준)
   useEffect(() => {
@@ -1299,27 +1138,20 @@ const SevenDropsTitle: React.FC = () => {
   useEffect(() => {
     if (!isLoading) {
       const playBgm = () => {
-        playSound(SOUNDS.bgm);
+        playMusic("calmPuzzle");
         document.removeEventListener("click", playBgm);
       };
       document.addEventListener("click", playBgm, { once: true });
     }
   }, [isLoading]);
 
-  // 폰트 및 애니메이션 CSS 로드
+  // 애니메이션 CSS 로드 (제목 글꼴 파일은 로딩 화면에서 받음)
   useEffect(() => {
-    // 구글 폰트 로드
-    const fontLink = document.createElement('link');
-    fontLink.href = 'https://fonts.googleapis.com/css2?family=Fredoka+One&display=swap';
-    fontLink.rel = 'stylesheet';
-    
-    document.head.appendChild(fontLink);
-    
-    // 애니메이션 및 글꼴 스타일 설정
+    // 애니메이션 및 글꼴 스타일 설정 (글꼴을 받지 못하면 둥근 시스템 글꼴로 대체)
     const styleSheet = document.createElement('style');
     styleSheet.textContent = `
       .font-baloo {
-        font-family: 'Fredoka One', cursive;
+        font-family: '${TITLE_FONT.family}', ui-rounded, 'Arial Rounded MT Bold', system-ui, sans-serif;
       }
       
       @keyframes fadeInUp {
@@ -1371,33 +1203,31 @@ const SevenDropsTitle: React.FC = () => {
     
     // 언마운트 시 제거
     return () => {
-      document.head.removeChild(fontLink);
       document.head.removeChild(styleSheet);
     };
   }, []);
   
   // 로딩 완료 처리
-  const handleLoadingComplete = () => {
+  const handleLoadingComplete = useCallback(() => {
     setIsLoading(false);
-  };
+  }, []);
 
   // 버튼 활성화 처리
   const handleButtonActivate = (btn: string) => {
-    console.log("Button activated:", btn);
-    
+    track("menu_interaction", { item: btn });
+    addBreadcrumb("action", `menu:${btn}`);
+
     // 햅틱 피드백 (모바일)
-    if ('vibrate' in navigator) {
-      navigator.vibrate([15, 30, 15]);
-    }
+    vibrate([15, 30, 15]);
   };
 
   // 메뉴 버튼 스타일 계산
-  const getButtonStyle = (color: string, isHovered: boolean): React.CSSProperties => {
-    const colorConfig = MENU_BUTTON_CONFIG.colors[color as keyof typeof MENU_BUTTON_CONFIG.colors];
+  const getButtonStyle = (color: MenuColor, isHovered: boolean): React.CSSProperties => {
+    const { background, hover, border } = MENU_BUTTON_CONFIG.alpha;
     
     const style: React.CSSProperties = {
-      backgroundColor: isHovered ? colorConfig.hover : colorConfig.background,
-      borderColor: colorConfig.border,
+      backgroundColor: themeColor(`menu-${color}`, isHovered ? hover : background),
+      borderColor: themeColor(`menu-${color}`, border),
       animation: `fadeInUp 0.5s ease ${0.5}s both`,
     };
     
@@ -1409,67 +1239,82 @@ const SevenDropsTitle: React.FC = () => {
     return style;
   };
 
-  // 배경 스타일 (시간대/다크모드에 따라 적용)
-  const getBgStyle = () => {
-    if (isEvening) {
-      return 'bg-gradient-to-b from-gray-900 via-indigo-900 to-gray-900';
-    }
-    if (isDarkMode) {
-      return 'bg-gradient-to-b from-gray-900 to-gray-800';
-    }
-    return 'bg-gradient-to-b from-gray-800 to-gray-900';
-  };
-
   // 메뉴 버튼 정의
   const menuButtons: {
-    icon: React.ComponentType<{ size: number }>;
-    text: string;
-    color: string;
+    id: MenuScreen;
+    icon: LucideIcon;
+    color: MenuColor;
     onClick: () => void;
     ariaLabel: string;
   }[] = [
     {
+      id: "game",
       icon: Play,
-      text: "게임 시작",
       color: "cyan",
       onClick: () => {
-        /* 게임 시작 기능 */
-        if ('vibrate' in navigator) {
-          navigator.vibrate([15, 30, 15]);
-        }
+        vibrate([15, 30, 15]);
+        playSound("click");
+        onNavigate?.("game");
       },
-      ariaLabel: "게임 시작 버튼",
+      ariaLabel: t("title.menu.game.label"),
     },
     {
+      id: "challenges",
       icon: Trophy,
-      text: "챌린지",
       color: "purple",
       onClick: () => {
-        /* 챌린지 기능 */
-        if ('vibrate' in navigator) {
-          navigator.vibrate([15, 30, 15]);
-        }
+        vibrate([15, 30, 15]);
+        playSound("click");
+        onNavigate?.("challenges");
       },
-      ariaLabel: "챌린지 모드 버튼",
+      ariaLabel: t("title.menu.challenges.label"),
     },
     {
+      id: "leaderboard",
+      icon: ListOrdered,
+      color: "teal",
+      onClick: () => {
+        vibrate([15, 30, 15]);
+        playSound("click");
+        onNavigate?.("leaderboard");
+      },
+      ariaLabel: t("title.menu.leaderboard.label"),
+    },
+    {
+      id: "achievements",
+      icon: Award,
+      color: "amber",
+      onClick: () => {
+        vibrate([15, 30, 15]);
+        playSound("click");
+        onNavigate?.("achievements");
+      },
+      ariaLabel: t("title.menu.achievements.label"),
+    },
+    {
+      id: "settings",
       icon: Settings,
-      text: "환경설정",
       color: "settings",
       onClick: () => {
-        /* 환경설정 기능 */
-        if ('vibrate' in navigator) {
-          navigator.vibrate([15, 30, 15]);
-        }
+        vibrate([15, 30, 15]);
+        playSound("click");
+        onNavigate?.("settings");
       },
-      ariaLabel: "환경설정 버튼", 
+      ariaLabel: t("title.menu.settings.label"),
     },
   ];
+  // 메뉴 버튼도 물리 장애물로 등록
+  const menuButtonCount = menuButtons.length;
+  const menuFocus = useRovingFocus(menuButtonCount);
+  const menuObstacleRefs = useMemo(
+    () => Array.from({ length: menuButtonCount }, () => createObstacleRef({ material: "ground" })),
+    [menuButtonCount]
+  );
 
   return (
     <>
       {/* 커스텀 커서 */}
-      <CustomCursor />
+      <CustomCursor enabled={settings.customCursor} />
       
       {/* 로딩 화면 */}
       {isLoading && <LoadingScreen onComplete={handleLoadingComplete} />}
@@ -1483,12 +1328,13 @@ const SevenDropsTitle: React.FC = () => {
       }
       .tangram { animation: rotateAndFade 8s linear infinite !important; }
       .tangram:hover { opacity: 0.9; transition: opacity 0.3s ease; }
+      [data-reduced-motion="true"] .tangram { animation: none !important; opacity: 0.5; }
     `}</style>
       
       {/* 메인 컨테이너 */}
       <div 
-        className={`h-screen w-full ${getBgStyle()} flex flex-col items-center justify-center relative overflow-hidden`}
-        aria-label="7Drops 게임 타이틀 화면"
+        className={`h-screen w-full bg-screen flex flex-col items-center justify-center relative overflow-hidden`}
+        aria-label={t("title.screen")}
       >
         {/* 패턴 프리뷰 */}
         <PatternPreview />
@@ -1497,11 +1343,11 @@ const SevenDropsTitle: React.FC = () => {
         {!isLoading && tangramPieces.map((piece, index) => (
           <div
             key={index}
-            className={`absolute obstacle tangram ${piece.color} transition-all duration-300 animate-zoomFade`}
+            ref={tangramObstacleRefs[index]}
+            className={`absolute obstacle tangram transition-all duration-300 animate-zoomFade`}
             style={{
               ...piece.style,
-              left: `${Math.random() * 80 + 10}%`,
-              top: `${Math.random() * 80 + 10}%`,
+              ...tangramPositions[index],
               animationDelay: `${index * -2}s`,
               "--translateX": `${parallaxOffset.x}px`,
               "--translateY": `${parallaxOffset.y}px`,
@@ -1529,15 +1375,23 @@ const SevenDropsTitle: React.FC = () => {
           <div className="absolute -inset-0.5 bg-gradient-to-r from-cyan-500 via-purple-500 to-blue-500 rounded-lg blur opacity-10" />
         </div>
 
-        {/* 메뉴 버튼 */}
-        <div className="flex flex-col gap-4 w-64 relative z-10">
+        {/* 메뉴 버튼 (방향키로 이동) */}
+        <div
+          className="flex flex-col gap-4 w-64 relative z-10"
+          role="menu"
+          aria-label={t("title.menu")}
+          {...menuFocus.containerProps}
+        >
           {!isLoading && menuButtons.map((btn, index) => (
             <button
               key={index}
-              data-menu-item={btn.text}
+              ref={menuObstacleRefs[index]}
+              role="menuitem"
+              {...menuFocus.getItemProps(index)}
+              data-menu-item={btn.id}
               className={`
                 obstacle
-                text-white/85
+                text-content/85
                 backdrop-blur-sm
                 py-4 px-6 
                 rounded-lg 
@@ -1547,7 +1401,7 @@ const SevenDropsTitle: React.FC = () => {
                 transform 
                 shadow-lg 
                 border
-                focus:outline-none focus:ring-2 focus:ring-white/50
+                focus:outline-none focus:ring-2 focus:ring-content/50
                 font-baloo
               `}
               style={{
@@ -1556,8 +1410,8 @@ const SevenDropsTitle: React.FC = () => {
               }}
               onMouseEnter={() => {
                 setHoveredButton(index);
-                setParallaxOffset({ x: 5, y: 5 }); // 더 작은 패럴랙스 효과
-                playSound(SOUNDS.hover);
+                if (!reducedMotion) setParallaxOffset({ x: 5, y: 5 }); // 더 작은 패럴랙스 효과
+                playSound("hover");
               }}
               onMouseLeave={() => {
                 setHoveredButton(null);
@@ -1565,10 +1419,9 @@ const SevenDropsTitle: React.FC = () => {
               }}
               onClick={btn.onClick}
               aria-label={btn.ariaLabel}
-              tabIndex={0}
             >
               <btn.icon size={24} />
-              <span className="font-semibold">{btn.text}</span>
+              <span className="font-semibold">{t(`title.menu.${btn.id}`)}</span>
             </button>
           ))}
         </div>
@@ -0,0 +1,133 @@
+import React, { useSyncExternalStore } from "react";
+import { Award, Shapes, Star, Trophy } from "lucide-react";
+import Modal from "../common/Modal";
+import { ACHIEVEMENTS } from "../../config/achievements";
+import { useTranslation } from "../../hooks/useTranslation";
+import {
+  dismissMergeSummary,
+  getProfileSyncState,
+  resolveSettingConflicts,
+  subscribeProfileSync,
+} from "../../services/profile";
+import { playSound } from "../../utils/sound";
+import type { Translate } from "../../types/I18n";
+
+// 설정 값 표시용 문자열
+const formatValue = (value: unknown, t: Translate): string => {
+  if (typeof value === "boolean") return t(value ? "common.on" : "common.off");
+  if (Array.isArray(value)) return value.join(", ") || t("common.none");
+  return String(value);
+};
+
+// 처음 로그인했을 때 기기 진행 상황을 계정에 합친 결과 안내 (App에서 한 번만 렌더링)
+const ProfileMergeDialog: React.FC = () => {
+  const { summary, error } = useSyncExternalStore(subscribeProfileSync, getProfileSyncState);
+  const { t } = useTranslation();
+  if (!summary) return null;
+
+  const { bestScore, achievementsAdded, patternsAdded, starsAdded, conflicts } = summary;
+  const addedTitles = ACHIEVEMENTS.filter(({ id }) => achievementsAdded.includes(id)).map(
+    ({ title }) => t(title)
+  );
+  const close = () => {
+    playSound("click");
+    dismissMergeSummary();
+  };
+
+  return (
+    <Modal title={t("merge.title")} onClose={close}>
+      <ul className="flex flex-col gap-2 text-sm text-content/80">
+        <li className="flex items-center gap-2">
+          <Trophy size={16} className="text-yellow-300" />
+          {t("merge.bestScore", { score: bestScore.merged })}
+          <span className="text-content/40 text-xs">
+            {t("merge.bestScoreDetail", { local: bestScore.local, remote: bestScore.remote })}
+          </span>
+        </li>
+        <li className="flex items-start gap-2">
+          <Award size={16} className="text-amber-300 mt-0.5" />
+          <span>
+            {t("merge.achievements", { count: addedTitles.length })}
+            {addedTitles.length > 0 && (
+              <span className="block text-content/40 text-xs">{addedTitles.join(", ")}</span>
+            )}
+          </span>
+        </li>
+        <li className="flex items-center gap-2">
+          <Shapes size={16} className="text-teal-300" />
+          {t("merge.patterns", { count: patternsAdded.length })}
+        </li>
+        <li className="flex items-center gap-2">
+          <Star size={16} className="text-yellow-300" />
+          {t("merge.stars", { count: starsAdded })}
+        </li>
+      </ul>
+
+      {conflicts.length > 0 && (
+        <div className="mt-4">
+          <h3 className="text-content font-semibold text-sm mb-2">
+            {t("merge.conflicts", { count: conflicts.length })}
+          </h3>
+          <table className="w-full text-xs text-content/70">
+            <thead>
+              <tr className="text-content/40 text-left">
+                <th className="font-normal pb-1">{t("merge.field")}</th>
+                <th className="font-normal pb-1">{t("merge.local")}</th>
+                <th className="font-normal pb-1">{t("merge.remote")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflicts.map(({ path, local, remote, chosen }) => (
+                <tr key={path}>
+                  <td className="py-0.5 font-mono">{path}</td>
+                  <td className={chosen === "local" ? "text-green-300" : undefined}>{formatValue(local, t)}</td>
+                  <td className={chosen === "remote" ? "text-green-300" : undefined}>{formatValue(remote, t)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-content/40 text-xs mt-1">{t("merge.chosenHint")}</p>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-red-300 text-xs mt-3" role="alert">
+          {t(error)}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2 mt-5">
+        {conflicts.some(({ chosen }) => chosen === "remote") && (
+          <button
+            onClick={() => {
+              playSound("click");
+              void resolveSettingConflicts("local");
+            }}
+            className="px-3 py-1.5 bg-surface hover:bg-surface-strong text-content rounded text-sm"
+          >
+            {t("merge.useLocal")}
+          </button>
+        )}
+        {conflicts.some(({ chosen }) => chosen === "local") && (
+          <button
+            onClick={() => {
+              playSound("click");
+              void resolveSettingConflicts("remote");
+            }}
+            className="px-3 py-1.5 bg-surface hover:bg-surface-strong text-content rounded text-sm"
+          >
+            {t("merge.useRemote")}
+          </button>
+        )}
+        <button
+          onClick={close}
+          className="px-4 py-1.5 bg-blue-500/80 hover:bg-blue-500 text-white rounded text-sm"
+        >
+          {t("common.ok")}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default ProfileMergeDialog;
@@ -1,26 +1,53 @@
-import React from "react";
+import React, { useEffect, useRef } from "react";
+import { LogIn, Loader2 } from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import { useTranslation } from "../../hooks/useTranslation";
+import { playSound } from "../../utils/sound";
 
 interface SocialLoginProps {
   // 로그인 성공 시 호출할 콜백 (타이틀 화면 등에서 모달 닫기 등 처리)
   onSuccess?: () => void;
 }
 
+// 설정된 로그인 제공자 목록 (config/auth.ts)
 const SocialLogin: React.FC<SocialLoginProps> = ({ onSuccess }) => {
-  const handleLogin = () => {
-    console.log("Social login clicked");
-    // 실제 구현 시 소셜 로그인 API 호출 및 성공 처리 후 onSuccess 실행
-    if (onSuccess) onSuccess();
-  };
+  const { user, isLoading, error, providers, signIn } = useAuth();
+  const { t } = useTranslation();
+  const onSuccessRef = useRef(onSuccess);
+  onSuccessRef.current = onSuccess;
+  const wasSignedIn = useRef(user !== null);
+
+  // 로그아웃 상태에서 로그인으로 바뀌었을 때만 알림
+  useEffect(() => {
+    if (user && !wasSignedIn.current) onSuccessRef.current?.();
+    wasSignedIn.current = user !== null;
+  }, [user]);
+
+  if (providers.length === 0) {
+    return <p className="text-content/50 text-sm">{t("account.noProviders")}</p>;
+  }
 
   return (
-    <div className="flex flex-col items-center">
-      <p className="mb-4 text-white">소셜 로그인 스텁 컴포넌트</p>
-      <button
-        onClick={handleLogin}
-        className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition"
-      >
-        Login with Social Account
-      </button>
+    <div className="flex flex-col gap-2">
+      {providers.map((provider) => (
+        <button
+          key={provider.id}
+          onClick={() => {
+            playSound("click");
+            void signIn(provider.id);
+          }}
+          disabled={isLoading}
+          className="px-4 py-2 bg-blue-500/80 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg flex items-center justify-center gap-2 transition"
+        >
+          {isLoading ? <Loader2 size={18} className="animate-spin" /> : <LogIn size={18} />}
+          {t("account.signIn", { provider: provider.label })}
+        </button>
+      ))}
+      {error && (
+        <p className="text-red-300 text-xs" role="alert">
+          {t(error.key, error.values)}
+        </p>
+      )}
     </div>
   );
 };
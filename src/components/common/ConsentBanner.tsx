@@ -0,0 +1,42 @@
+import React from "react";
+import { BarChart3 } from "lucide-react";
+import { useAnalyticsConsent } from "../../hooks/useAnalyticsConsent";
+import { useTranslation } from "../../hooks/useTranslation";
+import { playSound } from "../../utils/sound";
+
+// 사용 통계 전송 동의 요청 (아직 답하지 않았을 때만 표시, 환경설정에서 언제든 변경 가능)
+const ConsentBanner: React.FC = () => {
+  const { consent, setConsent } = useAnalyticsConsent();
+  const { t } = useTranslation();
+  if (consent !== "unknown") return null;
+
+  const answer = (granted: boolean) => {
+    playSound("click");
+    setConsent(granted ? "granted" : "denied");
+  };
+
+  return (
+    <div
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[min(32rem,calc(100%-2rem))] flex items-center gap-3 p-3 rounded-lg bg-surface-sunken/95 border border-content/10 text-sm text-content/80 shadow-lg"
+      role="region"
+      aria-label={t("consent.label")}
+    >
+      <BarChart3 size={24} className="text-cyan-300 shrink-0" />
+      <p className="flex-1">{t("consent.question")}</p>
+      <button
+        onClick={() => answer(false)}
+        className="px-3 py-1.5 bg-surface hover:bg-surface-strong text-content rounded"
+      >
+        {t("consent.deny")}
+      </button>
+      <button
+        onClick={() => answer(true)}
+        className="px-3 py-1.5 bg-accent/80 hover:bg-accent text-on-accent rounded"
+      >
+        {t("consent.allow")}
+      </button>
+    </div>
+  );
+};
+
+export default ConsentBanner;
@@ -0,0 +1,84 @@
+import React from "react";
+import { AlertTriangle, ClipboardCopy, Home, RotateCcw } from "lucide-react";
+import { captureError, copyDiagnostics } from "../../services/error";
+import { translate } from "../../services/i18n";
+
+interface ErrorBoundaryProps {
+  area: string; // 보고서에 남길 영역 이름 (예: "title", "game")
+  onHome?: () => void; // 지정하면 "타이틀로" 버튼 표시
+  children: React.ReactNode;
+}
+
+interface ErrorBoundaryState {
+  error: Error | null;
+  copied: boolean | null; // 진단 정보 복사 결과 (아직 시도하지 않았으면 null)
+}
+
+// 하위 컴포넌트의 렌더링 오류를 보고하고 복구 화면 표시
+// (렌더링 오류는 클래스 컴포넌트의 생명주기 메서드로만 잡을 수 있음, 문구는 훅 대신 translate 사용)
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null, copied: null };
+
+  static getDerivedStateFromError(error: Error): Partial<ErrorBoundaryState> {
+    return { error, copied: null };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    captureError(error, `render:${this.props.area}`, {
+      componentStack: info.componentStack ?? "",
+    });
+  }
+
+  private reset = () => this.setState({ error: null, copied: null });
+
+  private copy = async () => this.setState({ copied: await copyDiagnostics() });
+
+  render() {
+    const { error, copied } = this.state;
+    if (!error) return this.props.children;
+    const { onHome } = this.props;
+
+    return (
+      <div
+        className="min-h-screen w-full bg-screen flex flex-col items-center justify-center gap-4 p-6 text-center"
+        role="alert"
+      >
+        <AlertTriangle size={48} className="text-yellow-300" />
+        <h1 className="text-3xl text-content/90 font-baloo">{translate("error.title")}</h1>
+        <p className="text-content/60 text-sm max-w-sm">{translate("error.body")}</p>
+        <div className="flex flex-wrap justify-center gap-2">
+          <button
+            onClick={this.reset}
+            className="px-4 py-2 bg-blue-500/80 hover:bg-blue-500 text-white rounded-lg flex items-center gap-2"
+          >
+            <RotateCcw size={18} /> {translate("common.retry")}
+          </button>
+          {onHome && (
+            <button
+              onClick={() => {
+                this.reset();
+                onHome();
+              }}
+              className="px-4 py-2 bg-surface hover:bg-surface-strong text-content rounded-lg flex items-center gap-2"
+            >
+              <Home size={18} /> {translate("common.backToTitle")}
+            </button>
+          )}
+          <button
+            onClick={() => void this.copy()}
+            className="px-4 py-2 bg-surface hover:bg-surface-strong text-content rounded-lg flex items-center gap-2"
+          >
+            <ClipboardCopy size={18} /> {translate("common.copyDiagnostics")}
+          </button>
+        </div>
+        {copied !== null && (
+          <p className={`text-xs ${copied ? "text-green-300" : "text-red-300"}`} role="status">
+            {translate(copied ? "error.copied" : "common.copyFailed")}
+          </p>
+        )}
+      </div>
+    );
+  }
+}
+
+export default ErrorBoundary;
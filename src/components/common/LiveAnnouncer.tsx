@@ -0,0 +1,32 @@
+import React, { useSyncExternalStore } from "react";
+import { getAnnouncements, subscribeAnnouncements } from "../../utils/announce";
+import type { Politeness } from "../../utils/announce";
+
+const POLITENESS: Politeness[] = ["polite", "assertive"];
+
+// 스크린 리더용 알림 영역 (화면에는 보이지 않음, App에서 한 번만 렌더링)
+// 알림마다 key를 바꿔 새 노드로 넣어야 같은 문장도 다시 읽힘
+const LiveAnnouncer: React.FC = () => {
+  const announcements = useSyncExternalStore(subscribeAnnouncements, getAnnouncements);
+
+  return (
+    <>
+      {POLITENESS.map((politeness) => {
+        const announcement = announcements[politeness];
+        return (
+          <div
+            key={politeness}
+            className="sr-only"
+            role={politeness === "assertive" ? "alert" : "status"}
+            aria-live={politeness}
+            aria-atomic="true"
+          >
+            {announcement && <span key={announcement.id}>{announcement.message}</span>}
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default LiveAnnouncer;
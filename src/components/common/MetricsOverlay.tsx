@@ -0,0 +1,67 @@
+import React from "react";
+import { Download, X } from "lucide-react";
+import { METRICS_CONFIG } from "../../config/metrics";
+import { useMetrics } from "../../hooks/useMetrics";
+import { useTranslation } from "../../hooks/useTranslation";
+import { downloadMetrics } from "../../services/metrics";
+
+// 소수점 자리 맞춤
+const ms = (value: number) => value.toFixed(1);
+
+// FPS 색상: 55 이상 초록, 30 이상 노랑, 그 아래 빨강
+const fpsColor = (fps: number) =>
+  fps >= 55 ? "text-green-300" : fps >= 30 ? "text-yellow-300" : "text-red-300";
+
+// 성능 측정 오버레이 (환경설정 또는 단축키로 켜고 끔, App에서 한 번만 렌더링)
+const MetricsOverlay: React.FC = () => {
+  const { enabled, snapshot, setEnabled } = useMetrics();
+  const { t } = useTranslation();
+  if (!enabled) return null;
+
+  const { fps, frameTime, longTasks, timings, counters, frames } = snapshot;
+
+  return (
+    <div
+      className="fixed top-2 left-2 z-50 w-60 p-2 rounded bg-black/80 text-[11px] leading-tight font-mono text-white/80 pointer-events-auto"
+      aria-label={t("metrics.label")}
+    >
+      <div className="flex items-center justify-between mb-1">
+        <span className={`text-base ${fpsColor(fps)}`}>{fps.toFixed(0)} FPS</span>
+        <span className="flex gap-1">
+          <button onClick={downloadMetrics} title={t("metrics.export")} aria-label={t("metrics.exportLabel")}>
+            <Download size={14} />
+          </button>
+          <button
+            onClick={() => setEnabled(false)}
+            title={t("metrics.close", { key: METRICS_CONFIG.toggleKey })}
+            aria-label={t("metrics.closeLabel")}
+          >
+            <X size={14} />
+          </button>
+        </span>
+      </div>
+      <p>
+        frame p50 {ms(frameTime.p50)} · p95 {ms(frameTime.p95)} · p99 {ms(frameTime.p99)} · max{" "}
+        {ms(frameTime.max)}ms
+      </p>
+      <p className={longTasks.count > 0 ? "text-yellow-300" : undefined}>
+        {longTasks.supported ? "long tasks" : "long frames"} {longTasks.count} (
+        {ms(longTasks.totalMs)}ms, max {ms(longTasks.maxMs)})
+      </p>
+      {Object.entries(timings).map(([name, timing]) => (
+        <p key={name}>
+          {name} {timing.perSecond}/s · avg {ms(timing.avgMs)} · p95 {ms(timing.p95Ms)} · max{" "}
+          {ms(timing.maxMs)}ms
+        </p>
+      ))}
+      {Object.entries(counters).map(([name, counter]) => (
+        <p key={name}>
+          {name} {counter.last} (avg {counter.avg.toFixed(1)}, max {counter.max})
+        </p>
+      ))}
+      <p className="text-white/40 mt-1">{t("metrics.frames", { count: frames })}</p>
+    </div>
+  );
+};
+
+export default MetricsOverlay;
@@ -0,0 +1,49 @@
+import React, { useEffect, useRef } from "react";
+
+interface ModalProps {
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+}
+
+// 화면 위에 띄우는 대화상자 (Esc 또는 바깥 영역 클릭으로 닫기)
+const Modal: React.FC<ModalProps> = ({ title, onClose, children }) => {
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    dialogRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCloseRef.current();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="modal-title"
+        tabIndex={-1}
+        className="w-full max-w-md max-h-[85vh] overflow-y-auto rounded-xl bg-surface-sunken border border-content/10 p-5 text-content shadow-xl outline-none"
+        style={{ animation: "fadeInUp 0.2s ease both" }}
+      >
+        <h2 id="modal-title" className="text-xl font-baloo mb-4">
+          {title}
+        </h2>
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default Modal;
@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ArrowLeft, Award, Lock } from "lucide-react";
+import { ACHIEVEMENTS } from "../../config/achievements";
+import { getAchievementProgress } from "../../core/achievements/rules";
+import { useTranslation } from "../../hooks/useTranslation";
+import { getAchievements, subscribeUnlocks } from "../../store/achievements";
+import { playSound } from "../../utils/sound";
+import type { AchievementDef } from "../../types/Achievement";
+
+interface AchievementsProps {
+  onBack?: () => void;
+}
+
+// 달성 알림 토스트
+interface Toast {
+  key: number;
+  achievement: AchievementDef;
+}
+
+const TOAST_MS = 3500;
+
+// 업적 달성 알림 (화면과 무관하게 App에서 한 번만 렌더링)
+export const AchievementToasts: React.FC = () => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const keyRef = useRef(0);
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    const timers: number[] = [];
+    const unsubscribe = subscribeUnlocks((unlocked) => {
+      const added = unlocked.map((achievement) => ({ key: keyRef.current++, achievement }));
+      setToasts((prev) => [...prev, ...added]);
+      playSound("click");
+
+      timers.push(
+        window.setTimeout(() => {
+          setToasts((prev) => prev.filter((toast) => !added.includes(toast)));
+        }, TOAST_MS)
+      );
+    });
+    return () => {
+      unsubscribe();
+      timers.forEach((timer) => clearTimeout(timer));
+    };
+  }, []);
+
+  const dismiss = (key: number) => setToasts((prev) => prev.filter((toast) => toast.key !== key));
+
+  return (
+    <div
+      className="fixed top-4 right-4 z-50 flex flex-col gap-2 w-72"
+      role="status"
+      aria-live="polite"
+    >
+      {toasts.map(({ key, achievement }) => (
+        <button
+          key={key}
+          onMouseEnter={() => playSound("hover")}
+          onClick={() => {
+            playSound("click");
+            dismiss(key);
+          }}
+          className="flex items-center gap-3 p-3 rounded-lg bg-surface-sunken/90 border border-yellow-400/40 text-left shadow-lg"
+          style={{ animation: "fadeInUp 0.3s ease both" }}
+          aria-label={t("achievements.toastLabel", { title: t(achievement.title) })}
+        >
+          <Award size={28} className="text-yellow-300 shrink-0" />
+          <span>
+            <span className="block text-yellow-300 text-xs">{t("achievements.toast")}</span>
+            <span className="block text-content font-baloo">{t(achievement.title)}</span>
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+// 업적 갤러리 화면
+const Achievements: React.FC<AchievementsProps> = ({ onBack }) => {
+  const [{ stats, unlocked }] = useState(getAchievements);
+  const unlockedCount = ACHIEVEMENTS.filter(({ id }) => id in unlocked).length;
+  const { locale, t } = useTranslation();
+
+  return (
+    <div
+      className="min-h-screen w-full bg-screen flex flex-col items-center justify-center gap-6 py-8"
+      aria-label={t("achievements.screen")}
+    >
+      <h1 className="text-4xl text-yellow-300 font-baloo">{t("achievements.title")}</h1>
+      <p className="text-content/60 text-sm">
+        {t("achievements.progress", { unlocked: unlockedCount, total: ACHIEVEMENTS.length })}
+      </p>
+
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3 w-full max-w-2xl px-4">
+        {ACHIEVEMENTS.map((achievement) => {
+          const achievedAt = unlocked[achievement.id];
+          const concealed = achievement.hidden && !achievedAt;
+          const { current, target } = getAchievementProgress(achievement, stats);
+          return (
+            <li
+              key={achievement.id}
+              onMouseEnter={() => playSound("hover")}
+              className={`p-4 rounded-lg border flex gap-3 ${
+                achievedAt
+                  ? "bg-yellow-500/20 border-yellow-400/40 text-content"
+                  : "bg-surface-panel/60 border-content/10 text-content/50"
+              }`}
+            >
+              {achievedAt ? (
+                <Award size={28} className="text-yellow-300 shrink-0" />
+              ) : (
+                <Lock size={28} className="shrink-0" />
+              )}
+              <div className="flex-1 flex flex-col gap-1">
+                <span className="font-baloo">{concealed ? "???" : t(achievement.title)}</span>
+                <span className="text-xs text-content/60">
+                  {concealed ? t("achievements.hidden") : t(achievement.description)}
+                </span>
+                {achievedAt ? (
+                  <span className="text-xs text-yellow-200/70">
+                    {t("achievements.achievedAt", {
+                      date: new Date(achievedAt).toLocaleDateString(locale),
+                    })}
+                  </span>
+                ) : (
+                  !concealed && (
+                    <div
+                      className="h-1.5 rounded bg-content/10 overflow-hidden"
+                      role="progressbar"
+                      aria-valuemin={0}
+                      aria-valuemax={target}
+                      aria-valuenow={current}
+                      aria-label={`${current.toLocaleString()} / ${target.toLocaleString()}`}
+                    >
+                      <div
+                        className="h-full bg-accent"
+                        style={{ width: `${(current / target) * 100}%` }}
+                      />
+                    </div>
+                  )
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {onBack && (
+        <button
+          onClick={onBack}
+          className="px-4 py-2 bg-surface/70 hover:bg-surface-strong text-content rounded-lg flex items-center gap-2"
+        >
+          <ArrowLeft size={18} /> {t("common.backToTitle")}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default Achievements;
@@ -0,0 +1,31 @@
+import React from "react";
+import { themeColor } from "../../utils/theme";
+import type { TangramKind } from "../../types/Block";
+
+interface BlockProps {
+  kind: TangramKind | null;
+  ghost?: boolean; // 하드 드롭 도착 위치 미리보기
+}
+
+// 보드의 한 칸을 그리는 컴포넌트
+const Block: React.FC<BlockProps> = ({ kind, ghost = false }) => {
+  if (!kind) {
+    return <div className="w-full h-full bg-surface-sunken/40 border border-content/5" />;
+  }
+
+  return (
+    <div
+      className={`w-full h-full rounded-sm border ${
+        ghost ? "opacity-25 border-content/40" : "border-black/20 shadow-inner"
+      }`}
+      style={{
+        backgroundColor: themeColor(`piece-${kind}`),
+        backgroundImage: ghost
+          ? undefined
+          : "linear-gradient(45deg, rgba(255,255,255,0.15), rgba(0,0,0,0.1))",
+      }}
+    />
+  );
+};
+
+export default React.memo(Block);
@@ -0,0 +1,76 @@
+import React, { useMemo } from "react";
+import Block from "./Block";
+import { getGhostPiece, getPieceCells } from "../../core/game/engine";
+import { useTranslation } from "../../hooks/useTranslation";
+import type { Point, TangramKind } from "../../types/Block";
+import type { GameState } from "../../types/Game";
+
+interface BoardProps {
+  state: GameState;
+  cellSize?: number; // 한 칸의 픽셀 크기
+  highlightCells?: Point[]; // 실루엣 완성 등으로 강조할 칸
+}
+
+// 보드 안쪽 여백 (p-1)
+const BOARD_PADDING = 4;
+
+// 고정 블록 + 고스트 + 현재 조각을 합쳐서 격자로 렌더링
+const Board: React.FC<BoardProps> = ({ state, cellSize = 28, highlightCells = [] }) => {
+  const rows = state.board.length;
+  const cols = state.board[0].length;
+  const { t } = useTranslation();
+
+  const cells = useMemo(() => {
+    const grid: { kind: TangramKind | null; ghost: boolean }[][] = state.board.map((row) =>
+      row.map((kind) => ({ kind, ghost: false }))
+    );
+
+    const ghost = getGhostPiece(state);
+    if (ghost) {
+      getPieceCells(ghost).forEach(({ x, y }) => {
+        if (y >= 0 && !grid[y][x].kind) grid[y][x] = { kind: ghost.kind, ghost: true };
+      });
+    }
+
+    if (state.active) {
+      const kind = state.active.kind;
+      getPieceCells(state.active).forEach(({ x, y }) => {
+        if (y >= 0) grid[y][x] = { kind, ghost: false };
+      });
+    }
+
+    return grid;
+  }, [state]);
+
+  return (
+    <div
+      className="relative grid bg-surface-sunken/70 border-2 border-content/20 rounded-lg p-1 shadow-2xl"
+      style={{
+        gridTemplateColumns: `repeat(${cols}, ${cellSize}px)`,
+        gridTemplateRows: `repeat(${rows}, ${cellSize}px)`,
+      }}
+      role="grid"
+      aria-label={t("game.board")}
+    >
+      {cells.flatMap((row, y) =>
+        row.map((cell, x) => <Block key={`${x}-${y}`} kind={cell.kind} ghost={cell.ghost} />)
+      )}
+
+      {/* 강조 표시 (격자 배치에 영향을 주지 않도록 절대 위치로 겹쳐 그림) */}
+      {highlightCells.map(({ x, y }) => (
+        <div
+          key={`hl-${x}-${y}`}
+          className="absolute glow-piece rounded-sm ring-2 ring-content/80 bg-content/30 pointer-events-none"
+          style={{
+            left: BOARD_PADDING + x * cellSize,
+            top: BOARD_PADDING + y * cellSize,
+            width: cellSize,
+            height: cellSize,
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default Board;
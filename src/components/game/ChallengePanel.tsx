@@ -0,0 +1,46 @@
+import React from "react";
+import { Clock, Target, Layers } from "lucide-react";
+import {
+  getGoalProgress,
+  getRemainingDrops,
+  getRemainingSeconds,
+} from "../../core/game/challenge";
+import { useTranslation } from "../../hooks/useTranslation";
+import type { ChallengeStage, ChallengeStats, GameState } from "../../types/Game";
+
+interface ChallengePanelProps {
+  stage: ChallengeStage;
+  state: GameState;
+  stats: ChallengeStats;
+}
+
+// 챌린지 목표와 남은 조각/시간 표시
+const ChallengePanel: React.FC<ChallengePanelProps> = ({ stage, state, stats }) => {
+  const progress = getGoalProgress(stage, state, stats);
+  const drops = getRemainingDrops(stage, state);
+  const seconds = getRemainingSeconds(stage, state);
+  const { locale, t } = useTranslation();
+
+  return (
+    <div className="bg-purple-900/40 border border-purple-500/30 rounded-lg p-3 text-content/80 text-sm flex flex-col gap-2">
+      <h2 className="font-baloo text-purple-300">{t(stage.title)}</h2>
+      <p className="text-xs text-content/60">{t(stage.description)}</p>
+      <p className="flex items-center gap-2">
+        <Target size={14} /> {progress.current.toLocaleString(locale)} /{" "}
+        {progress.target.toLocaleString(locale)}
+      </p>
+      {drops !== null && (
+        <p className="flex items-center gap-2">
+          <Layers size={14} /> {t("challenge.dropsLeft", { count: drops })}
+        </p>
+      )}
+      {seconds !== null && (
+        <p className={`flex items-center gap-2 ${seconds < 10 ? "text-red-300" : ""}`}>
+          <Clock size={14} /> {t("challenge.secondsLeft", { count: Math.ceil(seconds) })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ChallengePanel;
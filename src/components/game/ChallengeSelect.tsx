@@ -0,0 +1,87 @@
+import React, { useState } from "react";
+import { ArrowLeft, Lock, Star } from "lucide-react";
+import { CHALLENGE_STAGES } from "../../config/gameConfig";
+import { isStageUnlocked } from "../../core/game/challenge";
+import { useTranslation } from "../../hooks/useTranslation";
+import { loadChallengeProgress } from "../../store/challenges";
+import { playSound } from "../../utils/sound";
+import type { ChallengeStage } from "../../types/Game";
+
+interface ChallengeSelectProps {
+  onSelect: (stage: ChallengeStage) => void;
+  onBack?: () => void;
+}
+
+// 별점 표시 (획득한 별은 채워서 표시)
+export const StarRating: React.FC<{ stars: number; size?: number }> = ({ stars, size = 16 }) => {
+  const { t } = useTranslation();
+
+  return (
+    <span className="flex gap-0.5" aria-label={t("common.stars", { count: stars })}>
+      {[1, 2, 3].map((n) => (
+        <Star
+          key={n}
+          size={size}
+          className={n <= stars ? "text-yellow-400 fill-yellow-400" : "text-content/30"}
+        />
+      ))}
+    </span>
+  );
+};
+
+// 챌린지 스테이지 선택 화면
+const ChallengeSelect: React.FC<ChallengeSelectProps> = ({ onSelect, onBack }) => {
+  const [progress] = useState(loadChallengeProgress);
+  const { t } = useTranslation();
+
+  return (
+    <div
+      className="h-screen w-full bg-screen flex flex-col items-center justify-center gap-6"
+      aria-label={t("challenge.screen")}
+    >
+      <h1 className="text-4xl text-purple-400 font-baloo">{t("challenge.title")}</h1>
+
+      <ul className="flex flex-col gap-3 w-80">
+        {CHALLENGE_STAGES.map((stage, index) => {
+          const unlocked = isStageUnlocked(stage, progress);
+          return (
+            <li key={stage.id}>
+              <button
+                onClick={() => {
+                  playSound("click");
+                  onSelect(stage);
+                }}
+                onMouseEnter={() => unlocked && playSound("hover")}
+                disabled={!unlocked}
+                className={`w-full text-left p-4 rounded-lg border border-purple-500/30 transition ${
+                  unlocked
+                    ? "bg-purple-600/40 hover:bg-purple-600/70 text-content"
+                    : "bg-surface-panel/60 text-content/40 cursor-not-allowed"
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-baloo">
+                    {index + 1}. {t(stage.title)}
+                  </span>
+                  {unlocked ? <StarRating stars={progress[stage.id] ?? 0} /> : <Lock size={16} />}
+                </div>
+                <p className="text-sm text-content/70 mt-1">{t(stage.description)}</p>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {onBack && (
+        <button
+          onClick={onBack}
+          className="px-4 py-2 bg-surface/70 hover:bg-surface-strong text-content rounded-lg flex items-center gap-2"
+        >
+          <ArrowLeft size={18} /> {t("common.backToTitle")}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ChallengeSelect;
@@ -0,0 +1,456 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  ArrowLeft,
+  ArrowRight,
+  CalendarDays,
+  Film,
+  Gamepad2,
+  Pause,
+  Play,
+  RotateCcw,
+  Trophy,
+} from "lucide-react";
+import Board from "./Board";
+import NextBlock from "./NextBlock";
+import ChallengePanel from "./ChallengePanel";
+import ScoreBoard from "./ScoreBoard";
+import TouchControls from "./TouchControls";
+import { StarRating } from "./ChallengeSelect";
+import {
+  createChallengeSource,
+  createStartBoard,
+  evaluateChallenge,
+  getRemainingDrops,
+  getTotalStars,
+  isStageUnlocked,
+} from "../../core/game/challenge";
+import { applyGameEvents, applyGameFinished, applyScoreState } from "../../core/achievements/rules";
+import { getPatternName } from "../../core/patterns/templates";
+import { useGameLoop } from "../../hooks/useGameLoop";
+import { useBlockControl } from "../../hooks/useBlockControl";
+import { useEnvironmentDetection } from "../../hooks/useEnvironmentDetection";
+import { usePatternDetect } from "../../hooks/usePatternDetect";
+import { useScore } from "../../hooks/useScore";
+import { useTouchControl } from "../../hooks/useTouchControl";
+import { useTranslation } from "../../hooks/useTranslation";
+import { useUserSettings } from "../../hooks/useUserSettings";
+import { track } from "../../services/analytics";
+import { addBreadcrumb } from "../../services/error";
+import { leaderboard } from "../../services/leaderboard";
+import { recordStats } from "../../store/achievements";
+import { loadChallengeProgress, recordChallengeStars } from "../../store/challenges";
+import { recordPatternsFound } from "../../store/patternCollection";
+import { getCurrentPlayer } from "../../store/player";
+import { loadReplay, saveReplay, ReplaySlot } from "../../store/replays";
+import { announce } from "../../utils/announce";
+import { getDailySeed, getDayKey } from "../../utils/random";
+import { playSound } from "../../utils/sound";
+import type { GameMode } from "../../types/Analytics";
+import type { MessageKey, Translate } from "../../types/I18n";
+import type { Locale } from "../../types/User";
+import type {
+  ChallengeOutcome,
+  ChallengeStage,
+  GameAction,
+  GameEvent,
+  GameState,
+} from "../../types/Game";
+
+interface GameContainerProps {
+  challenge?: ChallengeStage; // 지정하면 챌린지 모드로 진행
+  daily?: boolean; // 오늘의 도전: 날짜별 공통 시드로 진행하고 daily 순위표에 등록
+  nextStage?: ChallengeStage; // 챌린지 성공 후 이어서 도전할 스테이지
+  onNextStage?: (stage: ChallengeStage) => void;
+  onExit?: () => void;
+}
+
+// 오류 보고용 게임 이벤트 기록 (매 조각마다 나오는 spawn은 제외)
+const recordEventBreadcrumbs = (events: GameEvent[]) =>
+  events.forEach((event) => {
+    switch (event.type) {
+      case "lock":
+        addBreadcrumb("game", "lock", { kind: event.kind, hardDrop: event.hardDrop });
+        break;
+      case "pattern":
+        addBreadcrumb("game", "pattern", { patternId: event.patternId });
+        break;
+      case "clear":
+        addBreadcrumb("game", "clear", { lines: event.lines, areas: event.areas });
+        break;
+      case "gameOver":
+        addBreadcrumb("game", "gameOver");
+        break;
+    }
+  });
+
+// 스크린 리더 알림: 한 번에 나온 이벤트는 한 문장으로 묶어 읽음 (게임 종료는 바로 끊고 알림)
+const announceGameEvents = (events: GameEvent[], t: Translate, locale: Locale, score: number) => {
+  const messages = events.flatMap((event) => {
+    switch (event.type) {
+      case "pattern":
+        return [t("announce.pattern", { name: getPatternName(event.patternId, locale) })];
+      case "clear":
+        return [
+          event.lines > 0
+            ? t("announce.lines", { count: event.lines })
+            : t("announce.areas", { count: event.areas }),
+        ];
+      case "gameOver":
+        return [t("announce.gameOver", { score })];
+      default:
+        return [];
+    }
+  });
+  const gameOver = events.some((event) => event.type === "gameOver");
+  announce(messages.join(". "), gameOver ? "assertive" : "polite");
+};
+
+// 게임 화면: 보드, 다음 조각, 진행 정보
+const GameContainer: React.FC<GameContainerProps> = ({
+  challenge,
+  daily = false,
+  nextStage,
+  onNextStage,
+  onExit,
+}) => {
+  const { settings } = useUserSettings();
+  const { locale, t } = useTranslation();
+  const { detected, handleEvents, clear } = usePatternDetect({
+    locale,
+    onPattern: () => playSound("click"),
+  });
+  const { score, popups, handleEvents: handleScoreEvents, reset: resetScore } = useScore();
+  const [isNewBest, setIsNewBest] = useState(false);
+  const [replayError, setReplayError] = useState<MessageKey | null>(null);
+  const [foundPatterns, setFoundPatterns] = useState<string[]>([]);
+  const [outcome, setOutcome] = useState<ChallengeOutcome>({ status: "playing" });
+  // 오늘의 도전은 시작한 날짜 기준 (자정을 넘겨 끝나도 같은 날 기록)
+  const [dailyDate] = useState(() => (daily ? new Date() : null));
+
+  // 사용 통계용 게임 구분과 시작 시각
+  const mode: GameMode = challenge ? "challenge" : dailyDate ? "daily" : "classic";
+  const stageId = challenge?.id ?? null;
+  const startedAtRef = useRef(Date.now());
+  useEffect(() => {
+    startedAtRef.current = Date.now();
+    track("game_start", { mode, stageId });
+  }, [mode, stageId]);
+
+  // 챌린지 스테이지의 조각 공급원과 시작 보드
+  const challengeSource = useMemo(
+    () => (challenge ? () => createChallengeSource(challenge) : undefined),
+    [challenge]
+  );
+  const startBoard = useMemo(
+    () => (challenge ? createStartBoard(challenge) : undefined),
+    [challenge]
+  );
+
+  // 게임 이벤트 처리: 실루엣 감지 + 점수 + 업적 기록 + 게임 종료 시 리플레이 저장
+  const handleGameEvents = (events: GameEvent[], current: GameState) => {
+    recordEventBreadcrumbs(events);
+    handleEvents(events);
+    const scoreState = handleScoreEvents(events, current.level);
+    const gameOver = events.some((event) => event.type === "gameOver");
+    announceGameEvents(events, t, locale, scoreState.score);
+
+    // 리플레이 재생은 기록하지 않음
+    if (!isReplay) {
+      recordStats((stats) => {
+        const next = applyScoreState(applyGameEvents(stats, events), scoreState);
+        return gameOver && !challenge ? applyGameFinished(next, scoreState.score, new Date()) : next;
+      });
+    }
+
+    const patternIds = events.flatMap((event) => (event.type === "pattern" ? [event.patternId] : []));
+    if (patternIds.length > 0) {
+      setFoundPatterns((prev) => [...prev, ...patternIds]);
+      if (!isReplay) {
+        recordPatternsFound(patternIds);
+        patternIds.forEach((patternId) => track("pattern_found", { patternId, mode }));
+      }
+    }
+
+    // 챌린지는 시작 보드/조각 목록이 달라 리플레이를 저장하지 않음 (종료 기록은 성공/실패 판정에서)
+    if (!challenge && !isReplay && gameOver) {
+      track("game_end", {
+        mode,
+        stageId,
+        result: "over",
+        score: scoreState.score,
+        lines: current.lines,
+        durationMs: Date.now() - startedAtRef.current,
+      });
+      const replay = getReplay();
+      setIsNewBest(saveReplay({ ...replay, summary: { ...replay.summary, score: scoreState.score } }));
+      leaderboard.submitScore({
+        player: getCurrentPlayer(),
+        score: scoreState.score,
+        lines: current.lines,
+        seed: replay.seed,
+        day: dailyDate ? getDayKey(dailyDate) : null,
+      });
+    }
+  };
+
+  const { state, dispatch, restart, playReplay, getReplay, finish, isReplay, seed } = useGameLoop({
+    seed: challenge?.seed ?? (dailyDate ? getDailySeed(dailyDate) : undefined),
+    createSource: challengeSource,
+    board: startBoard,
+    onEvents: handleGameEvents,
+  });
+
+  // 챌린지 성공/실패 판정
+  useEffect(() => {
+    if (!challenge || outcome.status !== "playing") return;
+    const result = evaluateChallenge(challenge, state, { foundPatterns, score: score.score });
+    if (result.status === "playing") return;
+
+    setOutcome(result);
+    finish();
+    track("game_end", {
+      mode,
+      stageId,
+      result: result.status,
+      score: score.score,
+      lines: state.lines,
+      durationMs: Date.now() - startedAtRef.current,
+    });
+    if (result.status === "won") playSound("click");
+    announce(
+      result.status === "won"
+        ? t("announce.challengeWon", { stars: result.stars })
+        : t("announce.challengeLost", { reason: t(`game.loss.${result.reason}`) }),
+      "assertive"
+    );
+
+    const progress =
+      result.status === "won"
+        ? recordChallengeStars(challenge.id, result.stars)
+        : loadChallengeProgress();
+    recordStats((stats) => ({
+      ...applyGameFinished(stats, score.score, new Date()),
+      challengeStars: getTotalStars(progress),
+    }));
+  }, [challenge, state, foundPatterns, score, outcome, finish, mode, stageId, t]);
+
+  // 순서가 정해진 챌린지에서는 남은 조각 수만큼만 미리보기
+  const remainingDrops = challenge ? getRemainingDrops(challenge, state) : null;
+  const previewQueue =
+    remainingDrops === null ? state.next : state.next.slice(0, Math.max(0, remainingDrops - 1));
+
+  // 성공 후 다음 스테이지가 해금되었을 때만 바로 이어서 도전
+  const canPlayNext =
+    outcome.status === "won" &&
+    nextStage !== undefined &&
+    isStageUnlocked(nextStage, loadChallengeProgress());
+
+  // 강조할 칸 (여러 실루엣이 겹치면 한 번만)
+  const highlightCells = useMemo(() => {
+    const seen = new Set<string>();
+    return detected
+      .flatMap((pattern) => pattern.cells)
+      .filter(({ x, y }) => {
+        const key = `${x},${y}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }, [detected]);
+
+  const handleRestart = () => {
+    clear();
+    resetScore();
+    setIsNewBest(false);
+    setReplayError(null);
+    setFoundPatterns([]);
+    setOutcome({ status: "playing" });
+    restart();
+    startedAtRef.current = Date.now();
+    track("game_start", { mode, stageId });
+  };
+
+  // 저장된 리플레이 재생
+  const handleWatch = (slot: ReplaySlot) => {
+    const replay = loadReplay(slot);
+    if (!replay) {
+      setReplayError("game.replayMissing");
+      return;
+    }
+    clear();
+    resetScore();
+    setReplayError(null);
+    if (!playReplay(replay)) {
+      setReplayError("game.replayMismatch");
+    }
+  };
+
+  // 키보드/게임패드 조작 (배치와 자동 반복은 환경설정을 따름)
+  const handleAction = (action: GameAction) => {
+    addBreadcrumb("action", action);
+    dispatch(action);
+  };
+  const { gamepadConnected } = useBlockControl({ onAction: handleAction });
+
+  // 터치 제스처 (오버레이 버튼을 누를 수 있도록 플레이 중에만 보드에서 인식)
+  const { isMobile } = useEnvironmentDetection();
+  const boardRef = useRef<HTMLDivElement>(null);
+  const isPlaying = state.status === "playing" && !isReplay;
+  useTouchControl(boardRef, { onAction: handleAction, enabled: isPlaying });
+
+  return (
+    <div
+      className={`h-screen w-full bg-screen flex items-center justify-center relative overflow-hidden ${
+        isMobile ? "gap-2" : "gap-6"
+      }`}
+      aria-label={t("game.screen")}
+    >
+      <div ref={boardRef} className="relative" style={{ touchAction: "none" }}>
+        <Board state={state} highlightCells={highlightCells} cellSize={isMobile ? 20 : 28} />
+
+        {/* 리플레이 재생 표시 */}
+        {isReplay && state.status !== "over" && (
+          <p className="absolute top-2 right-2 px-2 py-0.5 rounded bg-red-500/80 text-white text-xs font-bold flex items-center gap-1">
+            <Film size={12} /> REPLAY
+          </p>
+        )}
+
+        {/* 실루엣 완성 알림 */}
+        {detected.length > 0 && (
+          <div className="absolute top-6 inset-x-0 flex flex-col items-center gap-2 pointer-events-none">
+            {detected.map((pattern) => (
+              <p
+                key={pattern.key}
+                className="px-3 py-1 rounded-full bg-black/60 text-yellow-300 font-baloo"
+                style={{ animation: "fadeInUp 0.3s ease both" }}
+              >
+                {t("game.patternComplete", { name: pattern.name })}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {/* 일시정지 / 게임 오버 오버레이 */}
+        {state.status !== "playing" && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-black/60 rounded-lg">
+            {challenge && outcome.status !== "playing" ? (
+              <>
+                <p className="text-content text-3xl font-baloo">
+                  {outcome.status === "won" ? "CLEAR!" : "FAILED"}
+                </p>
+                {outcome.status === "won" ? (
+                  <StarRating stars={outcome.stars} size={28} />
+                ) : (
+                  <p className="text-content/70 text-sm">{t(`game.loss.${outcome.reason}`)}</p>
+                )}
+              </>
+            ) : (
+              <p className="text-content text-3xl font-baloo">
+                {state.status === "over" ? (isReplay ? "REPLAY END" : "GAME OVER") : "PAUSED"}
+              </p>
+            )}
+            {state.status === "over" && isNewBest && !isReplay && (
+              <p className="text-yellow-300 text-sm">{t("game.newBest")}</p>
+            )}
+            {state.status === "over" ? (
+              <div className="flex flex-col gap-2 w-44">
+                <button
+                  onClick={handleRestart}
+                  className="px-4 py-2 bg-accent/80 hover:bg-accent text-on-accent rounded-lg flex items-center justify-center gap-2"
+                >
+                  <RotateCcw size={18} /> {t(challenge ? "game.retryChallenge" : "game.playAgain")}
+                </button>
+                {canPlayNext && nextStage && onNextStage && (
+                  <button
+                    onClick={() => onNextStage(nextStage)}
+                    className="px-4 py-2 bg-purple-500/80 hover:bg-purple-500 text-white rounded-lg flex items-center justify-center gap-2"
+                  >
+                    <ArrowRight size={18} /> {t("game.nextStage")}
+                  </button>
+                )}
+                {!challenge && (
+                  <>
+                    <button
+                      onClick={() => handleWatch("last")}
+                      className="px-4 py-2 bg-surface/80 hover:bg-surface-strong text-content rounded-lg flex items-center justify-center gap-2"
+                    >
+                      <Film size={18} /> {t("game.watchLast")}
+                    </button>
+                    <button
+                      onClick={() => handleWatch("best")}
+                      className="px-4 py-2 bg-surface/80 hover:bg-surface-strong text-content rounded-lg flex items-center justify-center gap-2"
+                    >
+                      <Trophy size={18} /> {t("game.watchBest")}
+                    </button>
+                  </>
+                )}
+                {replayError && <p className="text-red-300 text-xs text-center">{t(replayError)}</p>}
+              </div>
+            ) : (
+              <button
+                onClick={() => dispatch("pause")}
+                className="px-4 py-2 bg-accent/80 hover:bg-accent text-on-accent rounded-lg flex items-center gap-2"
+              >
+                <Play size={18} /> {t("game.resume")}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-4 w-40">
+        {challenge && (
+          <ChallengePanel
+            stage={challenge}
+            state={state}
+            stats={{ foundPatterns, score: score.score }}
+          />
+        )}
+
+        <NextBlock title="HOLD" queue={state.hold ? [state.hold] : []} dimmed={!state.canHold} />
+        <NextBlock queue={previewQueue} />
+
+        <ScoreBoard score={score} popups={popups} state={state} />
+
+        {dailyDate && (
+          <p className="text-purple-300 text-xs text-center flex items-center justify-center gap-1">
+            <CalendarDays size={14} /> {t("game.daily", { day: getDayKey(dailyDate) })}
+          </p>
+        )}
+        {/* 버그 제보 시 같은 조각 순서를 재현할 수 있도록 시드 표시 */}
+        <p className="text-content/40 text-xs font-mono text-center" title={t("game.seed")}>
+          seed {seed.toString(16).padStart(8, "0")}
+        </p>
+        {gamepadConnected && (
+          <p className="text-content/40 text-xs text-center flex items-center justify-center gap-1">
+            <Gamepad2 size={14} /> {t("game.gamepadConnected")}
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => dispatch("pause")}
+            className="flex-1 p-2 bg-surface/70 hover:bg-surface-strong text-content rounded-lg flex justify-center"
+            aria-label={t("game.pause")}
+            disabled={state.status === "over"}
+          >
+            <Pause size={18} />
+          </button>
+          {onExit && (
+            <button
+              onClick={onExit}
+              className="flex-1 p-2 bg-surface/70 hover:bg-surface-strong text-content rounded-lg flex justify-center"
+              aria-label={t("game.exit")}
+            >
+              <ArrowLeft size={18} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {settings.controls.touch.showButtons && isPlaying && <TouchControls onAction={handleAction} />}
+    </div>
+  );
+};
+
+export default GameContainer;
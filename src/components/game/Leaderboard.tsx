@@ -0,0 +1,167 @@
+import React, { useState } from "react";
+import { ArrowLeft, CalendarDays, ChevronLeft, ChevronRight, CloudOff, RefreshCw } from "lucide-react";
+import { useLeaderboard } from "../../hooks/useLeaderboard";
+import { useTranslation } from "../../hooks/useTranslation";
+import { getDayKey } from "../../utils/random";
+import { playSound } from "../../utils/sound";
+import type { LeaderboardBoard, LeaderboardEntry } from "../../types/Leaderboard";
+
+interface LeaderboardProps {
+  onPlayDaily?: () => void; // 오늘의 도전 시작
+  onBack?: () => void;
+}
+
+const TABS: LeaderboardBoard[] = ["global", "daily", "friends"];
+
+// 순위표 화면
+const Leaderboard: React.FC<LeaderboardProps> = ({ onPlayDaily, onBack }) => {
+  const [board, setBoard] = useState<LeaderboardBoard>("global");
+  const [page, setPage] = useState(0);
+  const [today] = useState(() => getDayKey());
+  const { locale, t } = useTranslation();
+  const { player, data, myRank, isLoading, error, pendingCount, reload } = useLeaderboard(board, {
+    page,
+    day: today,
+  });
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+  const myRankVisible = data?.entries.some((entry) => entry.player.id === player.id) ?? false;
+
+  const selectBoard = (next: LeaderboardBoard) => {
+    playSound("click");
+    setBoard(next);
+    setPage(0);
+  };
+
+  const renderRow = (entry: LeaderboardEntry) => (
+    <tr
+      key={entry.player.id}
+      className={entry.player.id === player.id ? "bg-accent/20 text-content" : "text-content/80"}
+    >
+      <td className="py-1.5 px-2 text-right font-mono">{entry.rank}</td>
+      <td className="py-1.5 px-2 truncate max-w-[10rem]">{entry.player.name}</td>
+      <td className="py-1.5 px-2 text-right tabular-nums">{entry.score.toLocaleString(locale)}</td>
+      <td className="py-1.5 px-2 text-right tabular-nums text-content/60">{entry.lines}</td>
+    </tr>
+  );
+
+  return (
+    <div
+      className="min-h-screen w-full bg-screen flex flex-col items-center justify-center gap-5 py-8"
+      aria-label={t("leaderboard.screen")}
+    >
+      <h1 className="text-4xl text-cyan-300 font-baloo">{t("leaderboard.title")}</h1>
+
+      <div className="flex gap-2" role="tablist">
+        {TABS.map((id) => (
+          <button
+            key={id}
+            role="tab"
+            aria-selected={board === id}
+            onClick={() => selectBoard(id)}
+            onMouseEnter={() => playSound("hover")}
+            className={`px-3 py-1.5 rounded-lg text-sm ${
+              board === id ? "bg-accent text-on-accent" : "bg-surface/70 hover:bg-surface-strong text-content/80"
+            }`}
+          >
+            {t(`leaderboard.tab.${id}`)}
+          </button>
+        ))}
+      </div>
+
+      {board === "daily" && onPlayDaily && (
+        <button
+          onClick={() => {
+            playSound("click");
+            onPlayDaily();
+          }}
+          className="px-4 py-2 bg-purple-500/80 hover:bg-purple-500 text-white rounded-lg flex items-center gap-2"
+        >
+          <CalendarDays size={18} /> {t("leaderboard.playDaily", { day: today })}
+        </button>
+      )}
+
+      <div className="w-80 sm:w-96 bg-surface-panel/60 border border-content/10 rounded-lg p-3 flex flex-col gap-2">
+        {error ? (
+          <div className="flex flex-col items-center gap-2 py-6 text-red-300 text-sm" role="alert">
+            <CloudOff size={24} />
+            {t(error)}
+            <button
+              onClick={reload}
+              className="px-3 py-1 bg-surface/70 hover:bg-surface-strong text-content rounded flex items-center gap-1"
+            >
+              <RefreshCw size={14} /> {t("common.retry")}
+            </button>
+          </div>
+        ) : data && data.entries.length > 0 ? (
+          <table className={`text-sm w-full ${isLoading ? "opacity-50" : ""}`}>
+            <thead>
+              <tr className="text-content/50 text-xs">
+                <th className="text-right font-normal px-2 pb-1">{t("leaderboard.rank")}</th>
+                <th className="text-left font-normal px-2 pb-1">{t("leaderboard.player")}</th>
+                <th className="text-right font-normal px-2 pb-1">{t("leaderboard.score")}</th>
+                <th className="text-right font-normal px-2 pb-1">{t("leaderboard.lines")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.entries.map(renderRow)}
+              {/* 현재 페이지에 내 기록이 없으면 맨 아래에 따로 표시 */}
+              {myRank && !myRankVisible && (
+                <>
+                  <tr aria-hidden="true">
+                    <td colSpan={4} className="text-center text-content/30">
+                      ⋮
+                    </td>
+                  </tr>
+                  {renderRow(myRank)}
+                </>
+              )}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-content/50 text-sm text-center py-6">
+            {t(isLoading ? "leaderboard.loading" : "leaderboard.empty")}
+          </p>
+        )}
+
+        {data && pageCount > 1 && (
+          <div className="flex items-center justify-center gap-3 text-content/70 text-sm">
+            <button
+              onClick={() => setPage((p) => p - 1)}
+              disabled={page === 0}
+              className="p-1 rounded hover:bg-surface disabled:opacity-30"
+              aria-label={t("leaderboard.prevPage")}
+            >
+              <ChevronLeft size={18} />
+            </button>
+            {page + 1} / {pageCount}
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={page + 1 >= pageCount}
+              className="p-1 rounded hover:bg-surface disabled:opacity-30"
+              aria-label={t("leaderboard.nextPage")}
+            >
+              <ChevronRight size={18} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {pendingCount > 0 && (
+        <p className="text-yellow-300/80 text-xs flex items-center gap-1">
+          <CloudOff size={14} /> {t("leaderboard.pending", { count: pendingCount })}
+        </p>
+      )}
+
+      {onBack && (
+        <button
+          onClick={onBack}
+          className="px-4 py-2 bg-surface/70 hover:bg-surface-strong text-content rounded-lg flex items-center gap-2"
+        >
+          <ArrowLeft size={18} /> {t("common.backToTitle")}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,51 @@
+import React from "react";
+import Block from "./Block";
+import { TANGRAM_PIECES } from "../../config/constants";
+import type { TangramKind } from "../../types/Block";
+
+interface NextBlockProps {
+  queue: TangramKind[];
+  title?: string;
+  dimmed?: boolean; // 지금은 사용할 수 없는 조각 (예: 이미 보관함을 사용한 경우)
+  cellSize?: number;
+}
+
+// 다음에 나올 조각 미리보기 (보관함 표시에도 사용)
+const NextBlock: React.FC<NextBlockProps> = ({ queue, title = "NEXT", dimmed = false, cellSize = 16 }) => {
+  return (
+    <div className="bg-surface-panel/60 border border-content/10 rounded-lg p-3">
+      <h2 className="text-content/70 text-sm font-baloo mb-2">{title}</h2>
+      <div
+        className="flex flex-col gap-3 items-center"
+        style={{ minHeight: cellSize * 2, opacity: dimmed ? 0.4 : 1 }}
+      >
+        {queue.map((kind, index) => {
+          const shape = TANGRAM_PIECES[kind].shape;
+          return (
+            <div
+              key={index}
+              className="grid"
+              style={{
+                gridTemplateColumns: `repeat(${shape[0].length}, ${cellSize}px)`,
+                gridTemplateRows: `repeat(${shape.length}, ${cellSize}px)`,
+                opacity: index === 0 ? 1 : 0.6,
+              }}
+            >
+              {shape.flatMap((row, y) =>
+                row.map((filled, x) =>
+                  filled ? (
+                    <Block key={`${x}-${y}`} kind={kind} />
+                  ) : (
+                    <div key={`${x}-${y}`} />
+                  )
+                )
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default NextBlock;
@@ -0,0 +1,87 @@
+import React from "react";
+import { getPatternName } from "../../core/patterns/templates";
+import { useTranslation } from "../../hooks/useTranslation";
+import type { ScorePopup } from "../../hooks/useScore";
+import type { GameState, ScoreDelta, ScoreState } from "../../types/Game";
+import type { Translate } from "../../types/I18n";
+import type { Locale } from "../../types/User";
+
+interface ScoreBoardProps {
+  score: ScoreState;
+  popups: ScorePopup[];
+  state: GameState;
+}
+
+// 점수 변화 사유 표시 문구
+const formatDelta = (delta: ScoreDelta, t: Translate, locale: Locale): string => {
+  switch (delta.reason) {
+    case "drop":
+      return t(delta.hardDrop ? "score.hardDrop" : "score.softDrop");
+    case "clear":
+      return [
+        delta.lines > 0 && t("score.lines", { count: delta.lines }),
+        delta.areas > 0 && t("score.areas", { count: delta.areas }),
+      ]
+        .filter(Boolean)
+        .join(" + ");
+    case "combo":
+      return t("score.combo", { combo: delta.combo });
+    case "pattern":
+      return getPatternName(delta.patternId, locale);
+  }
+};
+
+// 점수, 연속 보너스 배율, 진행 정보 표시
+const ScoreBoard: React.FC<ScoreBoardProps> = ({ score, popups, state }) => {
+  const { locale, t } = useTranslation();
+
+  return (
+    <div className="relative bg-surface-panel/60 border border-content/10 rounded-lg p-3 text-content/80 text-sm flex flex-col gap-2">
+      <div className="flex items-baseline justify-between">
+        <span className="text-content/50 text-xs">{t("score.title")}</span>
+        {score.multiplier > 1 && (
+          <span
+            className="px-1.5 rounded bg-orange-500/80 text-white text-xs font-bold"
+            title={t("score.multiplier")}
+          >
+            x{score.multiplier.toFixed(1)}
+          </span>
+        )}
+      </div>
+      <p className="text-content text-2xl font-baloo text-right tabular-nums">
+        {score.score.toLocaleString(locale)}
+      </p>
+      {score.combo >= 2 && (
+        <p className="text-cyan-300 text-xs text-right">
+          {t("score.comboActive", { combo: score.combo })}
+        </p>
+      )}
+
+      {/* 점수 변화 표시 */}
+      <div className="absolute -left-2 top-10 flex flex-col items-end gap-0.5 pointer-events-none -translate-x-full">
+        {popups.map((popup) => (
+          <p
+            key={popup.key}
+            className="whitespace-nowrap text-xs font-bold text-yellow-300 drop-shadow"
+            style={{ animation: "scorePopup 0.9s ease-out both" }}
+          >
+            +{popup.points.toLocaleString(locale)} {formatDelta(popup, t, locale)}
+          </p>
+        ))}
+      </div>
+
+      <dl className="grid grid-cols-2 gap-1 border-t border-content/10 pt-2">
+        <dt>{t("score.level")}</dt>
+        <dd className="text-right">{state.level}</dd>
+        <dt>{t("score.lineCount")}</dt>
+        <dd className="text-right">{state.lines}</dd>
+        <dt>{t("score.cellsCleared")}</dt>
+        <dd className="text-right">{state.cellsCleared}</dd>
+        <dt>{t("score.patterns")}</dt>
+        <dd className="text-right">{state.patternsFound}</dd>
+      </dl>
+    </div>
+  );
+};
+
+export default ScoreBoard;
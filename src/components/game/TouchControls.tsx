@@ -0,0 +1,84 @@
+import React, { useEffect, useRef } from "react";
+import {
+  ArrowDown,
+  ArrowDownToLine,
+  ArrowLeft,
+  ArrowRight,
+  Archive,
+  RotateCcw,
+  RotateCw,
+} from "lucide-react";
+import { REPEATABLE_ACTIONS } from "../../core/input/bindings";
+import { useTranslation } from "../../hooks/useTranslation";
+import { useUserSettings } from "../../hooks/useUserSettings";
+import type { GameAction } from "../../types/Game";
+
+interface TouchControlsProps {
+  onAction: (action: GameAction) => void;
+}
+
+const BUTTONS: { action: GameAction; icon: React.ElementType }[] = [
+  { action: "moveLeft", icon: ArrowLeft },
+  { action: "softDrop", icon: ArrowDown },
+  { action: "moveRight", icon: ArrowRight },
+  { action: "rotateCCW", icon: RotateCcw },
+  { action: "rotateCW", icon: RotateCw },
+  { action: "hardDrop", icon: ArrowDownToLine },
+  { action: "hold", icon: Archive },
+];
+
+// 화면 버튼 오버레이 (제스처 대신 버튼을 선호하는 플레이어용)
+// 이동/소프트 드롭 버튼은 누르고 있으면 키보드와 같은 DAS/ARR로 반복됩니다.
+const TouchControls: React.FC<TouchControlsProps> = ({ onAction }) => {
+  const { settings } = useUserSettings();
+  const { das, arr } = settings.controls;
+  const { t } = useTranslation();
+  const timerRef = useRef<number>();
+
+  const stopRepeat = () => {
+    window.clearTimeout(timerRef.current);
+    timerRef.current = undefined;
+  };
+
+  const handlePress = (action: GameAction) => {
+    onAction(action);
+    if (!REPEATABLE_ACTIONS.includes(action)) return;
+
+    stopRepeat();
+    const interval = Math.max(arr, 16);
+    const repeat = () => {
+      onAction(action);
+      timerRef.current = window.setTimeout(repeat, interval);
+    };
+    timerRef.current = window.setTimeout(repeat, action === "softDrop" ? interval : das);
+  };
+
+  // 언마운트 시 반복 정지
+  useEffect(() => stopRepeat, []);
+
+  return (
+    <div
+      className="fixed bottom-4 inset-x-0 flex justify-center gap-2 px-2 select-none"
+      style={{ touchAction: "none" }}
+    >
+      {BUTTONS.map(({ action, icon: Icon }) => (
+        <button
+          key={action}
+          onPointerDown={(e) => {
+            e.preventDefault();
+            handlePress(action);
+          }}
+          onPointerUp={stopRepeat}
+          onPointerLeave={stopRepeat}
+          onPointerCancel={stopRepeat}
+          className="w-12 h-12 rounded-full bg-surface/80 active:bg-accent/80 text-content flex items-center justify-center shadow-lg"
+          aria-label={t(`action.${action}`)}
+        >
+          <Icon size={20} />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TouchControls;
@@ -0,0 +1,47 @@
+import React from "react";
+import { LogOut, UserCircle } from "lucide-react";
+import { Section } from "./fields";
+import SocialLogin from "../auth/SocialLogin";
+import { useAuth } from "../../hooks/useAuth";
+import { useTranslation } from "../../hooks/useTranslation";
+import { playSound } from "../../utils/sound";
+
+// 로그인 상태 표시와 로그인/로그아웃
+const AccountSection: React.FC = () => {
+  const { user, signOut } = useAuth();
+  const { t } = useTranslation();
+
+  return (
+    <Section title={t("account.title")}>
+      {user ? (
+        <div className="flex items-center gap-3 text-content/80 text-sm">
+          {user.avatarUrl ? (
+            <img src={user.avatarUrl} alt="" className="w-10 h-10 rounded-full" />
+          ) : (
+            <UserCircle size={40} className="text-content/50" />
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="text-content truncate">{user.name}</p>
+            {user.email && <p className="text-content/50 text-xs truncate">{user.email}</p>}
+          </div>
+          <button
+            onClick={() => {
+              playSound("click");
+              signOut();
+            }}
+            className="px-3 py-1.5 bg-surface hover:bg-surface-strong text-content rounded flex items-center gap-1"
+          >
+            <LogOut size={16} /> {t("account.signOut")}
+          </button>
+        </div>
+      ) : (
+        <>
+          <p className="text-content/50 text-xs">{t("account.help")}</p>
+          <SocialLogin />
+        </>
+      )}
+    </Section>
+  );
+};
+
+export default AccountSection;
@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Section, Slider } from "./fields";
+import { GAMEPAD_BUTTON_LABELS } from "../../config/constants";
+import { findBindingConflicts, normalizeKey } from "../../core/input/bindings";
+import { useTranslation } from "../../hooks/useTranslation";
+import { useUserSettings } from "../../hooks/useUserSettings";
+import type { GameAction } from "../../types/Game";
+
+type InputDevice = "keyboard" | "gamepad";
+
+// 새 입력을 기다리는 칸
+interface Listening {
+  device: InputDevice;
+  action: GameAction;
+}
+
+// 표시 순서 (이름은 카탈로그의 action.<동작>)
+const ACTION_ORDER: GameAction[] = [
+  "moveLeft",
+  "moveRight",
+  "softDrop",
+  "hardDrop",
+  "rotateCW",
+  "rotateCCW",
+  "hold",
+  "pause",
+];
+
+// 키 이름을 화면 표시용으로 변환
+const KEY_LABELS: Record<string, string> = {
+  " ": "Space",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Escape: "Esc",
+};
+
+const formatKey = (key: string) => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+const formatButton = (index: number) => GAMEPAD_BUTTON_LABELS[index] ?? `#${index}`;
+
+// 키보드/게임패드 배치 변경과 DAS/ARR 설정
+// 한 입력이 여러 동작에 배정되면 경고를 표시합니다. (게임에서는 목록의 앞쪽 동작이 우선)
+const ControlBindings: React.FC = () => {
+  const { settings, updateSettings } = useUserSettings();
+  const { controls } = settings;
+  const { t } = useTranslation();
+  const [listening, setListening] = useState<Listening | null>(null);
+
+  const keyConflicts = useMemo(
+    () => findBindingConflicts(controls.keyboard, normalizeKey),
+    [controls.keyboard]
+  );
+  const buttonConflicts = useMemo(() => findBindingConflicts(controls.gamepad), [controls.gamepad]);
+  const conflictedKeys = new Set(keyConflicts.map(({ input }) => input));
+  const conflictedButtons = new Set(buttonConflicts.map(({ input }) => input));
+
+  // 선택한 칸의 입력을 새 값 하나로 교체
+  const assign = useCallback(
+    (device: InputDevice, action: GameAction, input: string | number) => {
+      updateSettings((prev) => ({
+        ...prev,
+        controls: {
+          ...prev.controls,
+          [device]: { ...prev.controls[device], [action]: [input] },
+        },
+      }));
+      setListening(null);
+    },
+    [updateSettings]
+  );
+
+  // 키보드: 다음에 누른 키를 배정
+  useEffect(() => {
+    if (listening?.device !== "keyboard") return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      assign("keyboard", listening.action, e.key);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [listening, assign]);
+
+  // 게임패드: 대기 시작 이후 새로 눌린 버튼을 배정
+  useEffect(() => {
+    if (listening?.device !== "gamepad") return;
+
+    const pressedAtStart = new Set<string>();
+    (navigator.getGamepads?.() ?? []).forEach((pad) =>
+      pad?.buttons.forEach((button, index) => {
+        if (button.pressed) pressedAtStart.add(`${pad.index}:${index}`);
+      })
+    );
+
+    let rafId: number;
+    const poll = () => {
+      for (const pad of navigator.getGamepads?.() ?? []) {
+        if (!pad) continue;
+        const index = pad.buttons.findIndex(
+          (button, i) => button.pressed && !pressedAtStart.has(`${pad.index}:${i}`)
+        );
+        if (index >= 0) {
+          assign("gamepad", listening.action, index);
+          return;
+        }
+      }
+      rafId = requestAnimationFrame(poll);
+    };
+    rafId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(rafId);
+  }, [listening, assign]);
+
+  const setTiming = (patch: Partial<Pick<typeof controls, "das" | "arr">>) =>
+    updateSettings((prev) => ({ ...prev, controls: { ...prev.controls, ...patch } }));
+
+  const renderCell = (device: InputDevice, action: GameAction, label: string) => {
+    const isListening = listening?.device === device && listening.action === action;
+    const inputs =
+      device === "keyboard"
+        ? controls.keyboard[action].map((key) => ({
+            text: formatKey(key),
+            conflict: conflictedKeys.has(normalizeKey(key)),
+          }))
+        : controls.gamepad[action].map((button) => ({
+            text: formatButton(button),
+            conflict: conflictedButtons.has(button),
+          }));
+    const hasConflict = inputs.some(({ conflict }) => conflict);
+
+    return (
+      <button
+        onClick={() => setListening(isListening ? null : { device, action })}
+        className={`w-24 px-2 py-1 rounded font-mono text-xs ${
+          isListening
+            ? "bg-accent text-on-accent animate-pulse"
+            : hasConflict
+              ? "bg-red-500/40 hover:bg-red-500/60 text-content ring-1 ring-red-400"
+              : "bg-surface hover:bg-surface-strong text-content"
+        }`}
+        aria-label={t("controls.change", { action: label, device })}
+      >
+        {isListening
+          ? t(device === "keyboard" ? "controls.waitingKey" : "controls.waitingButton")
+          : inputs.map(({ text }) => text).join(" / ") || t("common.none")}
+      </button>
+    );
+  };
+
+  const conflictMessages = [
+    ...keyConflicts.map(({ input, actions }) => ({
+      input: formatKey(input),
+      actions,
+    })),
+    ...buttonConflicts.map(({ input, actions }) => ({
+      input: t("controls.gamepadButton", { button: formatButton(input) }),
+      actions,
+    })),
+  ];
+
+  return (
+    <Section title={t("controls.title")}>
+      <table className="text-content/80 text-sm">
+        <thead>
+          <tr className="text-content/50 text-xs">
+            <th className="text-left font-normal pb-1">{t("controls.action")}</th>
+            <th className="font-normal pb-1">{t("controls.keyboard")}</th>
+            <th className="font-normal pb-1">{t("controls.gamepad")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ACTION_ORDER.map((action) => {
+            const label = t(`action.${action}`);
+            return (
+              <tr key={action}>
+                <td className="py-1">{label}</td>
+                <td className="py-1 text-center">{renderCell("keyboard", action, label)}</td>
+                <td className="py-1 text-center">{renderCell("gamepad", action, label)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {conflictMessages.length > 0 && (
+        <ul className="flex flex-col gap-1 text-red-300 text-xs" role="alert">
+          {conflictMessages.map(({ input, actions }) => (
+            <li key={input} className="flex items-center gap-1">
+              <AlertTriangle size={14} />
+              {t("controls.conflict", {
+                input,
+                actions: actions.map((action) => t(`action.${action}`)).join(", "),
+              })}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Slider
+        label={t("controls.das")}
+        value={controls.das}
+        min={50}
+        max={400}
+        step={10}
+        unit="ms"
+        onChange={(das) => setTiming({ das })}
+      />
+      <Slider
+        label={t("controls.arr")}
+        value={controls.arr}
+        min={0}
+        max={150}
+        step={5}
+        unit="ms"
+        onChange={(arr) => setTiming({ arr })}
+      />
+    </Section>
+  );
+};
+
+export default ControlBindings;
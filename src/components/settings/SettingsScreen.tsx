@@ -0,0 +1,229 @@
+import React, { useState } from "react";
+import { ArrowLeft, ClipboardCopy, RotateCcw } from "lucide-react";
+import AccountSection from "./AccountSection";
+import ControlBindings from "./ControlBindings";
+import { Section, Slider, Toggle } from "./fields";
+import { useUserSettings } from "../../hooks/useUserSettings";
+import { useAnalyticsConsent } from "../../hooks/useAnalyticsConsent";
+import { useMetrics } from "../../hooks/useMetrics";
+import { useTranslation } from "../../hooks/useTranslation";
+import { LOCALES, LOCALE_NAMES } from "../../config/i18n";
+import { METRICS_CONFIG } from "../../config/metrics";
+import { THEME_PREFERENCES } from "../../config/themes";
+import { copyDiagnostics } from "../../services/error";
+import { resetSettings } from "../../store/userSettings";
+import { playSound } from "../../utils/sound";
+import type { ThemePreference } from "../../types/Theme";
+import type { Locale, MotionPreference } from "../../types/User";
+
+interface SettingsScreenProps {
+  onBack?: () => void;
+}
+
+const MOTION_PREFERENCES: MotionPreference[] = ["system", "reduced", "full"];
+
+// 환경설정 화면: 변경 즉시 저장되고 모든 화면에 반영됩니다.
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
+  const { settings, updateSettings } = useUserSettings();
+  const { consent, setConsent } = useAnalyticsConsent();
+  const [copied, setCopied] = useState<boolean | null>(null);
+  const metrics = useMetrics();
+  const { t } = useTranslation();
+  const { audio } = settings;
+  const { touch } = settings.controls;
+  const setAudio = (patch: Partial<typeof audio>) =>
+    updateSettings((prev) => ({ ...prev, audio: { ...prev.audio, ...patch } }));
+  const setTouch = (patch: Partial<typeof touch>) =>
+    updateSettings((prev) => ({
+      ...prev,
+      controls: { ...prev.controls, touch: { ...prev.controls.touch, ...patch } },
+    }));
+
+  return (
+    <div
+      className="min-h-screen w-full bg-screen flex flex-col items-center py-10 gap-6 overflow-y-auto"
+      aria-label={t("settings.screen")}
+    >
+      <h1 className="text-4xl text-content/90 font-baloo">{t("settings.title")}</h1>
+
+      <div className="flex flex-col gap-4 w-96">
+        <AccountSection />
+
+        <Section title={t("settings.sound")}>
+          <Slider
+            label={t("settings.music")}
+            value={Math.round(audio.musicVolume * 100)}
+            min={0}
+            max={100}
+            disabled={audio.muted}
+            onChange={(volume) => setAudio({ musicVolume: volume / 100 })}
+          />
+          <Slider
+            label={t("settings.sfx")}
+            value={Math.round(audio.sfxVolume * 100)}
+            min={0}
+            max={100}
+            disabled={audio.muted}
+            onChange={(volume) => {
+              setAudio({ sfxVolume: volume / 100 });
+              playSound("hover"); // 바뀐 볼륨 미리듣기
+            }}
+          />
+          <Toggle label={t("settings.mute")} checked={audio.muted} onChange={(muted) => setAudio({ muted })} />
+        </Section>
+
+        <Section title={t("settings.display")}>
+          <Toggle
+            label={t("settings.haptics")}
+            checked={settings.haptics}
+            onChange={(haptics) => updateSettings((prev) => ({ ...prev, haptics }))}
+          />
+          <Toggle
+            label={t("settings.customCursor")}
+            checked={settings.customCursor}
+            onChange={(customCursor) => updateSettings((prev) => ({ ...prev, customCursor }))}
+          />
+          <label className="flex items-center justify-between text-content/80 text-sm">
+            {t("settings.motion")}
+            <select
+              value={settings.motion}
+              onChange={(e) =>
+                updateSettings((prev) => ({ ...prev, motion: e.target.value as MotionPreference }))
+              }
+              className="bg-surface text-content rounded px-2 py-1"
+            >
+              {MOTION_PREFERENCES.map((motion) => (
+                <option key={motion} value={motion}>
+                  {t(`settings.motion.${motion}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between text-content/80 text-sm">
+            {t("settings.theme")}
+            <select
+              value={settings.theme}
+              onChange={(e) =>
+                updateSettings((prev) => ({ ...prev, theme: e.target.value as ThemePreference }))
+              }
+              className="bg-surface text-content rounded px-2 py-1"
+            >
+              {THEME_PREFERENCES.map((preference) => (
+                <option key={preference} value={preference}>
+                  {t(`settings.theme.${preference}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between text-content/80 text-sm">
+            {t("settings.language")}
+            <select
+              value={settings.language}
+              onChange={(e) =>
+                updateSettings((prev) => ({ ...prev, language: e.target.value as Locale }))
+              }
+              className="bg-surface text-content rounded px-2 py-1"
+            >
+              {LOCALES.map((locale) => (
+                <option key={locale} value={locale} lang={locale}>
+                  {LOCALE_NAMES[locale]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </Section>
+
+        <ControlBindings />
+
+        <Section title={t("settings.touch")}>
+          <p className="text-content/50 text-xs">{t("settings.touch.help")}</p>
+          <Slider
+            label={t("settings.touch.swipe")}
+            value={touch.swipeStepPx}
+            min={12}
+            max={80}
+            unit="px"
+            onChange={(swipeStepPx) => setTouch({ swipeStepPx })}
+          />
+          <Slider
+            label={t("settings.touch.flick")}
+            value={touch.flickVelocity}
+            min={0.4}
+            max={3}
+            step={0.1}
+            unit="px/ms"
+            onChange={(flickVelocity) => setTouch({ flickVelocity })}
+          />
+          <Slider
+            label={t("settings.touch.tap")}
+            value={touch.tapMaxMs}
+            min={100}
+            max={400}
+            step={10}
+            unit="ms"
+            onChange={(tapMaxMs) => setTouch({ tapMaxMs })}
+          />
+          <Toggle
+            label={t("settings.touch.buttons")}
+            checked={touch.showButtons}
+            onChange={(showButtons) => setTouch({ showButtons })}
+          />
+        </Section>
+
+        <Section title={t("settings.privacy")}>
+          <Toggle
+            label={t("settings.analytics")}
+            checked={consent === "granted"}
+            onChange={(granted) => setConsent(granted ? "granted" : "denied")}
+          />
+          <p className="text-content/50 text-xs">{t("settings.analytics.help")}</p>
+        </Section>
+
+        <Section title={t("settings.diagnostics")}>
+          <p className="text-content/50 text-xs">{t("settings.diagnostics.help")}</p>
+          <button
+            onClick={async () => {
+              playSound("click");
+              setCopied(await copyDiagnostics());
+            }}
+            className="px-3 py-1.5 bg-surface hover:bg-surface-strong text-content rounded flex items-center justify-center gap-1 text-sm"
+          >
+            <ClipboardCopy size={16} /> {t("common.copyDiagnostics")}
+          </button>
+          {copied !== null && (
+            <p className={`text-xs ${copied ? "text-green-300" : "text-red-300"}`} role="status">
+              {t(copied ? "settings.diagnostics.copied" : "common.copyFailed")}
+            </p>
+          )}
+          <Toggle
+            label={t("settings.metrics", { key: METRICS_CONFIG.toggleKey })}
+            checked={metrics.enabled}
+            onChange={metrics.setEnabled}
+          />
+        </Section>
+      </div>
+
+      <div className="flex gap-3">
+        {onBack && (
+          <button
+            onClick={() => {
+              playSound("click");
+              onBack();
+            }}
+            className="px-4 py-2 bg-surface/70 hover:bg-surface-strong text-content rounded-lg flex items-center gap-2"
+          >
+            <ArrowLeft size={18} /> {t("common.backToTitle")}
+          </button>
+        )}
+        <button
+          onClick={resetSettings}
+          className="px-4 py-2 bg-surface/70 hover:bg-surface-strong text-content rounded-lg flex items-center gap-2"
+        >
+          <RotateCcw size={18} /> {t("settings.reset")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsScreen;
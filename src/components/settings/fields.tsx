@@ -0,0 +1,57 @@
+import React from "react";
+
+/* --- 환경설정 입력 요소 --- */
+
+export const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="bg-surface-panel/60 border border-content/10 rounded-lg p-4 flex flex-col gap-3">
+    <h2 className="text-content font-baloo text-lg">{title}</h2>
+    {children}
+  </section>
+);
+
+export const Toggle: React.FC<{
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}> = ({ label, checked, onChange }) => (
+  <label className="flex items-center justify-between text-content/80 text-sm">
+    {label}
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="w-5 h-5 accent-accent"
+    />
+  </label>
+);
+
+export const Slider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string; // 값 뒤에 붙는 단위 (예: "ms")
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step = 1, unit = "", disabled, onChange }) => (
+  <label className="flex items-center justify-between gap-4 text-content/80 text-sm">
+    {label}
+    <span className="flex items-center gap-2">
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-32 accent-accent"
+      />
+      <span className="w-14 text-right">
+        {value}
+        {unit}
+      </span>
+    </span>
+  </label>
+);
@@ -0,0 +1,86 @@
+import type { AchievementDef } from "../types/Achievement";
+
+/* --- 업적 목록 ---
+ * 누적 기록(PlayerStats)에서 진행도를 꺼내는 함수와 목표값만으로 정의합니다.
+ * 판정과 저장은 store/achievements.ts가 맡으므로 새 업적은 여기에 한 줄 추가하면 됩니다.
+ */
+export const ACHIEVEMENTS: AchievementDef[] = [
+  {
+    id: "first-game",
+    title: "achievements.first-game.title",
+    description: "achievements.first-game.description",
+    target: 1,
+    progress: (stats) => stats.gamesPlayed,
+  },
+  {
+    id: "first-pattern",
+    title: "achievements.first-pattern.title",
+    description: "achievements.first-pattern.description",
+    target: 1,
+    progress: (stats) => stats.patternsCompleted,
+  },
+  {
+    id: "pattern-5",
+    title: "achievements.pattern-5.title",
+    description: "achievements.pattern-5.description",
+    target: 5,
+    progress: (stats) => stats.patternsCompleted,
+  },
+  {
+    id: "pattern-collector",
+    title: "achievements.pattern-collector.title",
+    description: "achievements.pattern-collector.description",
+    target: 3,
+    progress: (stats) => stats.discoveredPatterns.length,
+  },
+  {
+    id: "combo-5",
+    title: "achievements.combo-5.title",
+    description: "achievements.combo-5.description",
+    target: 5,
+    progress: (stats) => stats.maxCombo,
+  },
+  {
+    id: "combo-10",
+    title: "achievements.combo-10.title",
+    description: "achievements.combo-10.description",
+    target: 10,
+    progress: (stats) => stats.maxCombo,
+    hidden: true,
+  },
+  {
+    id: "back-to-back-3",
+    title: "achievements.back-to-back-3.title",
+    description: "achievements.back-to-back-3.description",
+    target: 3,
+    progress: (stats) => stats.maxBackToBack,
+  },
+  {
+    id: "lines-100",
+    title: "achievements.lines-100.title",
+    description: "achievements.lines-100.description",
+    target: 100,
+    progress: (stats) => stats.totalLines,
+  },
+  {
+    id: "score-10000",
+    title: "achievements.score-10000.title",
+    description: "achievements.score-10000.description",
+    target: 10000,
+    progress: (stats) => stats.bestScore,
+  },
+  {
+    id: "challenge-stars-10",
+    title: "achievements.challenge-stars-10.title",
+    description: "achievements.challenge-stars-10.description",
+    target: 10,
+    progress: (stats) => stats.challengeStars,
+  },
+  {
+    id: "daily-7",
+    title: "achievements.daily-7.title",
+    description: "achievements.daily-7.description",
+    target: 7,
+    progress: (stats) => stats.playStreak.best,
+  },
+];
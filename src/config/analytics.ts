@@ -0,0 +1,24 @@
+import type { AnalyticsEventName } from "../types/Analytics";
+
+/* --- 사용 통계 설정 --- */
+
+export interface AnalyticsConfig {
+  batchSize: number; // 이만큼 모이면 바로 전송
+  flushIntervalMs: number; // 모인 이벤트를 주기적으로 전송하는 간격
+  maxBuffered: number; // 동의 전/전송 실패 시 메모리에 보관할 최대 이벤트 수 (넘으면 오래된 것부터 버림)
+  ringSize: number; // localStorage 링 버퍼에 남길 최근 이벤트 수
+  sampleRates: Partial<Record<AnalyticsEventName, number>>; // 0~1, 지정하지 않은 이벤트는 모두 기록
+  settingsDebounceMs: number; // 슬라이더처럼 연속으로 바뀌는 설정은 마지막 값만 기록
+}
+
+export const ANALYTICS_CONFIG: AnalyticsConfig = {
+  batchSize: 20,
+  flushIntervalMs: 15000,
+  maxBuffered: 200,
+  ringSize: 100,
+  sampleRates: {
+    menu_interaction: 0.25,
+    pattern_found: 0.5,
+  },
+  settingsDebounceMs: 1000,
+};
@@ -0,0 +1,13 @@
+/* --- 서버 API 설정 ---
+ * VITE_API_BASE_URL이 없으면 서버 없이 동작합니다. (순위표는 로컬 저장소 대체 구현 사용)
+ */
+
+export interface ApiConfig {
+  baseUrl: string | null;
+  timeoutMs: number; // 요청 하나의 최대 대기 시간
+}
+
+export const API_CONFIG: ApiConfig = {
+  baseUrl: import.meta.env.VITE_API_BASE_URL || null,
+  timeoutMs: 8000,
+};
@@ -0,0 +1,46 @@
+import { MUSIC_TRACKS, SOUND_EFFECTS } from "./audio";
+import { PATTERN_PACK_URLS } from "./patterns";
+import type { AssetEntry } from "../types/Assets";
+
+/* --- 리소스 로딩 설정 --- */
+
+export interface AssetLoaderConfig {
+  timeoutMs: number; // 항목 하나를 한 번 받는 데 기다리는 최대 시간
+  retries: number; // 실패한 항목을 다시 시도하는 횟수
+  retryDelayMs: number; // 첫 재시도 전 대기 시간 (시도할 때마다 두 배)
+  maxWaitMs: number; // 로딩 화면을 붙잡아 두는 최대 시간 (남은 항목은 뒤에서 계속 받음)
+}
+
+export const ASSET_LOADER_CONFIG: AssetLoaderConfig = {
+  timeoutMs: 10000,
+  retries: 2,
+  retryDelayMs: 500,
+  maxWaitMs: 15000,
+};
+
+// 제목 글꼴 (불러오지 못하면 CSS의 대체 글꼴로 표시)
+export const TITLE_FONT = {
+  family: "Fredoka One",
+  stylesheet: "https://fonts.googleapis.com/css2?family=Fredoka+One&display=swap",
+};
+
+/* --- 매니페스트 ---
+ * 로딩 화면에서 미리 받을 리소스 목록입니다. bytes는 실제 파일 크기에 가깝게 적어 두세요.
+ */
+export const ASSET_MANIFEST: AssetEntry[] = [
+  { id: "sfx.land", kind: "audio", url: SOUND_EFFECTS.land.url, bytes: 5015 },
+  { id: "sfx.collision", kind: "audio", url: SOUND_EFFECTS.collision.url, bytes: 20606 },
+  { id: "sfx.hover", kind: "audio", url: SOUND_EFFECTS.hover.url, bytes: 5015 },
+  { id: "sfx.click", kind: "audio", url: SOUND_EFFECTS.click.url, bytes: 11520 },
+  { id: "music.calmPuzzle", kind: "audio", url: MUSIC_TRACKS.calmPuzzle.url, bytes: 2569581 },
+  {
+    id: "font.title",
+    kind: "font",
+    url: TITLE_FONT.stylesheet,
+    family: TITLE_FONT.family,
+    bytes: 40000,
+  },
+  ...PATTERN_PACK_URLS.map(
+    (url): AssetEntry => ({ id: `patterns:${url}`, kind: "patternPack", url, bytes: 4000 })
+  ),
+];
@@ -0,0 +1,50 @@
+import calmPuzzle from "/src/assets/sounds/music/calm-puzzle.mp3";
+import softLand from "/src/assets/sounds/effects/soft-land.mp3";
+import pieceHit from "/src/assets/sounds/effects/piece-hit.mp3";
+import menuHover from "/src/assets/sounds/effects/menu-hover.mp3";
+import menuSelect from "/src/assets/sounds/effects/menu-select.mp3";
+
+/* --- 오디오 믹서 설정 --- */
+
+export interface AudioConfig {
+  musicFadeMs: number; // BGM 전환 시 크로스페이드 시간
+  duck: {
+    level: number; // 중요 효과음 재생 중 BGM 볼륨 배율 (0 ~ 1)
+    attackMs: number; // 볼륨을 낮추는 데 걸리는 시간
+    releaseMs: number; // 효과음이 끝난 뒤 원래 볼륨으로 돌아오는 시간
+  };
+  defaultMaxVoices: number; // 같은 효과음을 동시에 겹쳐 재생할 수 있는 최대 수
+}
+
+export const AUDIO_CONFIG: AudioConfig = {
+  musicFadeMs: 1200,
+  duck: {
+    level: 0.35,
+    attackMs: 60,
+    releaseMs: 400,
+  },
+  defaultMaxVoices: 4,
+};
+
+export interface SoundDef {
+  url: string;
+  volume?: number; // 버스 볼륨에 곱해지는 개별 볼륨 (기본 1)
+  duck?: boolean; // 재생 중 BGM을 낮출지 여부
+  maxVoices?: number;
+}
+
+// 효과음 목록 (SFX 버스)
+export const SOUND_EFFECTS = {
+  land: { url: softLand, maxVoices: 6 },
+  collision: { url: pieceHit },
+  hover: { url: menuHover, volume: 0.8, maxVoices: 2 },
+  click: { url: menuSelect, duck: true, maxVoices: 2 },
+} satisfies Record<string, SoundDef>;
+
+// 배경음악 목록 (Music 버스, 반복 재생)
+export const MUSIC_TRACKS = {
+  calmPuzzle: { url: calmPuzzle },
+} satisfies Record<string, SoundDef>;
+
+export type SoundId = keyof typeof SOUND_EFFECTS;
+export type MusicId = keyof typeof MUSIC_TRACKS;
@@ -0,0 +1,44 @@
+/* --- 인증 제공자 설정 ---
+ * OAuth2 인가 코드 + PKCE 흐름을 지원하는 제공자를 나열합니다.
+ * 클라이언트 ID 환경 변수가 없는 제공자는 목록에서 빠집니다.
+ */
+
+export interface OAuthProviderConfig {
+  id: string;
+  label: string;
+  clientId: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string; // OpenID Connect userinfo 형식 응답 (sub, name, email, picture)
+  scope: string;
+}
+
+export interface AuthConfig {
+  providers: OAuthProviderConfig[];
+  mockProvider: boolean; // 개발용 가짜 로그인 제공자 표시
+  redirectUri: string; // 제공자 콘솔에 등록한 리디렉션 주소
+  refreshMarginMs: number; // 만료 이 시간 전에 토큰 갱신
+}
+
+const GOOGLE_CLIENT_ID = import.meta.env.VITE_GOOGLE_CLIENT_ID;
+
+export const AUTH_CONFIG: AuthConfig = {
+  providers: [
+    ...(GOOGLE_CLIENT_ID
+      ? [
+          {
+            id: "google",
+            label: "Google",
+            clientId: GOOGLE_CLIENT_ID,
+            authorizeUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+            tokenUrl: "https://oauth2.googleapis.com/token",
+            userInfoUrl: "https://openidconnect.googleapis.com/v1/userinfo",
+            scope: "openid profile email",
+          },
+        ]
+      : []),
+  ],
+  mockProvider: import.meta.env.DEV,
+  redirectUri: `${window.location.origin}/`,
+  refreshMarginMs: 60 * 1000,
+};
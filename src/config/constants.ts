@@ -0,0 +1,190 @@
+import type { Shape, TangramFamily, TangramKind } from "../types/Block";
+import type { GamepadBindings, KeyBindings } from "../types/User";
+
+/* --- 탱그램 조각 정의 --- */
+
+// 조각 계열 목록
+export const TANGRAM_FAMILIES: readonly TangramFamily[] = [
+  "largeTriangle",
+  "mediumTriangle",
+  "smallTriangle",
+  "square",
+  "parallelogram",
+];
+
+// 타이틀 화면과 게임 보드가 함께 사용하는 탱그램 조각 정보
+export interface TangramPieceDef {
+  family: TangramFamily;
+  clipPath: string; // 타이틀 화면 장식용 CSS 폴리곤
+  size: {
+    desktop: { width: string; height: string };
+    mobile: { width: string; height: string };
+  };
+  shape: Shape; // 게임 보드에서 사용하는 격자 마스크 (실루엣 근사치)
+}
+
+// 타이틀 화면 배치 순서와 동일한 조각 순서
+export const TANGRAM_KINDS: readonly TangramKind[] = [
+  "smallTriangleA",
+  "square",
+  "mediumTriangle",
+  "parallelogram",
+  "largeTriangleA",
+  "largeTriangleB",
+  "smallTriangleB",
+];
+
+export const TANGRAM_PIECES: Record<TangramKind, TangramPieceDef> = {
+  smallTriangleA: {
+    family: "smallTriangle",
+    clipPath: "polygon(0 0, 100% 0, 50% 100%)",
+    size: {
+      desktop: { width: "4rem", height: "4rem" },
+      mobile: { width: "3rem", height: "3rem" },
+    },
+    shape: [
+      [1, 1],
+      [1, 0],
+    ],
+  },
+  square: {
+    family: "square",
+    clipPath: "none",
+    size: {
+      desktop: { width: "4rem", height: "4rem" },
+      mobile: { width: "3rem", height: "3rem" },
+    },
+    shape: [
+      [1, 1],
+      [1, 1],
+    ],
+  },
+  mediumTriangle: {
+    family: "mediumTriangle",
+    clipPath: "polygon(50% 0%, 0% 100%, 100% 100%)",
+    size: {
+      desktop: { width: "3rem", height: "3rem" },
+      mobile: { width: "2.5rem", height: "2.5rem" },
+    },
+    shape: [
+      [0, 1, 0],
+      [1, 1, 1],
+    ],
+  },
+  parallelogram: {
+    family: "parallelogram",
+    clipPath: "polygon(25% 0%, 100% 0%, 75% 100%, 0% 100%)",
+    size: {
+      desktop: { width: "4rem", height: "3rem" },
+      mobile: { width: "3rem", height: "2.5rem" },
+    },
+    shape: [
+      [0, 1, 1],
+      [1, 1, 0],
+    ],
+  },
+  largeTriangleA: {
+    family: "largeTriangle",
+    clipPath: "polygon(50% 0%, 0% 100%, 100% 100%)",
+    size: {
+      desktop: { width: "5rem", height: "5rem" },
+      mobile: { width: "4rem", height: "4rem" },
+    },
+    shape: [
+      [1, 0, 0],
+      [1, 1, 0],
+      [1, 1, 1],
+    ],
+  },
+  largeTriangleB: {
+    family: "largeTriangle",
+    clipPath: "polygon(50% 0%, 0% 100%, 100% 100%)",
+    size: {
+      desktop: { width: "5rem", height: "5rem" },
+      mobile: { width: "4rem", height: "4rem" },
+    },
+    shape: [
+      [0, 0, 1],
+      [0, 1, 1],
+      [1, 1, 1],
+    ],
+  },
+  smallTriangleB: {
+    family: "smallTriangle",
+    clipPath: "polygon(0 0, 100% 50%, 0 100%)",
+    size: {
+      desktop: { width: "4rem", height: "4rem" },
+      mobile: { width: "3rem", height: "3rem" },
+    },
+    shape: [
+      [1, 0],
+      [1, 1],
+    ],
+  },
+};
+
+// 조각 계열별 칸 수 (같은 계열은 모양이 같음)
+export const FAMILY_CELL_COUNTS = TANGRAM_KINDS.reduce(
+  (acc, kind) => {
+    const piece = TANGRAM_PIECES[kind];
+    acc[piece.family] = piece.shape.flat().filter(Boolean).length;
+    return acc;
+  },
+  {} as Record<TangramFamily, number>
+);
+
+// 챌린지 시작 보드 등 문자열 표기에서 사용하는 조각 코드
+export const KIND_CODES: Record<string, TangramKind> = {
+  T: "smallTriangleA",
+  t: "smallTriangleB",
+  S: "square",
+  M: "mediumTriangle",
+  P: "parallelogram",
+  L: "largeTriangleA",
+  l: "largeTriangleB",
+};
+
+// 기본 키 배치 (환경설정에서 변경 가능)
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveLeft: ["ArrowLeft"],
+  moveRight: ["ArrowRight"],
+  softDrop: ["ArrowDown"],
+  rotateCW: ["ArrowUp", "x"],
+  rotateCCW: ["z"],
+  hardDrop: [" "],
+  hold: ["c", "Shift"],
+  pause: ["Escape", "p"],
+};
+
+// 기본 게임패드 배치 (표준 매핑의 버튼 인덱스)
+export const DEFAULT_GAMEPAD_BINDINGS: GamepadBindings = {
+  moveLeft: [14],
+  moveRight: [15],
+  softDrop: [13],
+  rotateCW: [1],
+  rotateCCW: [0],
+  hardDrop: [12],
+  hold: [4, 5],
+  pause: [9],
+};
+
+// 표준 매핑 버튼 표시 이름
+export const GAMEPAD_BUTTON_LABELS: Record<number, string> = {
+  0: "A",
+  1: "B",
+  2: "X",
+  3: "Y",
+  4: "LB",
+  5: "RB",
+  6: "LT",
+  7: "RT",
+  8: "Back",
+  9: "Start",
+  10: "LS",
+  11: "RS",
+  12: "D↑",
+  13: "D↓",
+  14: "D←",
+  15: "D→",
+  16: "Home",
+};
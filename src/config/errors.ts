@@ -0,0 +1,13 @@
+/* --- 오류 보고 설정 --- */
+
+export interface ErrorConfig {
+  maxBreadcrumbs: number; // 보관할 최근 기록 수
+  maxReports: number; // 진단 정보에 남길 최근 오류 수
+  dedupeWindowMs: number; // 같은 오류가 이 시간 안에 다시 나면 보고하지 않고 횟수만 셈
+}
+
+export const ERROR_CONFIG: ErrorConfig = {
+  maxBreadcrumbs: 50,
+  maxReports: 20,
+  dedupeWindowMs: 60 * 1000,
+};
@@ -0,0 +1,172 @@
+import type { ChallengeStage } from "../types/Game";
+import type { PatternRarity } from "../types/Pattern";
+
+/* --- 게임 규칙 설정 --- */
+
+export interface GameConfig {
+  board: {
+    cols: number;
+    rows: number;
+  };
+  // 고정 프레임 속도 (게임 로직은 프레임 단위로 진행)
+  fps: number;
+  gravity: {
+    baseFrames: number; // 레벨 1에서 한 칸 낙하까지 걸리는 프레임 수
+    minFrames: number; // 최고 속도 제한
+    framesPerLevel: number; // 레벨당 단축되는 프레임 수
+  };
+  lock: {
+    delayFrames: number; // 바닥에 닿은 뒤 고정까지 대기 프레임 수
+    maxResets: number; // 이동/회전으로 고정 대기를 연장할 수 있는 최대 횟수
+  };
+  clearing: {
+    lines: boolean; // 가로줄 완성 시 제거
+    areaSize: number; // 가득 찬 N x N 영역 제거 (0이면 비활성화)
+  };
+  linesPerLevel: number;
+  previewCount: number; // 미리보기에 표시할 다음 조각 수
+}
+
+export const GAME_CONFIG: GameConfig = {
+  board: {
+    cols: 10,
+    rows: 20,
+  },
+  fps: 60,
+  gravity: {
+    baseFrames: 48,
+    minFrames: 3,
+    framesPerLevel: 5,
+  },
+  lock: {
+    delayFrames: 30,
+    maxResets: 15,
+  },
+  clearing: {
+    lines: true,
+    areaSize: 4,
+  },
+  linesPerLevel: 10,
+  previewCount: 3,
+};
+
+/* --- 점수 규칙 ---
+ * 점수 계산(utils/scoring.ts)에 쓰이는 수치입니다. 밸런스 조정은 여기서만 하면 됩니다.
+ */
+
+export interface ScoringRules {
+  // 한 번에 제거한 줄 수별 기본 점수 (인덱스 = 줄 수, 범위를 넘으면 마지막 값 사용)
+  lineClear: number[];
+  areaClear: number; // 가득 찬 N x N 영역 하나당 기본 점수
+  drop: {
+    soft: number; // 소프트 드롭으로 내린 칸당
+    hard: number; // 하드 드롭으로 내린 칸당
+  };
+  combo: {
+    perStep: number; // 연속 제거 2회째부터 회차마다 더해지는 점수
+  };
+  pattern: Record<PatternRarity, number>; // 실루엣 완성 점수 (희귀도별)
+  backToBack: {
+    minLines: number; // "어려운 제거"로 인정하는 최소 줄 수 (영역 제거, 실루엣을 완성한 조각의 제거도 인정)
+    step: number; // 연속할 때마다 늘어나는 배율
+    maxStreak: number; // 배율이 더 이상 늘지 않는 연속 횟수
+  };
+}
+
+export const SCORING_RULES: ScoringRules = {
+  lineClear: [0, 100, 300, 500, 800],
+  areaClear: 400,
+  drop: {
+    soft: 1,
+    hard: 2,
+  },
+  combo: {
+    perStep: 50,
+  },
+  pattern: {
+    common: 300,
+    rare: 600,
+    epic: 1200,
+    legendary: 2500,
+  },
+  backToBack: {
+    minLines: 4,
+    step: 0.5,
+    maxStreak: 4,
+  },
+};
+
+/* --- 챌린지 스테이지 ---
+ * 목표/조각/제한/별점/해금 조건을 모두 데이터로 정의합니다.
+ * startBoard 문자 코드는 config/constants.ts의 KIND_CODES를 참고하세요.
+ */
+export const CHALLENGE_STAGES: ChallengeStage[] = [
+  {
+    id: "first-fish",
+    title: "challenge.first-fish.title",
+    description: "challenge.first-fish.description",
+    seed: 0x7d01,
+    pieces: {
+      sequence: [
+        "parallelogram",
+        "smallTriangleA",
+        "mediumTriangle",
+        "square",
+        "smallTriangleB",
+        "mediumTriangle",
+        "parallelogram",
+      ],
+    },
+    goal: { type: "pattern", patternId: "fish" },
+    limits: { maxDrops: 7 },
+    stars: { by: "drops", two: 5, three: 3 },
+  },
+  {
+    id: "triangles-only",
+    title: "challenge.triangles-only.title",
+    description: "challenge.triangles-only.description",
+    seed: 0x7d02,
+    pieces: { families: ["largeTriangle", "mediumTriangle", "smallTriangle"] },
+    goal: { type: "clearCells", cells: 20 },
+    limits: { maxDrops: 30 },
+    stars: { by: "drops", two: 22, three: 16 },
+    unlock: { stage: "first-fish" },
+  },
+  {
+    id: "speed-lines",
+    title: "challenge.speed-lines.title",
+    description: "challenge.speed-lines.description",
+    seed: 0x7d03,
+    startBoard: [
+      "LL.SS.PPMM",
+      "LLLSS.PPMM",
+    ],
+    goal: { type: "lines", lines: 4 },
+    limits: { timeLimitSec: 90 },
+    stars: { by: "seconds", two: 70, three: 45 },
+    unlock: { stage: "triangles-only" },
+  },
+  {
+    id: "star-builder",
+    title: "challenge.star-builder.title",
+    description: "challenge.star-builder.description",
+    seed: 0x7d04,
+    startBoard: [
+      "SS......SS",
+    ],
+    goal: { type: "pattern", patternId: "star" },
+    limits: { maxDrops: 12 },
+    stars: { by: "drops", two: 8, three: 5 },
+    unlock: { totalStars: 5 },
+  },
+  {
+    id: "score-attack",
+    title: "challenge.score-attack.title",
+    description: "challenge.score-attack.description",
+    seed: 0x7d05,
+    goal: { type: "score", points: 5000 },
+    limits: { timeLimitSec: 120 },
+    stars: { by: "seconds", two: 90, three: 60 },
+    unlock: { stage: "speed-lines" },
+  },
+];
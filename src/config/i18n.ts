@@ -0,0 +1,15 @@
+import type { Locale } from "../types/User";
+
+/* --- 다국어 설정 --- */
+
+export const LOCALES: readonly Locale[] = ["ko", "en", "ja"];
+
+// 기준 언어 (카탈로그가 번들에 항상 포함되고, 번역이 빠진 문장은 이 언어로 표시)
+export const DEFAULT_LOCALE: Locale = "ko";
+
+// 언어 선택 목록에 표시할 이름 (각 언어로 표기)
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ko: "한국어",
+  en: "English",
+  ja: "日本語",
+};
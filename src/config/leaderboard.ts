@@ -0,0 +1,17 @@
+/* --- 순위표 설정 --- */
+
+export interface LeaderboardConfig {
+  pageSize: number; // 한 페이지에 보여줄 순위 수
+  retry: {
+    baseMs: number; // 첫 재전송 대기 시간 (실패할 때마다 2배)
+    maxMs: number; // 재전송 대기 시간 상한
+  };
+}
+
+export const LEADERBOARD_CONFIG: LeaderboardConfig = {
+  pageSize: 10,
+  retry: {
+    baseMs: 2000,
+    maxMs: 5 * 60 * 1000,
+  },
+};
@@ -0,0 +1,15 @@
+/* --- 성능 측정 설정 --- */
+
+export interface MetricsConfig {
+  windowSize: number; // 요약에 쓰는 최근 표본 수 (프레임 간격, 처리 시간, 개수 각각)
+  longTaskMs: number; // 이보다 오래 걸린 작업/프레임을 긴 작업으로 셈
+  publishIntervalMs: number; // 오버레이에 요약을 갱신하는 간격
+  toggleKey: string; // 오버레이 켜기/끄기 단축키 (KeyboardEvent.code)
+}
+
+export const METRICS_CONFIG: MetricsConfig = {
+  windowSize: 300,
+  longTaskMs: 50,
+  publishIntervalMs: 500,
+  toggleKey: "F9",
+};
@@ -0,0 +1,64 @@
+import type { PatternPack } from "../types/Pattern";
+
+/* --- 기본 제공 실루엣 ---
+ * 타이틀 화면 PatternPreview에 등장하는 모양들을 격자로 옮긴 것입니다.
+ * 각 마스크는 pieces에 적힌 조각들로 정확히 채울 수 있도록 설계되어 있습니다.
+ * 새 실루엣은 같은 포맷의 JSON 팩으로 추가할 수 있습니다. (core/patterns/templates.ts)
+ */
+export const BUILT_IN_PATTERN_PACK: PatternPack = {
+  format: 1,
+  id: "built-in",
+  patterns: [
+    {
+      id: "fish",
+      name: { ko: "물고기", en: "Fish", ja: "さかな" },
+      mask: [
+        ".##.#",
+        "#####",
+        ".##.#",
+      ],
+      pieces: { parallelogram: 1, smallTriangle: 1, mediumTriangle: 1 },
+      rarity: "common",
+      svg: {
+        viewBox: "0 0 100 60",
+        path: "M10,30 Q30,10 50,30 Q70,50 90,30 Q70,10 50,30 Q30,50 10,30",
+      },
+    },
+    {
+      id: "bird-diamond",
+      name: { ko: "새", en: "Bird", ja: "とり" },
+      mask: [
+        "..#..",
+        ".###.",
+        "#####",
+        ".###.",
+        "..#..",
+      ],
+      pieces: { mediumTriangle: 1, largeTriangle: 1, smallTriangle: 1 },
+      rarity: "rare",
+      svg: {
+        viewBox: "0 0 100 100",
+        path: "M20,50 L50,20 L80,50 L50,80 Z",
+      },
+    },
+    {
+      id: "star",
+      name: { ko: "별", en: "Star", ja: "ほし" },
+      mask: [
+        "..#..",
+        ".###.",
+        "#####",
+        ".#.#.",
+      ],
+      pieces: { mediumTriangle: 2, smallTriangle: 1 },
+      rarity: "epic",
+      svg: {
+        viewBox: "0 0 100 100",
+        path: "M50,10 L61,40 L94,40 L67,60 L78,90 L50,70 L22,90 L33,60 L6,40 L39,40 Z",
+      },
+    },
+  ],
+};
+
+// 로딩 화면에서 함께 받아 등록할 추가 실루엣 팩 (JSON, 형식은 BUILT_IN_PATTERN_PACK과 같음)
+export const PATTERN_PACK_URLS: string[] = [];
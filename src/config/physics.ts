@@ -0,0 +1,22 @@
+import type { PhysicsConfig } from "../types/Physics";
+
+/* --- 물리 설정 ---
+ * 타이틀 화면 캐릭터에 쓰는 값입니다. 재질은 화면 바닥과 조각/버튼(ground), 제목 글자(obstacle) 두 가지입니다.
+ */
+
+export const CHARACTER_PHYSICS: PhysicsConfig = {
+  gravity: 2000,
+  fixedDt: 1 / 120,
+  maxFrameDt: 0.1,
+  maxSubSteps: 12,
+  restSpeed: 1,
+  wallBounce: 0.7,
+  cellSize: 128,
+  materials: {
+    ground: { bounce: 0.7, friction: 0.95, landingThreshold: 150, stopSpeed: 5 },
+    obstacle: { bounce: 0.7, friction: 0.98, landingThreshold: 200, stopSpeed: 2 },
+  },
+};
+
+// 이 속도(px/s) 이상으로 부딪히면 착지 효과음
+export const CHARACTER_IMPACT_SOUND_SPEED = 100;
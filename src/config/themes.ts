@@ -0,0 +1,183 @@
+import type { Theme, ThemeId, ThemePreference, ThemeTokens } from "../types/Theme";
+
+/* --- 테마 설정 ---
+ * 기본(classic)은 기존 화면 색을 그대로 옮긴 것입니다.
+ * 색각 이상 테마는 Okabe-Ito 팔레트를 바탕으로, 조각끼리 빨강-초록 축이 아니라 밝기와 파랑-노랑 축으로 구분되게 골랐습니다.
+ */
+
+const CLASSIC_TOKENS: ThemeTokens = {
+  background: ["#1f2937", "#111827"],
+  content: "#ffffff",
+  surface: { sunken: "#111827", panel: "#1f2937", base: "#374151", strong: "#4b5563" },
+  accent: "#06b6d4",
+  onAccent: "#ffffff",
+  pieces: {
+    smallTriangleA: "#06b6d4",
+    square: "#eab308",
+    mediumTriangle: "#a855f7",
+    parallelogram: "#22c55e",
+    largeTriangleA: "#ef4444",
+    largeTriangleB: "#3b82f6",
+    smallTriangleB: "#ec4899",
+  },
+  letters: {
+    cyan: "#22d3ee",
+    yellow: "#facc15",
+    purple: "#c084fc",
+    green: "#4ade80",
+    red: "#f87171",
+    blue: "#60a5fa",
+  },
+  menu: {
+    cyan: "#06b6d4",
+    purple: "#9333ea",
+    teal: "#0d9488",
+    amber: "#d97706",
+    settings: "#64748b",
+  },
+};
+
+export const THEMES: Record<ThemeId, Theme> = {
+  classic: { id: "classic", dark: true, tokens: CLASSIC_TOKENS },
+  night: {
+    id: "night",
+    dark: true,
+    tokens: {
+      ...CLASSIC_TOKENS,
+      background: ["#111827", "#312e81", "#111827"],
+      content: "#e0e7ff",
+      surface: { sunken: "#0f172a", panel: "#1e1b4b", base: "#312e81", strong: "#3730a3" },
+      accent: "#818cf8",
+      pieces: {
+        smallTriangleA: "#0891b2",
+        square: "#ca8a04",
+        mediumTriangle: "#9333ea",
+        parallelogram: "#16a34a",
+        largeTriangleA: "#dc2626",
+        largeTriangleB: "#2563eb",
+        smallTriangleB: "#db2777",
+      },
+    },
+  },
+  light: {
+    id: "light",
+    dark: false,
+    tokens: {
+      ...CLASSIC_TOKENS,
+      background: ["#f8fafc", "#e2e8f0"],
+      content: "#0f172a",
+      surface: { sunken: "#cbd5e1", panel: "#ffffff", base: "#f1f5f9", strong: "#e2e8f0" },
+      accent: "#0891b2",
+      letters: {
+        cyan: "#0891b2",
+        yellow: "#ca8a04",
+        purple: "#9333ea",
+        green: "#16a34a",
+        red: "#dc2626",
+        blue: "#2563eb",
+      },
+    },
+  },
+  highContrast: {
+    id: "highContrast",
+    dark: true,
+    tokens: {
+      background: ["#000000", "#000000"],
+      content: "#ffffff",
+      surface: { sunken: "#000000", panel: "#000000", base: "#1a1a1a", strong: "#333333" },
+      accent: "#ffff00",
+      onAccent: "#000000",
+      pieces: {
+        smallTriangleA: "#00ffff",
+        square: "#ffff00",
+        mediumTriangle: "#ff00ff",
+        parallelogram: "#00ff00",
+        largeTriangleA: "#ff3333",
+        largeTriangleB: "#3399ff",
+        smallTriangleB: "#ffffff",
+      },
+      letters: {
+        cyan: "#00ffff",
+        yellow: "#ffff00",
+        purple: "#ff66ff",
+        green: "#00ff00",
+        red: "#ff6666",
+        blue: "#66b3ff",
+      },
+      menu: {
+        cyan: "#006b7d",
+        purple: "#6a1b9a",
+        teal: "#00695c",
+        amber: "#8a4b00",
+        settings: "#424242",
+      },
+    },
+  },
+  deuteranopia: {
+    id: "deuteranopia",
+    dark: true,
+    tokens: {
+      ...CLASSIC_TOKENS,
+      pieces: {
+        smallTriangleA: "#56b4e9",
+        square: "#f0e442",
+        mediumTriangle: "#cc79a7",
+        parallelogram: "#009e73",
+        largeTriangleA: "#d55e00",
+        largeTriangleB: "#0072b2",
+        smallTriangleB: "#e69f00",
+      },
+      letters: {
+        cyan: "#56b4e9",
+        yellow: "#f0e442",
+        purple: "#cc79a7",
+        green: "#009e73",
+        red: "#e69f00",
+        blue: "#0072b2",
+      },
+      menu: {
+        cyan: "#0072b2",
+        purple: "#cc79a7",
+        teal: "#009e73",
+        amber: "#e69f00",
+        settings: "#64748b",
+      },
+    },
+  },
+  protanopia: {
+    id: "protanopia",
+    dark: true,
+    tokens: {
+      ...CLASSIC_TOKENS,
+      // 적색약에는 주황-빨강이 어두운 녹색처럼 보이므로 주홍색 대신 흰색 사용
+      pieces: {
+        smallTriangleA: "#56b4e9",
+        square: "#f0e442",
+        mediumTriangle: "#cc79a7",
+        parallelogram: "#009e73",
+        largeTriangleA: "#ffffff",
+        largeTriangleB: "#0072b2",
+        smallTriangleB: "#e69f00",
+      },
+      letters: {
+        cyan: "#56b4e9",
+        yellow: "#f0e442",
+        purple: "#cc79a7",
+        green: "#009e73",
+        red: "#ffffff",
+        blue: "#0072b2",
+      },
+      menu: {
+        cyan: "#0072b2",
+        purple: "#cc79a7",
+        teal: "#009e73",
+        amber: "#e69f00",
+        settings: "#64748b",
+      },
+    },
+  },
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+export const THEME_PREFERENCES: readonly ThemePreference[] = ["auto", ...THEME_IDS];
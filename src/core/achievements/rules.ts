@@ -0,0 +1,91 @@
+import { getDayKey } from "../../utils/random";
+import type { AchievementDef, PlayerStats, PlayStreak } from "../../types/Achievement";
+import type { GameEvent, ScoreState } from "../../types/Game";
+
+/* --- 업적 판정 ---
+ * 게임 이벤트/점수로 누적 기록을 갱신하고, 기록으로부터 업적 달성 여부를 계산하는 순수 함수 모음입니다.
+ * 저장과 달성 알림은 store/achievements.ts에서 합니다.
+ */
+
+export const createPlayerStats = (): PlayerStats => ({
+  gamesPlayed: 0,
+  totalLines: 0,
+  totalCellsCleared: 0,
+  patternsCompleted: 0,
+  discoveredPatterns: [],
+  bestScore: 0,
+  maxCombo: 0,
+  maxBackToBack: 0,
+  challengeStars: 0,
+  playStreak: { lastDay: null, current: 0, best: 0 },
+});
+
+// 업적 진행도 (목표값에서 멈춤)
+export const getAchievementProgress = (
+  def: AchievementDef,
+  stats: PlayerStats
+): { current: number; target: number } => ({
+  current: Math.min(def.progress(stats), def.target),
+  target: def.target,
+});
+
+// 아직 달성하지 않은 업적 중 이번 기록으로 달성한 것
+export const findNewUnlocks = (
+  defs: readonly AchievementDef[],
+  stats: PlayerStats,
+  unlocked: Readonly<Record<string, string>>
+): AchievementDef[] =>
+  defs.filter((def) => !(def.id in unlocked) && def.progress(stats) >= def.target);
+
+// 엔진 이벤트 반영 (제거한 줄/칸, 완성한 실루엣)
+export const applyGameEvents = (stats: PlayerStats, events: GameEvent[]): PlayerStats =>
+  events.reduce<PlayerStats>((next, event) => {
+    switch (event.type) {
+      case "clear":
+        return {
+          ...next,
+          totalLines: next.totalLines + event.lines,
+          totalCellsCleared: next.totalCellsCleared + event.cells.length,
+        };
+      case "pattern":
+        return {
+          ...next,
+          patternsCompleted: next.patternsCompleted + 1,
+          discoveredPatterns: next.discoveredPatterns.includes(event.patternId)
+            ? next.discoveredPatterns
+            : [...next.discoveredPatterns, event.patternId],
+        };
+      default:
+        return next;
+    }
+  }, stats);
+
+// 진행 중인 게임의 콤보/연속 보너스 최고 기록 반영
+export const applyScoreState = (stats: PlayerStats, score: ScoreState): PlayerStats =>
+  score.combo <= stats.maxCombo && score.backToBack <= stats.maxBackToBack
+    ? stats
+    : {
+        ...stats,
+        maxCombo: Math.max(stats.maxCombo, score.combo),
+        maxBackToBack: Math.max(stats.maxBackToBack, score.backToBack),
+      };
+
+// 플레이한 날 기록: 어제 이어서 플레이하면 연속 일수 증가, 하루라도 빠지면 1일부터 다시
+export const recordPlayDay = (streak: PlayStreak, today: Date): PlayStreak => {
+  const day = getDayKey(today);
+  if (streak.lastDay === day) return streak;
+
+  const yesterday = getDayKey(
+    new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1)
+  );
+  const current = streak.lastDay === yesterday ? streak.current + 1 : 1;
+  return { lastDay: day, current, best: Math.max(streak.best, current) };
+};
+
+// 게임 한 판 종료 반영 (일반 게임 오버 또는 챌린지 판정)
+export const applyGameFinished = (stats: PlayerStats, score: number, today: Date): PlayerStats => ({
+  ...stats,
+  gamesPlayed: stats.gamesPlayed + 1,
+  bestScore: Math.max(stats.bestScore, score),
+  playStreak: recordPlayDay(stats.playStreak, today),
+});
@@ -0,0 +1,248 @@
+import { AUDIO_CONFIG, AudioConfig, SoundDef } from "../../config/audio";
+import type { AudioSettings } from "../../types/User";
+
+/* --- Web Audio 믹서 ---
+ * 오디오 그래프:
+ *   효과음 voice ──────────── sfx 버스 ───┐
+ *   BGM 트랙 ── 덕킹 ──────── music 버스 ─┴─ master(음소거) ── 출력
+ *   미리듣기 voice ── preview(sfx 볼륨) ───────────────────── 출력
+ *
+ * - AudioContext는 처음 쓸 때 만들고, 브라우저 자동재생 정책 때문에 사용자 입력 시 unlock()으로 깨웁니다.
+ * - 디코딩한 버퍼는 URL별로 캐시합니다. 로드에 실패한 소리는 onError로 알리고 재생하지 않습니다.
+ * - 미리 받은 데이터는 addBuffer로 넘길 수 있습니다. (services/assets.ts가 진행률을 세며 받음)
+ * - 무음 모드에서는 아무 소리도 재생하지 않습니다. (오디오를 쓸 수 없을 때)
+ * - 같은 효과음은 maxVoices까지 겹쳐 재생되고, 넘치면 가장 오래된 voice를 멈춥니다.
+ */
+
+interface AudioGraph {
+  context: AudioContext;
+  master: GainNode;
+  music: GainNode;
+  duck: GainNode;
+  sfx: GainNode;
+  preview: GainNode;
+}
+
+interface MusicTrack {
+  url: string;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+export interface PlayOptions {
+  bypassMute?: boolean; // 음소거 중에도 재생 (음소거 토글/볼륨 미리듣기용)
+}
+
+// 현재 값에서 목표 값까지 ms 동안 선형으로 변화
+const rampTo = (param: AudioParam, context: AudioContext, value: number, ms: number) => {
+  const now = context.currentTime;
+  param.cancelScheduledValues(now);
+  param.setValueAtTime(param.value, now);
+  param.linearRampToValueAtTime(value, now + ms / 1000);
+};
+
+export interface AudioEngineOptions {
+  // 소리 로드/AudioContext 재개 실패 알림 (기본: 경고만 출력)
+  onError?: (error: unknown, context: string) => void;
+}
+
+export const createAudioEngine = (
+  config: AudioConfig = AUDIO_CONFIG,
+  { onError = (err, context) => console.warn(`${context}:`, err) }: AudioEngineOptions = {}
+) => {
+  let graph: AudioGraph | null = null;
+  let volumes: AudioSettings = { musicVolume: 1, sfxVolume: 1, muted: false };
+  const buffers = new Map<string, Promise<AudioBuffer | null>>();
+  const voices = new Map<string, AudioBufferSourceNode[]>();
+  let music: MusicTrack | null = null;
+  let pendingMusicUrl: string | null = null; // 로드 중인 BGM (연속 요청 시 마지막 것만 재생)
+  let activeDucks = 0;
+  let silent = false;
+
+  const applyVolumes = ({ context, master, music, sfx, preview }: AudioGraph, ms: number) => {
+    rampTo(master.gain, context, volumes.muted ? 0 : 1, ms);
+    rampTo(music.gain, context, volumes.musicVolume, ms);
+    rampTo(sfx.gain, context, volumes.sfxVolume, ms);
+    rampTo(preview.gain, context, volumes.sfxVolume, ms);
+  };
+
+  const getGraph = (): AudioGraph | null => {
+    if (graph) return graph;
+    if (typeof AudioContext === "undefined") return null;
+
+    const context = new AudioContext();
+    const master = context.createGain();
+    const musicBus = context.createGain();
+    const duck = context.createGain();
+    const sfx = context.createGain();
+    const preview = context.createGain();
+
+    duck.connect(musicBus);
+    musicBus.connect(master);
+    sfx.connect(master);
+    master.connect(context.destination);
+    preview.connect(context.destination);
+
+    graph = { context, master, music: musicBus, duck, sfx, preview };
+    applyVolumes(graph, 0);
+    return graph;
+  };
+
+  // 사용자 입력 이벤트 안에서 호출해야 재생이 허용됩니다.
+  const unlock = async () => {
+    const g = getGraph();
+    if (g?.context.state === "suspended") {
+      await g.context.resume().catch((err) => onError(err, "AudioContext resume failed"));
+    }
+  };
+
+  const load = (url: string): Promise<AudioBuffer | null> => {
+    const cached = buffers.get(url);
+    if (cached) return cached;
+    const g = getGraph();
+    if (!g) return Promise.resolve(null);
+
+    const promise = fetch(url)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.arrayBuffer();
+      })
+      .then((data) => g.context.decodeAudioData(data))
+      .catch((err) => {
+        onError(err, `Audio load failed (${url})`);
+        return null;
+      });
+    buffers.set(url, promise);
+    return promise;
+  };
+
+  const preload = (urls: string[]) => Promise.all(urls.map(load));
+
+  // 미리 받은 데이터를 디코딩해 캐시 (null이면 실패로 기록해 재생할 때 다시 받지 않음)
+  const addBuffer = (url: string, data: ArrayBuffer | null): Promise<AudioBuffer | null> => {
+    const g = getGraph();
+    const promise =
+      data && g
+        ? g.context.decodeAudioData(data).catch((err) => {
+            onError(err, `Audio decode failed (${url})`);
+            return null;
+          })
+        : Promise.resolve(null);
+    buffers.set(url, promise);
+    return promise;
+  };
+
+  const isSupported = () => typeof AudioContext !== "undefined";
+
+  // 무음 모드 전환 (켜면 재생 중인 BGM도 멈춤)
+  const setSilent = (next: boolean) => {
+    silent = next;
+    if (silent) stopMusic(0);
+  };
+
+  /* --- 덕킹: 중요한 효과음이 하나라도 재생 중이면 BGM을 낮춤 --- */
+
+  const startDuck = (g: AudioGraph) => {
+    activeDucks++;
+    if (activeDucks === 1) rampTo(g.duck.gain, g.context, config.duck.level, config.duck.attackMs);
+  };
+
+  const releaseDuck = (g: AudioGraph) => {
+    activeDucks = Math.max(0, activeDucks - 1);
+    if (activeDucks === 0) rampTo(g.duck.gain, g.context, 1, config.duck.releaseMs);
+  };
+
+  /* --- 효과음 --- */
+
+  const play = async (def: SoundDef, { bypassMute = false }: PlayOptions = {}) => {
+    if (silent) return;
+    const g = getGraph();
+    if (!g) return;
+    const buffer = await load(def.url);
+    if (!buffer) return;
+
+    const source = g.context.createBufferSource();
+    const gain = g.context.createGain();
+    source.buffer = buffer;
+    gain.gain.value = def.volume ?? 1;
+    source.connect(gain);
+    gain.connect(bypassMute ? g.preview : g.sfx);
+
+    // 동시 재생 수 제한 (가장 오래된 voice부터 정지)
+    const active = voices.get(def.url) ?? [];
+    voices.set(def.url, active);
+    while (active.length >= (def.maxVoices ?? config.defaultMaxVoices)) {
+      active.shift()?.stop();
+    }
+    active.push(source);
+
+    if (def.duck) startDuck(g);
+    source.onended = () => {
+      const index = active.indexOf(source);
+      if (index >= 0) active.splice(index, 1);
+      gain.disconnect();
+      if (def.duck) releaseDuck(g);
+    };
+    source.start();
+  };
+
+  /* --- 배경음악 (크로스페이드) --- */
+
+  const fadeOut = (g: AudioGraph, track: MusicTrack, ms: number) => {
+    rampTo(track.gain.gain, g.context, 0, ms);
+    track.source.onended = () => track.gain.disconnect();
+    track.source.stop(g.context.currentTime + ms / 1000);
+  };
+
+  const playMusic = async (def: SoundDef) => {
+    if (silent) return;
+    const g = getGraph();
+    if (!g || music?.url === def.url || pendingMusicUrl === def.url) return;
+
+    pendingMusicUrl = def.url;
+    const buffer = await load(def.url);
+    if (pendingMusicUrl !== def.url) return; // 로드 중에 다른 곡이 요청됨
+    pendingMusicUrl = null;
+    if (!buffer || silent) return;
+
+    if (music) fadeOut(g, music, config.musicFadeMs);
+
+    const source = g.context.createBufferSource();
+    const gain = g.context.createGain();
+    source.buffer = buffer;
+    source.loop = true;
+    gain.gain.value = 0;
+    source.connect(gain);
+    gain.connect(g.duck);
+    source.start();
+    rampTo(gain.gain, g.context, def.volume ?? 1, config.musicFadeMs);
+
+    music = { url: def.url, source, gain };
+  };
+
+  const stopMusic = (fadeMs = config.musicFadeMs) => {
+    pendingMusicUrl = null;
+    if (graph && music) fadeOut(graph, music, fadeMs);
+    music = null;
+  };
+
+  // 사용자 설정의 버스 볼륨/음소거 적용 (딸깍 소리가 나지 않도록 짧게 램프)
+  const setVolumes = (next: AudioSettings) => {
+    volumes = next;
+    if (graph) applyVolumes(graph, 30);
+  };
+
+  return {
+    unlock,
+    preload,
+    addBuffer,
+    isSupported,
+    setSilent,
+    play,
+    playMusic,
+    stopMusic,
+    setVolumes,
+  };
+};
+
+export type AudioEngine = ReturnType<typeof createAudioEngine>;
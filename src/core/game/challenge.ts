@@ -0,0 +1,112 @@
+import { KIND_CODES, TANGRAM_KINDS, TANGRAM_PIECES } from "../../config/constants";
+import { GAME_CONFIG, GameConfig } from "../../config/gameConfig";
+import { createBoard } from "./engine";
+import { createBagSource, createSequenceSource, SeededPieceSource } from "./randomizer";
+import type { Board } from "../../types/Block";
+import type {
+  ChallengeOutcome,
+  ChallengeStage,
+  ChallengeStats,
+  GameState,
+} from "../../types/Game";
+
+/* --- 챌린지 규칙 ---
+ * 스테이지 정의(config/gameConfig.ts)를 해석해 시작 보드/조각 공급원을 만들고
+ * 게임 상태로부터 성공/실패와 별점을 판정합니다. 모든 판정은 프레임 기준이라 재현 가능합니다.
+ */
+
+// 스테이지의 조각 공급원
+export const createChallengeSource = (stage: ChallengeStage): SeededPieceSource => {
+  const pieces = stage.pieces;
+  if (pieces && "sequence" in pieces) return createSequenceSource(stage.seed, pieces.sequence);
+  if (pieces && "families" in pieces) {
+    const kinds = TANGRAM_KINDS.filter((kind) =>
+      pieces.families.includes(TANGRAM_PIECES[kind].family)
+    );
+    return createBagSource(stage.seed, kinds);
+  }
+  return createBagSource(stage.seed);
+};
+
+// 시작 보드 생성 (startBoard 행은 보드 맨 아래에 맞춰 배치)
+export const createStartBoard = (stage: ChallengeStage, config: GameConfig = GAME_CONFIG): Board => {
+  const board = createBoard(config.board.cols, config.board.rows);
+  const rows = stage.startBoard ?? [];
+  const top = config.board.rows - rows.length;
+  rows.forEach((row, i) => {
+    [...row].slice(0, config.board.cols).forEach((code, x) => {
+      board[top + i][x] = KIND_CODES[code] ?? null;
+    });
+  });
+  return board;
+};
+
+// 조각 수 제한이 있는 스테이지에서 남은 조각 수
+export const getRemainingDrops = (stage: ChallengeStage, state: GameState): number | null =>
+  stage.limits.maxDrops === undefined ? null : Math.max(0, stage.limits.maxDrops - state.drops);
+
+// 시간 제한이 있는 스테이지에서 남은 시간 (초)
+export const getRemainingSeconds = (
+  stage: ChallengeStage,
+  state: GameState,
+  config: GameConfig = GAME_CONFIG
+): number | null =>
+  stage.limits.timeLimitSec === undefined
+    ? null
+    : Math.max(0, stage.limits.timeLimitSec - state.frame / config.fps);
+
+// 목표 진행도 (현재값 / 목표값)
+export const getGoalProgress = (
+  stage: ChallengeStage,
+  state: GameState,
+  { foundPatterns, score }: ChallengeStats
+): { current: number; target: number } => {
+  const { goal } = stage;
+  switch (goal.type) {
+    case "pattern":
+      return { current: foundPatterns.includes(goal.patternId) ? 1 : 0, target: 1 };
+    case "clearCells":
+      return { current: Math.min(state.cellsCleared, goal.cells), target: goal.cells };
+    case "lines":
+      return { current: Math.min(state.lines, goal.lines), target: goal.lines };
+    case "score":
+      return { current: Math.min(score, goal.points), target: goal.points };
+  }
+};
+
+// 성공/실패 판정
+export const evaluateChallenge = (
+  stage: ChallengeStage,
+  state: GameState,
+  stats: ChallengeStats,
+  config: GameConfig = GAME_CONFIG
+): ChallengeOutcome => {
+  const progress = getGoalProgress(stage, state, stats);
+  if (progress.current >= progress.target) {
+    const metric = stage.stars.by === "drops" ? state.drops : state.frame / config.fps;
+    const stars = metric <= stage.stars.three ? 3 : metric <= stage.stars.two ? 2 : 1;
+    return { status: "won", stars };
+  }
+
+  if (state.status === "over") return { status: "lost", reason: "gameOver" };
+  if (getRemainingDrops(stage, state) === 0) return { status: "lost", reason: "drops" };
+  if (getRemainingSeconds(stage, state, config) === 0) return { status: "lost", reason: "time" };
+  return { status: "playing" };
+};
+
+// 획득한 별의 합 (bestStars: 스테이지별 최고 별점)
+export const getTotalStars = (bestStars: Readonly<Record<string, number>>): number =>
+  Object.values(bestStars).reduce((sum, stars) => sum + stars, 0);
+
+// 해금 여부
+export const isStageUnlocked = (
+  stage: ChallengeStage,
+  bestStars: Readonly<Record<string, number>>
+): boolean => {
+  if (!stage.unlock) return true;
+  if (stage.unlock.stage && !bestStars[stage.unlock.stage]) return false;
+  if (stage.unlock.totalStars !== undefined && getTotalStars(bestStars) < stage.unlock.totalStars) {
+    return false;
+  }
+  return true;
+};
@@ -0,0 +1,385 @@
+import { TANGRAM_PIECES } from "../../config/constants";
+import { GAME_CONFIG, GameConfig } from "../../config/gameConfig";
+import { getPatterns } from "../patterns/templates";
+import { findPatterns } from "../patterns/matcher";
+import { rotateShape } from "../../utils/patterns";
+import type {
+  ActivePiece,
+  Board,
+  PieceSource,
+  Point,
+  Rotation,
+  TangramKind,
+} from "../../types/Block";
+import type {
+  GameAction,
+  GameEvent,
+  GameState,
+  StepResult,
+} from "../../types/Game";
+
+/* --- 격자 기반 낙하 엔진 ---
+ * 모든 함수는 순수 함수이며 새 상태와 발생한 이벤트를 반환합니다.
+ * 시간은 프레임 단위로 진행되므로 같은 입력이면 항상 같은 결과가 나옵니다.
+ */
+
+// 벽 차기(wall kick) 시 시도할 가로 오프셋
+const KICK_OFFSETS = [0, -1, 1, -2, 2];
+
+/* --- 조각 좌표 --- */
+
+// 조각이 차지하는 보드 좌표 목록
+export const getPieceCells = (piece: ActivePiece): Point[] => {
+  const shape = rotateShape(TANGRAM_PIECES[piece.kind].shape, piece.rotation);
+  const cells: Point[] = [];
+  shape.forEach((row, y) =>
+    row.forEach((filled, x) => {
+      if (filled) cells.push({ x: piece.x + x, y: piece.y + y });
+    })
+  );
+  return cells;
+};
+
+// 빈 보드 생성
+export const createBoard = (cols: number, rows: number): Board =>
+  Array.from({ length: rows }, () => Array<Board[number][number]>(cols).fill(null));
+
+// 조각이 벽/바닥/고정 블록과 겹치는지 검사
+export const collides = (board: Board, piece: ActivePiece): boolean =>
+  getPieceCells(piece).some(
+    ({ x, y }) =>
+      x < 0 ||
+      x >= board[0].length ||
+      y >= board.length ||
+      (y >= 0 && board[y][x] !== null)
+  );
+
+// 하드 드롭 시 조각이 도착할 위치 (고스트 표시용)
+export const getGhostPiece = (state: GameState): ActivePiece | null => {
+  if (!state.active) return null;
+  let ghost = state.active;
+  while (!collides(state.board, { ...ghost, y: ghost.y + 1 })) {
+    ghost = { ...ghost, y: ghost.y + 1 };
+  }
+  return ghost;
+};
+
+// 레벨에 따른 낙하 간격 (프레임)
+export const getGravityFrames = (level: number, config: GameConfig = GAME_CONFIG): number =>
+  Math.max(
+    config.gravity.minFrames,
+    config.gravity.baseFrames - (level - 1) * config.gravity.framesPerLevel
+  );
+
+/* --- 제거 처리 --- */
+
+// 가득 찬 가로줄 제거 후 위쪽 줄을 내림
+const clearLines = (board: Board): { board: Board; rows: number[] } => {
+  const rows: number[] = [];
+  const kept = board.filter((row, y) => {
+    const full = row.every((cell) => cell !== null);
+    if (full) rows.push(y);
+    return !full;
+  });
+  const cols = board[0].length;
+  const empty = createBoard(cols, rows.length);
+  return { board: [...empty, ...kept], rows };
+};
+
+// 가득 찬 size x size 영역을 찾아 제거하고 해당 열을 아래로 당김
+const clearAreas = (
+  board: Board,
+  size: number
+): { board: Board; cells: Point[]; areas: number } => {
+  const rows = board.length;
+  const cols = board[0].length;
+  const marked = board.map((row) => row.map(() => false));
+  let areas = 0;
+
+  for (let top = 0; top + size <= rows; top++) {
+    for (let left = 0; left + size <= cols; left++) {
+      let full = true;
+      for (let y = top; y < top + size && full; y++) {
+        for (let x = left; x < left + size; x++) {
+          if (board[y][x] === null) {
+            full = false;
+            break;
+          }
+        }
+      }
+      if (!full) continue;
+      areas++;
+      for (let y = top; y < top + size; y++) {
+        for (let x = left; x < left + size; x++) marked[y][x] = true;
+      }
+    }
+  }
+
+  if (areas === 0) return { board, cells: [], areas };
+
+  const cells: Point[] = [];
+  const next = createBoard(cols, rows);
+  for (let x = 0; x < cols; x++) {
+    // 표시되지 않은 칸만 남기고 아래쪽부터 다시 쌓음
+    let writeY = rows - 1;
+    for (let y = rows - 1; y >= 0; y--) {
+      if (marked[y][x]) {
+        cells.push({ x, y });
+        continue;
+      }
+      next[writeY][x] = board[y][x];
+      writeY--;
+    }
+  }
+  return { board: next, cells, areas };
+};
+
+/* --- 상태 전이 --- */
+
+// 대기열에서 다음 조각을 꺼내 보드 위쪽에 배치
+// held: 보관함에서 꺼낸 조각 (지정하면 대기열을 소비하지 않음)
+const spawnPiece = (
+  state: GameState,
+  source: PieceSource,
+  config: GameConfig,
+  held?: TangramKind
+): StepResult => {
+  const [kind, ...rest] = held ? [held, ...state.next] : state.next;
+  const next = held ? state.next : [...rest];
+  while (next.length < config.previewCount) next.push(source.next());
+
+  const width = TANGRAM_PIECES[kind].shape[0].length;
+  const piece: ActivePiece = {
+    kind,
+    rotation: 0,
+    x: Math.floor((config.board.cols - width) / 2),
+    y: 0,
+  };
+
+  const base: GameState = {
+    ...state,
+    next,
+    gravityCounter: 0,
+    lockCounter: 0,
+    lockResets: 0,
+    dropDistance: 0,
+  };
+
+  if (collides(state.board, piece)) {
+    return {
+      state: { ...base, active: null, status: "over" },
+      events: [{ type: "gameOver" }],
+    };
+  }
+  return { state: { ...base, active: piece }, events: [{ type: "spawn", kind }] };
+};
+
+// 현재 조각을 보드에 고정하고 줄/영역 제거 후 다음 조각 생성
+const lockPiece = (
+  state: GameState,
+  source: PieceSource,
+  config: GameConfig,
+  hardDrop: boolean
+): StepResult => {
+  const piece = state.active;
+  if (!piece) return { state, events: [] };
+
+  const cells = getPieceCells(piece);
+  let board = state.board.map((row) => [...row]);
+  cells.forEach(({ x, y }) => {
+    if (y >= 0) board[y][x] = piece.kind;
+  });
+
+  const events: GameEvent[] = [
+    {
+      type: "lock",
+      kind: piece.kind,
+      cells,
+      dropDistance: state.dropDistance,
+      hardDrop,
+    },
+  ];
+
+  // 줄 제거 전에 실루엣 검사 (완성된 모양이 바로 지워져도 인정)
+  const matches = findPatterns(board, cells, getPatterns());
+  matches.forEach((match) => events.push({ type: "pattern", ...match }));
+
+  let clearedCells: Point[] = [];
+  let lines = 0;
+  if (config.clearing.lines) {
+    const result = clearLines(board);
+    board = result.board;
+    lines = result.rows.length;
+    clearedCells = result.rows.flatMap((y) =>
+      Array.from({ length: config.board.cols }, (_, x) => ({ x, y }))
+    );
+  }
+
+  let areas = 0;
+  if (config.clearing.areaSize > 0) {
+    const result = clearAreas(board, config.clearing.areaSize);
+    board = result.board;
+    areas = result.areas;
+    clearedCells = [...clearedCells, ...result.cells];
+  }
+
+  if (clearedCells.length > 0) {
+    events.push({ type: "clear", lines, areas, cells: clearedCells });
+  }
+
+  const totalLines = state.lines + lines;
+  const locked: GameState = {
+    ...state,
+    board,
+    active: null,
+    canHold: true,
+    lines: totalLines,
+    cellsCleared: state.cellsCleared + clearedCells.length,
+    drops: state.drops + 1,
+    patternsFound: state.patternsFound + matches.length,
+    level: Math.floor(totalLines / config.linesPerLevel) + 1,
+  };
+
+  const spawned = spawnPiece(locked, source, config);
+  return { state: spawned.state, events: [...events, ...spawned.events] };
+};
+
+// 이동/회전 성공 시 고정 대기 연장
+const withMoved = (state: GameState, piece: ActivePiece, config: GameConfig): GameState => {
+  const canReset = state.lockResets < config.lock.maxResets;
+  return {
+    ...state,
+    active: piece,
+    lockCounter: canReset ? 0 : state.lockCounter,
+    lockResets: canReset && state.lockCounter > 0 ? state.lockResets + 1 : state.lockResets,
+  };
+};
+
+// 새 게임 상태 생성
+// board: 시작 보드 (생략 시 빈 보드)
+export const createGame = (
+  source: PieceSource,
+  config: GameConfig = GAME_CONFIG,
+  board: Board = createBoard(config.board.cols, config.board.rows)
+): GameState => {
+  const initial: GameState = {
+    board: board.map((row) => [...row]),
+    active: null,
+    next: Array.from({ length: config.previewCount + 1 }, () => source.next()),
+    hold: null,
+    canHold: true,
+    status: "playing",
+    frame: 0,
+    gravityCounter: 0,
+    lockCounter: 0,
+    lockResets: 0,
+    dropDistance: 0,
+    level: 1,
+    lines: 0,
+    cellsCleared: 0,
+    drops: 0,
+    patternsFound: 0,
+  };
+  return spawnPiece(initial, source, config).state;
+};
+
+// 플레이어 동작 적용
+export const applyAction = (
+  state: GameState,
+  action: GameAction,
+  source: PieceSource,
+  config: GameConfig = GAME_CONFIG
+): StepResult => {
+  if (action === "pause") {
+    if (state.status === "over") return { state, events: [] };
+    return {
+      state: { ...state, status: state.status === "paused" ? "playing" : "paused" },
+      events: [],
+    };
+  }
+
+  const piece = state.active;
+  if (state.status !== "playing" || !piece) return { state, events: [] };
+
+  switch (action) {
+    case "moveLeft":
+    case "moveRight": {
+      const moved = { ...piece, x: piece.x + (action === "moveLeft" ? -1 : 1) };
+      if (collides(state.board, moved)) return { state, events: [] };
+      return { state: withMoved(state, moved, config), events: [] };
+    }
+    case "rotateCW":
+    case "rotateCCW": {
+      const rotation = ((piece.rotation + (action === "rotateCW" ? 1 : 3)) % 4) as Rotation;
+      for (const offset of KICK_OFFSETS) {
+        const rotated = { ...piece, rotation, x: piece.x + offset };
+        if (!collides(state.board, rotated)) {
+          return { state: withMoved(state, rotated, config), events: [] };
+        }
+      }
+      return { state, events: [] };
+    }
+    case "softDrop": {
+      const moved = { ...piece, y: piece.y + 1 };
+      if (collides(state.board, moved)) return { state, events: [] };
+      return {
+        state: {
+          ...state,
+          active: moved,
+          gravityCounter: 0,
+          dropDistance: state.dropDistance + 1,
+        },
+        events: [],
+      };
+    }
+    case "hardDrop": {
+      const ghost = getGhostPiece(state) ?? piece;
+      const dropped: GameState = {
+        ...state,
+        active: ghost,
+        dropDistance: state.dropDistance + (ghost.y - piece.y),
+      };
+      return lockPiece(dropped, source, config, true);
+    }
+    case "hold": {
+      // 현재 조각을 보관하고, 보관 중이던 조각(없으면 다음 조각)을 새로 꺼냄
+      if (!state.canHold) return { state, events: [] };
+      const swapped = { ...state, hold: piece.kind, canHold: false };
+      return spawnPiece(swapped, source, config, state.hold ?? undefined);
+    }
+  }
+};
+
+// 게임 강제 종료 (챌린지 성공/실패 등 외부 조건)
+export const endGame = (state: GameState): GameState =>
+  state.status === "over" ? state : { ...state, status: "over" };
+
+// 한 프레임 진행 (중력 및 고정 대기 처리)
+export const advanceFrame = (
+  state: GameState,
+  source: PieceSource,
+  config: GameConfig = GAME_CONFIG
+): StepResult => {
+  if (state.status !== "playing" || !state.active) return { state, events: [] };
+
+  const piece = state.active;
+  const frame = state.frame + 1;
+  const below = { ...piece, y: piece.y + 1 };
+
+  if (collides(state.board, below)) {
+    const lockCounter = state.lockCounter + 1;
+    if (lockCounter >= config.lock.delayFrames) {
+      return lockPiece({ ...state, frame }, source, config, false);
+    }
+    return { state: { ...state, frame, lockCounter }, events: [] };
+  }
+
+  const gravityCounter = state.gravityCounter + 1;
+  if (gravityCounter >= getGravityFrames(state.level, config)) {
+    return {
+      state: { ...state, frame, active: below, gravityCounter: 0, lockCounter: 0 },
+      events: [],
+    };
+  }
+  return { state: { ...state, frame, gravityCounter }, events: [] };
+};
@@ -0,0 +1,40 @@
+import { TANGRAM_KINDS } from "../../config/constants";
+import { createRng, shuffle } from "../../utils/random";
+import type { PieceSource, TangramKind } from "../../types/Block";
+
+/* --- 7-bag 조각 생성기 ---
+ * 탱그램 7조각을 한 봉지에 넣고 섞어서 순서대로 꺼냅니다.
+ * 봉지가 비면 다시 7조각을 섞어 채우므로, 같은 조각이 너무 오래 안 나오는 일이 없습니다.
+ */
+
+export interface SeededPieceSource extends PieceSource {
+  readonly seed: number;
+}
+
+// kinds: 봉지에 넣을 조각 (챌린지에서 일부 조각만 허용할 때 사용)
+export const createBagSource = (
+  seed: number,
+  kinds: readonly TangramKind[] = TANGRAM_KINDS
+): SeededPieceSource => {
+  const rng = createRng(seed);
+  let bag: TangramKind[] = [];
+  return {
+    seed: rng.seed,
+    next: () => {
+      if (bag.length === 0) bag = shuffle(kinds, rng);
+      return bag.shift()!;
+    },
+  };
+};
+
+// 정해진 순서대로 조각을 내보내는 공급원 (목록이 끝나면 처음부터 반복)
+export const createSequenceSource = (
+  seed: number,
+  sequence: readonly TangramKind[]
+): SeededPieceSource => {
+  let index = 0;
+  return {
+    seed,
+    next: () => sequence[index++ % sequence.length],
+  };
+};
@@ -0,0 +1,138 @@
+import type { GameConfig } from "../../config/gameConfig";
+import { hashSeed } from "../../utils/random";
+import { ValidationResult, isRecord } from "../../utils/validation";
+import type { GameAction, GameState, Replay, ReplayInput } from "../../types/Game";
+
+/* --- 리플레이 녹화/직렬화 ---
+ * 엔진은 시드와 프레임별 입력만 같으면 항상 같은 게임을 만들기 때문에
+ * 리플레이에는 시드, 입력 목록, 설정 해시만 저장합니다.
+ *
+ * 직렬화 포맷 (버전 1):
+ *   { v: 1, s: 시드, c: 설정 해시, t: 녹화 시각, m: 요약, i: 입력 문자열 }
+ *   입력 문자열은 "이전 입력과의 프레임 차이(36진수 소문자) + 동작 코드(대문자)"의 연속입니다.
+ *   예) "0CaL0H" = 0프레임에 rotateCW, 10프레임에 moveLeft, 같은 프레임에 hardDrop
+ */
+
+export const REPLAY_VERSION = 1;
+
+const ACTION_CODES: Record<GameAction, string> = {
+  moveLeft: "L",
+  moveRight: "R",
+  rotateCW: "C",
+  rotateCCW: "W",
+  softDrop: "D",
+  hardDrop: "H",
+  hold: "K",
+  pause: "P",
+};
+
+const CODE_ACTIONS = Object.fromEntries(
+  Object.entries(ACTION_CODES).map(([action, code]) => [code, action as GameAction])
+) as Record<string, GameAction>;
+
+// 게임 설정 해시 (재생 시 설정 불일치 감지용)
+export const hashConfig = (config: GameConfig): string =>
+  hashSeed(JSON.stringify(config)).toString(16).padStart(8, "0");
+
+// 게임 한 판의 입력을 기록하는 녹화기
+export const createRecorder = (seed: number, config: GameConfig) => {
+  const inputs: ReplayInput[] = [];
+  return {
+    record: (frame: number, action: GameAction) => {
+      inputs.push({ frame, action });
+    },
+    finish: (state: GameState): Replay => ({
+      version: REPLAY_VERSION,
+      seed,
+      configHash: hashConfig(config),
+      recordedAt: new Date().toISOString(),
+      inputs: [...inputs],
+      summary: {
+        frames: state.frame,
+        lines: state.lines,
+        cellsCleared: state.cellsCleared,
+        patternsFound: state.patternsFound,
+        drops: state.drops,
+      },
+    }),
+  };
+};
+
+export type Recorder = ReturnType<typeof createRecorder>;
+
+/* --- 직렬화 --- */
+
+const encodeInputs = (inputs: ReplayInput[]): string => {
+  let lastFrame = 0;
+  return inputs
+    .map(({ frame, action }) => {
+      const delta = frame - lastFrame;
+      lastFrame = frame;
+      return `${delta.toString(36)}${ACTION_CODES[action]}`;
+    })
+    .join("");
+};
+
+const decodeInputs = (text: string): ReplayInput[] | null => {
+  const inputs: ReplayInput[] = [];
+  const re = /([0-9a-z]+)([A-Z])/gy;
+  let frame = 0;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text)) !== null) {
+    const action = CODE_ACTIONS[match[2]];
+    if (!action) return null;
+    frame += parseInt(match[1], 36);
+    consumed += match[0].length;
+    inputs.push({ frame, action });
+  }
+  // 해석하지 못한 문자가 남아 있으면 손상된 데이터
+  return consumed === text.length ? inputs : null;
+};
+
+export const encodeReplay = (replay: Replay): string =>
+  JSON.stringify({
+    v: replay.version,
+    s: replay.seed,
+    c: replay.configHash,
+    t: replay.recordedAt,
+    m: replay.summary,
+    i: encodeInputs(replay.inputs),
+  });
+
+export const decodeReplay = (text: string): ValidationResult<Replay> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ["replay: JSON 형식이 아닙니다."] };
+  }
+  if (!isRecord(raw)) return { ok: false, errors: ["replay: 객체여야 합니다."] };
+
+  const errors: string[] = [];
+  if (raw.v !== REPLAY_VERSION) {
+    errors.push(`replay.v: 지원하지 않는 버전입니다. (${String(raw.v)}, 지원: ${REPLAY_VERSION})`);
+  }
+  if (typeof raw.s !== "number" || !Number.isInteger(raw.s) || raw.s < 0) {
+    errors.push("replay.s: 0 이상의 정수 시드여야 합니다.");
+  }
+  if (typeof raw.c !== "string") errors.push("replay.c: 설정 해시 문자열이 필요합니다.");
+  if (typeof raw.t !== "string") errors.push("replay.t: 녹화 시각 문자열이 필요합니다.");
+  if (!isRecord(raw.m)) errors.push("replay.m: 요약 정보가 필요합니다.");
+
+  const inputs = typeof raw.i === "string" ? decodeInputs(raw.i) : null;
+  if (!inputs) errors.push("replay.i: 입력 문자열을 해석할 수 없습니다.");
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      version: REPLAY_VERSION,
+      seed: raw.s as number,
+      configHash: raw.c as string,
+      recordedAt: raw.t as string,
+      inputs: inputs!,
+      summary: raw.m as Replay["summary"],
+    },
+  };
+};
@@ -0,0 +1,206 @@
+import type { MessageValues } from "../../types/I18n";
+
+/* --- 메시지 형식 (ICU MessageFormat 일부) ---
+ * 지원하는 문법:
+ *   {name}                                   값 끼워 넣기
+ *   {count, number}                          언어에 맞는 숫자 형식 (1,234)
+ *   {count, plural, =0 {...} one {...} other {# 개}}   복수형 (#은 숫자로 바뀜)
+ *   {kind, select, keyboard {...} other {...}}        값에 따라 문장 선택
+ * 따옴표(')를 이용한 중괄호 이스케이프는 지원하지 않습니다. 문장에 중괄호를 쓰지 마세요.
+ */
+
+type MessagePart =
+  | string
+  | { type: "argument"; name: string; format: "none" | "number" }
+  | { type: "plural" | "select"; name: string; options: Record<string, MessagePart[]> }
+  | { type: "pound" }; // plural 안의 #
+
+interface Cursor {
+  text: string;
+  index: number;
+}
+
+const fail = (cursor: Cursor, reason: string): never => {
+  throw new Error(`${reason} (위치 ${cursor.index}): ${cursor.text}`);
+};
+
+const skipSpaces = (cursor: Cursor) => {
+  while (/\s/.test(cursor.text[cursor.index] ?? "")) cursor.index++;
+};
+
+// 쉼표나 중괄호 전까지의 이름/키워드
+const readWord = (cursor: Cursor): string => {
+  skipSpaces(cursor);
+  const start = cursor.index;
+  while (cursor.index < cursor.text.length && !/[\s,{}]/.test(cursor.text[cursor.index])) cursor.index++;
+  const word = cursor.text.slice(start, cursor.index);
+  if (!word) fail(cursor, "이름이 필요합니다");
+  skipSpaces(cursor);
+  return word;
+};
+
+const expect = (cursor: Cursor, char: string) => {
+  skipSpaces(cursor);
+  if (cursor.text[cursor.index] !== char) fail(cursor, `"${char}"가 필요합니다`);
+  cursor.index++;
+};
+
+// plural/select의 선택지: key {message} key {message} ...
+const parseOptions = (cursor: Cursor, inPlural: boolean): Record<string, MessagePart[]> => {
+  const options: Record<string, MessagePart[]> = {};
+  skipSpaces(cursor);
+  while (cursor.text[cursor.index] !== "}") {
+    if (cursor.index >= cursor.text.length) fail(cursor, "닫는 중괄호가 없습니다");
+    const key = readWord(cursor);
+    expect(cursor, "{");
+    options[key] = parseParts(cursor, inPlural);
+    expect(cursor, "}");
+    skipSpaces(cursor);
+  }
+  if (!options.other) fail(cursor, "other 선택지가 필요합니다");
+  return options;
+};
+
+// { 다음부터 짝이 맞는 } 앞까지
+const parseArgument = (cursor: Cursor): MessagePart => {
+  const name = readWord(cursor);
+  if (cursor.text[cursor.index] === "}") return { type: "argument", name, format: "none" };
+
+  expect(cursor, ",");
+  const type = readWord(cursor);
+  if (type === "number") return { type: "argument", name, format: "number" };
+  if (type !== "plural" && type !== "select") return fail(cursor, `지원하지 않는 형식 "${type}"`);
+  expect(cursor, ",");
+  return { type, name, options: parseOptions(cursor, type === "plural") };
+};
+
+const parseParts = (cursor: Cursor, inPlural: boolean): MessagePart[] => {
+  const parts: MessagePart[] = [];
+  let literal = "";
+  const flush = () => {
+    if (literal) parts.push(literal);
+    literal = "";
+  };
+
+  while (cursor.index < cursor.text.length) {
+    const char = cursor.text[cursor.index];
+    if (char === "}") break;
+    cursor.index++;
+    if (char === "{") {
+      flush();
+      parts.push(parseArgument(cursor));
+      expect(cursor, "}");
+    } else if (char === "#" && inPlural) {
+      flush();
+      parts.push({ type: "pound" });
+    } else {
+      literal += char;
+    }
+  }
+  flush();
+  return parts;
+};
+
+// 문장을 해석 (문법 오류는 예외)
+export const parseMessage = (text: string): MessagePart[] => {
+  const cursor: Cursor = { text, index: 0 };
+  const parts = parseParts(cursor, false);
+  if (cursor.index < text.length) fail(cursor, "여는 중괄호 없이 닫았습니다");
+  return parts;
+};
+
+/* --- 출력 --- */
+
+// 같은 문장을 매번 다시 해석하지 않도록 캐시
+const parsed = new Map<string, MessagePart[]>();
+const pluralRules = new Map<string, Intl.PluralRules>();
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+const getPluralRules = (locale: string) => {
+  if (!pluralRules.has(locale)) pluralRules.set(locale, new Intl.PluralRules(locale));
+  return pluralRules.get(locale)!;
+};
+
+const formatNumber = (value: number, locale: string) => {
+  if (!numberFormats.has(locale)) numberFormats.set(locale, new Intl.NumberFormat(locale));
+  return numberFormats.get(locale)!.format(value);
+};
+
+const render = (
+  parts: MessagePart[],
+  values: MessageValues,
+  locale: string,
+  count: number | null
+): string =>
+  parts
+    .map((part) => {
+      if (typeof part === "string") return part;
+      if (part.type === "pound") return count === null ? "#" : formatNumber(count, locale);
+
+      const value = values[part.name];
+      if (part.type === "argument") {
+        if (value === undefined) return `{${part.name}}`;
+        return part.format === "number" && typeof value === "number"
+          ? formatNumber(value, locale)
+          : String(value);
+      }
+      if (part.type === "select") {
+        const branch = part.options[String(value)] ?? part.options.other;
+        return render(branch, values, locale, count);
+      }
+      const n = Number(value);
+      const branch =
+        part.options[`=${n}`] ?? part.options[getPluralRules(locale).select(n)] ?? part.options.other;
+      return render(branch, values, locale, n);
+    })
+    .join("");
+
+// 문장에 값을 채워 넣음 (빠진 값은 {name} 그대로 남김)
+export const formatMessage = (text: string, values: MessageValues = {}, locale = "ko"): string => {
+  if (!parsed.has(text)) parsed.set(text, parseMessage(text));
+  return render(parsed.get(text)!, values, locale, null);
+};
+
+/* --- 카탈로그 검사 --- */
+
+export interface CatalogReport {
+  missing: string[]; // 기준 카탈로그에는 있지만 빠진 키
+  unknown: string[]; // 기준 카탈로그에 없는 키 (오타 또는 지워진 키)
+  invalid: string[]; // 문법 오류가 있는 문장 ("키: 이유")
+}
+
+// 번역 카탈로그를 기준 언어와 비교 (개발 중 누락 보고용)
+export const checkCatalog = (
+  base: Record<string, string>,
+  catalog: Partial<Record<string, string>>
+): CatalogReport => {
+  const baseKeys = Object.keys(base);
+  const keys = Object.keys(catalog);
+  const invalid = keys.flatMap((key) => {
+    try {
+      parseMessage(catalog[key] ?? "");
+      return [];
+    } catch (err) {
+      return [`${key}: ${err instanceof Error ? err.message : String(err)}`];
+    }
+  });
+  return {
+    missing: baseKeys.filter((key) => catalog[key] === undefined),
+    unknown: keys.filter((key) => !(key in base)),
+    invalid,
+  };
+};
+
+// 지원 언어 중 브라우저 선호 언어와 가장 먼저 맞는 것 ("en-US" → "en")
+export const matchLocale = <T extends string>(
+  preferred: readonly string[],
+  supported: readonly T[],
+  fallback: T
+): T => {
+  for (const tag of preferred) {
+    const language = tag.toLowerCase().split("-")[0];
+    const match = supported.find((locale) => locale === language);
+    if (match) return match;
+  }
+  return fallback;
+};
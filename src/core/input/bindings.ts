@@ -0,0 +1,65 @@
+import type { GameAction } from "../../types/Game";
+import type { ControlSettings } from "../../types/User";
+
+/* --- 입력 배치 / 자동 반복 ---
+ * 물리 입력(키보드 키, 게임패드 버튼)을 게임 동작으로 바꾸는 순수 함수 모음입니다.
+ * 실제 이벤트 수신과 게임패드 폴링은 hooks/useBlockControl.ts에서 합니다.
+ */
+
+// 누르고 있으면 자동 반복되는 동작
+export const REPEATABLE_ACTIONS: readonly GameAction[] = ["moveLeft", "moveRight", "softDrop"];
+
+// 키 이름 정규화 (글자 키는 Shift/CapsLock과 무관하게 소문자로 비교)
+export const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key);
+
+// 입력 → 동작 조회표 (같은 입력이 여러 동작에 있으면 먼저 나온 동작 사용)
+export const createInputMap = <T extends string | number>(
+  bindings: Record<GameAction, T[]>,
+  normalize: (input: T) => T = (input) => input
+): Map<T, GameAction> => {
+  const map = new Map<T, GameAction>();
+  (Object.entries(bindings) as [GameAction, T[]][]).forEach(([action, inputs]) =>
+    inputs.forEach((input) => {
+      const key = normalize(input);
+      if (!map.has(key)) map.set(key, action);
+    })
+  );
+  return map;
+};
+
+export interface BindingConflict<T> {
+  input: T;
+  actions: GameAction[];
+}
+
+// 하나의 입력이 둘 이상의 동작에 배정된 경우 찾기
+export const findBindingConflicts = <T extends string | number>(
+  bindings: Record<GameAction, T[]>,
+  normalize: (input: T) => T = (input) => input
+): BindingConflict<T>[] => {
+  const owners = new Map<T, GameAction[]>();
+  (Object.entries(bindings) as [GameAction, T[]][]).forEach(([action, inputs]) =>
+    inputs.forEach((input) => {
+      const key = normalize(input);
+      const actions = owners.get(key) ?? [];
+      if (!actions.includes(action)) actions.push(action);
+      owners.set(key, actions);
+    })
+  );
+  return [...owners.entries()]
+    .filter(([, actions]) => actions.length > 1)
+    .map(([input, actions]) => ({ input, actions }));
+};
+
+// 누른 지 prevMs → nowMs 사이에 발생해야 하는 자동 반복 횟수
+// (처음 누를 때의 1회는 포함하지 않음. ARR이 0이면 DAS 이후 호출될 때마다 1회)
+export const countRepeats = (
+  prevMs: number,
+  nowMs: number,
+  { das, arr }: Pick<ControlSettings, "das" | "arr">
+): number => {
+  if (nowMs < das) return 0;
+  if (arr <= 0) return 1;
+  const fired = (ms: number) => (ms < das ? 0 : Math.floor((ms - das) / arr) + 1);
+  return fired(nowMs) - fired(prevMs);
+};
@@ -0,0 +1,126 @@
+import type { Point } from "../../types/Block";
+import type { GameAction } from "../../types/Game";
+import type { TouchSettings } from "../../types/User";
+
+/* --- 터치 제스처 인식기 ---
+ * 터치 좌표와 시각만 받아 게임 동작 목록을 돌려주는 순수 상태 기계입니다.
+ * (DOM 이벤트 연결은 hooks/useTouchControl.ts)
+ *
+ *   좌우 스와이프   swipeStepPx마다 한 칸 이동
+ *   아래 스와이프   swipeStepPx마다 소프트 드롭
+ *   아래로 튕기기   손을 뗄 때 속도가 flickVelocity 이상이면 하드 드롭
+ *   탭             시계 방향 회전
+ *   두 손가락 탭    보관
+ */
+
+export type GestureConfig = Pick<TouchSettings, "swipeStepPx" | "flickVelocity" | "tapMaxMs">;
+
+// 한 손가락 추적 상태
+interface Track {
+  start: Point;
+  startTime: number;
+  anchor: Point; // 마지막으로 동작을 발생시킨 위치
+  last: Point;
+  lastTime: number;
+  velocityY: number; // 최근 아래 방향 속도 (px/ms)
+  moved: boolean; // 이동/드롭을 한 번이라도 발생시켰는지
+}
+
+// 두 손가락 탭 후보
+interface MultiTouch {
+  startTime: number;
+  cancelled: boolean;
+}
+
+export const createGestureRecognizer = (config: GestureConfig) => {
+  let track: Track | null = null;
+  let multi: MultiTouch | null = null;
+
+  const start = (points: Point[], time: number): GameAction[] => {
+    if (points.length >= 2) {
+      // 두 번째 손가락이 닿으면 한 손가락 제스처는 취소
+      track = null;
+      multi = multi ?? { startTime: time, cancelled: points.length > 2 };
+      return [];
+    }
+    if (multi) return [];
+    const [point] = points;
+    track = {
+      start: point,
+      startTime: time,
+      anchor: point,
+      last: point,
+      lastTime: time,
+      velocityY: 0,
+      moved: false,
+    };
+    return [];
+  };
+
+  const move = (points: Point[], time: number): GameAction[] => {
+    if (multi) {
+      // 두 손가락이 크게 움직이면 탭이 아님
+      if (points.length > 2) multi.cancelled = true;
+      return [];
+    }
+    if (!track || points.length !== 1) return [];
+
+    const [point] = points;
+    const step = config.swipeStepPx;
+    const actions: GameAction[] = [];
+
+    // 가로 이동: 기준점에서 한 칸 거리만큼 움직일 때마다 이동
+    while (Math.abs(point.x - track.anchor.x) >= step) {
+      const dir = Math.sign(point.x - track.anchor.x);
+      actions.push(dir < 0 ? "moveLeft" : "moveRight");
+      track.anchor = { ...track.anchor, x: track.anchor.x + dir * step };
+    }
+    // 아래 이동: 소프트 드롭 (위로 올리는 동작은 무시)
+    while (point.y - track.anchor.y >= step) {
+      actions.push("softDrop");
+      track.anchor = { ...track.anchor, y: track.anchor.y + step };
+    }
+    if (point.y < track.anchor.y) track.anchor = { ...track.anchor, y: point.y };
+
+    const dt = time - track.lastTime;
+    if (dt > 0) track.velocityY = (point.y - track.last.y) / dt;
+    track.last = point;
+    track.lastTime = time;
+    if (actions.length > 0) track.moved = true;
+    return actions;
+  };
+
+  // remaining: 손을 뗀 뒤 화면에 남아 있는 손가락 수
+  const end = (remaining: number, time: number): GameAction[] => {
+    if (multi) {
+      if (remaining > 0) return [];
+      const isTap = !multi.cancelled && time - multi.startTime <= config.tapMaxMs;
+      multi = null;
+      return isTap ? ["hold"] : [];
+    }
+    if (!track) return [];
+
+    const finished = track;
+    track = null;
+    const dx = finished.last.x - finished.start.x;
+    const dy = finished.last.y - finished.start.y;
+
+    if (finished.velocityY >= config.flickVelocity && dy >= config.swipeStepPx) {
+      return ["hardDrop"];
+    }
+    const isTap =
+      !finished.moved &&
+      time - finished.startTime <= config.tapMaxMs &&
+      Math.hypot(dx, dy) < config.swipeStepPx / 2;
+    return isTap ? ["rotateCW"] : [];
+  };
+
+  const cancel = () => {
+    track = null;
+    multi = null;
+  };
+
+  return { start, move, end, cancel };
+};
+
+export type GestureRecognizer = ReturnType<typeof createGestureRecognizer>;
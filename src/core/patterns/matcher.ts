@@ -0,0 +1,138 @@
+import { FAMILY_CELL_COUNTS, TANGRAM_PIECES } from "../../config/constants";
+import { mirrorShape, parseMask, rotateShape, shapeKey } from "../../utils/patterns";
+import type { Board, Point, Rotation, Shape, TangramFamily } from "../../types/Block";
+import type { CompiledPattern, PatternMatch, PatternTemplate } from "../../types/Pattern";
+
+/* --- 실루엣 매칭 ---
+ * 조각이 고정될 때마다 방금 놓인 칸을 포함하는 위치만 검사합니다.
+ * 실루엣으로 인정되려면 마스크의 모든 칸이 채워져 있어야 하고,
+ * 마스크 바깥의 위/옆 이웃 칸은 비어 있어야 합니다. (아래쪽 받침은 허용)
+ * 템플릿에 조각 구성(pieces)이 있으면 실루엣 안의 조각 계열별 칸 수도 일치해야 합니다.
+ */
+
+// 네 방향 이웃 (dy = 1 은 아래쪽)
+const NEIGHBORS: Point[] = [
+  { x: -1, y: 0 },
+  { x: 1, y: 0 },
+  { x: 0, y: -1 },
+  { x: 0, y: 1 },
+];
+
+// 회전 4방향 x 반전 2가지 중 서로 다른 모양만 반환
+export const getOrientations = (mask: Shape): Shape[] => {
+  const seen = new Set<string>();
+  const result: Shape[] = [];
+  [mask, mirrorShape(mask)].forEach((base) => {
+    for (let r = 0; r < 4; r++) {
+      const shape = rotateShape(base, r as Rotation);
+      const key = shapeKey(shape);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      result.push(shape);
+    }
+  });
+  return result;
+};
+
+export const compilePattern = (template: PatternTemplate): CompiledPattern => {
+  const mask = parseMask(template.mask);
+  return { template, mask, orientations: getOrientations(mask) };
+};
+
+// 실루엣 안의 조각 계열별 칸 수가 템플릿의 조각 구성과 일치하는지 검사
+const matchesPieces = (board: Board, cells: Point[], template: PatternTemplate): boolean => {
+  if (!template.pieces) return true;
+
+  const counts: Partial<Record<TangramFamily, number>> = {};
+  cells.forEach(({ x, y }) => {
+    const kind = board[y][x];
+    if (!kind) return;
+    const family = TANGRAM_PIECES[kind].family;
+    counts[family] = (counts[family] ?? 0) + 1;
+  });
+
+  const expected: Partial<Record<TangramFamily, number>> = {};
+  Object.entries(template.pieces).forEach(([family, count]) => {
+    expected[family as TangramFamily] = FAMILY_CELL_COUNTS[family as TangramFamily] * (count ?? 0);
+  });
+
+  const families = new Set([...Object.keys(counts), ...Object.keys(expected)]) as Set<TangramFamily>;
+  return [...families].every((family) => (counts[family] ?? 0) === (expected[family] ?? 0));
+};
+
+const maskCells = (shape: Shape): Point[] => {
+  const cells: Point[] = [];
+  shape.forEach((row, y) =>
+    row.forEach((filled, x) => {
+      if (filled) cells.push({ x, y });
+    })
+  );
+  return cells;
+};
+
+// 마스크를 (ox, oy) 위치에 놓았을 때 실루엣이 성립하는지 검사
+const matchesAt = (board: Board, shape: Shape, ox: number, oy: number): boolean => {
+  const rows = board.length;
+  const cols = board[0].length;
+  const inMask = (x: number, y: number) =>
+    y >= 0 && y < shape.length && x >= 0 && x < shape[0].length && shape[y][x] === 1;
+
+  for (let y = 0; y < shape.length; y++) {
+    for (let x = 0; x < shape[0].length; x++) {
+      if (!shape[y][x]) continue;
+      const bx = ox + x;
+      const by = oy + y;
+      if (bx < 0 || bx >= cols || by < 0 || by >= rows || board[by][bx] === null) {
+        return false;
+      }
+
+      for (const n of NEIGHBORS) {
+        if (n.y === 1 || inMask(x + n.x, y + n.y)) continue;
+        const nx = bx + n.x;
+        const ny = by + n.y;
+        if (nx < 0 || nx >= cols || ny < 0 || ny >= rows) continue;
+        if (board[ny][nx] !== null) return false;
+      }
+    }
+  }
+  return true;
+};
+
+// 방금 고정된 칸(lockedCells)을 포함하는 실루엣을 모두 찾음
+export const findPatterns = (
+  board: Board,
+  lockedCells: Point[],
+  patterns: CompiledPattern[]
+): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+
+  patterns.forEach(({ template, orientations }) => {
+    const found = new Set<string>();
+
+    orientations.forEach((shape) => {
+      const cells = maskCells(shape);
+      // 고정된 칸과 마스크 칸을 겹치는 모든 원점 후보
+      const origins = new Set<string>();
+      lockedCells.forEach((locked) =>
+        cells.forEach((cell) => origins.add(`${locked.x - cell.x},${locked.y - cell.y}`))
+      );
+
+      origins.forEach((origin) => {
+        const [ox, oy] = origin.split(",").map(Number);
+        if (!matchesAt(board, shape, ox, oy)) return;
+
+        const boardCells = cells.map(({ x, y }) => ({ x: ox + x, y: oy + y }));
+        if (!matchesPieces(board, boardCells, template)) return;
+        const key = boardCells
+          .map(({ x, y }) => `${x},${y}`)
+          .sort()
+          .join(";");
+        if (found.has(key)) return;
+        found.add(key);
+        matches.push({ patternId: template.id, cells: boardCells });
+      });
+    });
+  });
+
+  return matches;
+};
@@ -0,0 +1,69 @@
+import { BUILT_IN_PATTERN_PACK } from "../../config/patterns";
+import { compilePattern } from "./matcher";
+import { ValidationResult, isRecord, validatePatternPack } from "../../utils/validation";
+import type { CompiledPattern, LocalizedText, PatternPack, PatternTemplate } from "../../types/Pattern";
+
+/* --- 실루엣 템플릿 레지스트리 ---
+ * 템플릿 팩은 모두 validatePatternPack을 거쳐 등록됩니다.
+ * 디자이너는 같은 포맷의 JSON 파일만 배포하면 매처 코드를 고치지 않고 실루엣을 추가할 수 있습니다.
+ */
+
+const registry = new Map<string, CompiledPattern>();
+
+// 검증된 팩을 레지스트리에 등록. 실패 시 아무것도 등록하지 않고 오류 목록을 반환
+export const registerPatternPack = (raw: unknown): ValidationResult<PatternPack> => {
+  const result = validatePatternPack(raw, registry.keys());
+  if (!result.ok) return result;
+
+  result.value.patterns.forEach((template) => {
+    registry.set(template.id, compilePattern(template));
+  });
+  return result;
+};
+
+// URL에서 JSON 팩을 받아 등록
+export const loadPatternPack = async (url: string): Promise<ValidationResult<PatternPack>> => {
+  let raw: unknown;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      return { ok: false, errors: [`${url}: 불러오기 실패 (HTTP ${response.status})`] };
+    }
+    raw = await response.json();
+  } catch (err) {
+    return { ok: false, errors: [`${url}: JSON을 읽을 수 없습니다. (${String(err)})`] };
+  }
+
+  const result = registerPatternPack(raw);
+  if (!result.ok) {
+    const packId = isRecord(raw) && typeof raw.id === "string" ? raw.id : url;
+    console.warn(`Pattern pack "${packId}" rejected:\n${result.errors.join("\n")}`);
+  }
+  return result;
+};
+
+// 팩에 포함된 템플릿 제거
+export const unregisterPatternPack = (pack: PatternPack) => {
+  pack.patterns.forEach((template) => registry.delete(template.id));
+};
+
+// 매칭에 사용할 전체 템플릿 (회전/반전 계산 완료)
+export const getPatterns = (): CompiledPattern[] => Array.from(registry.values());
+
+export const getPatternTemplate = (id: string): PatternTemplate | undefined =>
+  registry.get(id)?.template;
+
+// 언어에 맞는 표시 이름 (없으면 한국어)
+export const getLocalizedText = (text: LocalizedText, locale: keyof LocalizedText = "ko"): string =>
+  text[locale] ?? text.ko;
+
+export const getPatternName = (id: string, locale: keyof LocalizedText = "ko"): string => {
+  const template = getPatternTemplate(id);
+  return template ? getLocalizedText(template.name, locale) : id;
+};
+
+// 기본 제공 팩 등록 (잘못된 기본 팩은 개발 단계에서 바로 드러나도록 예외 처리)
+const builtIn = registerPatternPack(BUILT_IN_PATTERN_PACK);
+if (!builtIn.ok) {
+  throw new Error(`Invalid built-in pattern pack:\n${builtIn.errors.join("\n")}`);
+}
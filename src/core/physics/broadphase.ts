@@ -0,0 +1,38 @@
+import type { Aabb, SpatialGrid, StaticCollider } from "../../types/Physics";
+
+/* --- 넓은 단계 충돌 검사 ---
+ * 충돌체를 고정 크기 격자 칸에 나눠 담아 두고, 물체가 걸친 칸의 충돌체만 후보로 돌려줍니다.
+ * 충돌체가 늘어나도 물체 주변 몇 칸만 보므로 검사 횟수가 거의 일정합니다.
+ */
+
+const cellKey = (cx: number, cy: number) => `${cx},${cy}`;
+
+// 사각형이 걸친 칸마다 visit 호출 (변이 칸 경계에 맞닿아도 그 칸에 포함)
+const forEachCell = (bounds: Aabb, cellSize: number, visit: (key: string) => void) => {
+  const minX = Math.floor(bounds.x / cellSize);
+  const maxX = Math.floor((bounds.x + bounds.width) / cellSize);
+  const minY = Math.floor(bounds.y / cellSize);
+  const maxY = Math.floor((bounds.y + bounds.height) / cellSize);
+  for (let cy = minY; cy <= maxY; cy++) {
+    for (let cx = minX; cx <= maxX; cx++) visit(cellKey(cx, cy));
+  }
+};
+
+export const buildSpatialGrid = (colliders: StaticCollider[], cellSize: number): SpatialGrid => {
+  const grid: SpatialGrid = new Map();
+  colliders.forEach((collider, index) => {
+    forEachCell(collider.bounds, cellSize, (key) => {
+      const cell = grid.get(key);
+      if (cell) cell.push(index);
+      else grid.set(key, [index]);
+    });
+  });
+  return grid;
+};
+
+// bounds와 같은 칸에 있는 충돌체 인덱스 (중복 없이 등록 순서대로)
+export const queryGrid = (grid: SpatialGrid, bounds: Aabb, cellSize: number): number[] => {
+  const found = new Set<number>();
+  forEachCell(bounds, cellSize, (key) => grid.get(key)?.forEach((index) => found.add(index)));
+  return [...found].sort((a, b) => a - b);
+};
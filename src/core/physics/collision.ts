@@ -0,0 +1,81 @@
+import type { Aabb, Penetration, Polygon, Vec2 } from "../../types/Physics";
+
+/* --- 충돌 검사 --- */
+
+// 두 사각형이 겹치는지 (변이 맞닿은 경우도 겹친 것으로 봄)
+export const intersectsAabb = (a: Aabb, b: Aabb): boolean =>
+  !(
+    a.x + a.width < b.x ||
+    a.x > b.x + b.width ||
+    a.y + a.height < b.y ||
+    a.y > b.y + b.height
+  );
+
+// a를 b 밖으로 밀어낼 최소 이동 (겹친 깊이가 가장 얕은 면 기준)
+// normal은 a를 밀어낼 방향, depth는 이동 거리
+export const getAabbPenetration = (a: Aabb, b: Aabb): Penetration => {
+  const candidates: Penetration[] = [
+    { normal: { x: 0, y: -1 }, depth: a.y + a.height - b.y }, // a가 b 위에 걸침
+    { normal: { x: 0, y: 1 }, depth: b.y + b.height - a.y }, // a가 b 아래에 걸침
+    { normal: { x: -1, y: 0 }, depth: a.x + a.width - b.x }, // a가 b 왼쪽에 걸침
+    { normal: { x: 1, y: 0 }, depth: b.x + b.width - a.x }, // a가 b 오른쪽에 걸침
+  ];
+  return candidates.reduce((best, candidate) => (candidate.depth < best.depth ? candidate : best));
+};
+
+/* --- 볼록 다각형 (분리 축 정리, SAT) ---
+ * 두 볼록 다각형은 어느 한 변의 법선 위로 투영했을 때 구간이 떨어져 있으면 겹치지 않습니다.
+ * 모든 변의 법선에서 겹치면 충돌이고, 겹친 길이가 가장 짧은 축이 밀어낼 방향입니다.
+ */
+
+export const aabbToPolygon = ({ x, y, width, height }: Aabb): Polygon => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height },
+];
+
+const dot = (a: Vec2, b: Vec2) => a.x * b.x + a.y * b.y;
+
+// 각 변의 단위 법선
+const getEdgeNormals = (polygon: Polygon): Vec2[] =>
+  polygon.flatMap((point, i) => {
+    const next = polygon[(i + 1) % polygon.length];
+    const dx = next.x - point.x;
+    const dy = next.y - point.y;
+    const length = Math.hypot(dx, dy);
+    return length === 0 ? [] : [{ x: -dy / length, y: dx / length }];
+  });
+
+const project = (polygon: Polygon, axis: Vec2) => {
+  const values = polygon.map((point) => dot(point, axis));
+  return { min: Math.min(...values), max: Math.max(...values) };
+};
+
+const getCentroid = (polygon: Polygon): Vec2 => ({
+  x: polygon.reduce((sum, { x }) => sum + x, 0) / polygon.length,
+  y: polygon.reduce((sum, { y }) => sum + y, 0) / polygon.length,
+});
+
+// a를 b 밖으로 밀어낼 최소 이동 (겹치지 않으면 null)
+// 맞닿기만 한 경우는 깊이 0으로 겹친 것으로 봄 (intersectsAabb와 같은 기준)
+export const getPolygonPenetration = (a: Polygon, b: Polygon): Penetration | null => {
+  let best: Penetration | null = null;
+
+  for (const axis of [...getEdgeNormals(a), ...getEdgeNormals(b)]) {
+    const pa = project(a, axis);
+    const pb = project(b, axis);
+    const depth = Math.min(pa.max - pb.min, pb.max - pa.min);
+    if (depth < 0) return null;
+    if (!best || depth < best.depth) best = { normal: axis, depth };
+  }
+  if (!best) return null;
+
+  // 법선이 b에서 a 쪽을 향하도록
+  const ca = getCentroid(a);
+  const cb = getCentroid(b);
+  const toA = { x: ca.x - cb.x, y: ca.y - cb.y };
+  return dot(toA, best.normal) < 0
+    ? { normal: { x: -best.normal.x, y: -best.normal.y }, depth: best.depth }
+    : best;
+};
@@ -0,0 +1,315 @@
+import { buildSpatialGrid, queryGrid } from "./broadphase";
+import { aabbToPolygon, getAabbPenetration, getPolygonPenetration, intersectsAabb } from "./collision";
+import type {
+  Aabb,
+  Material,
+  Penetration,
+  PhysicsBody,
+  PhysicsConfig,
+  PhysicsContact,
+  PhysicsStepResult,
+  PhysicsWorld,
+  Size,
+  StaticCollider,
+  Vec2,
+} from "../../types/Physics";
+
+/* --- 물리 엔진 ---
+ * DOM과 무관한 순수 함수 모음입니다. 화면 크기와 충돌체는 호출하는 쪽이 넘겨 주고,
+ * stepWorld는 새 월드와 이번 프레임의 충돌 목록을 돌려줍니다.
+ *
+ * 프레임 간격이 들쭉날쭉해도 결과가 같도록 고정 스텝(fixedDt)으로만 시뮬레이션하고,
+ * 남은 시간은 accumulator에 쌓아 두었다가 다음 프레임에 이어서 처리합니다.
+ * 화면에는 직전 스텝과 현재 스텝 사이를 alpha로 보간한 위치를 그리면 됩니다.
+ *
+ * 충돌체는 setColliders로 넣을 때 격자(broadphase)에 나눠 담고, 스텝마다 물체 주변 칸의 후보만 검사합니다.
+ */
+
+/* --- 월드 / 물체 --- */
+
+export const createWorld = (bounds: Size, bodies: PhysicsBody[] = []): PhysicsWorld => ({
+  bounds,
+  bodies,
+  colliders: [],
+  grid: new Map(),
+  accumulator: 0,
+});
+
+// 충돌체 교체 (바뀐 경우에만 호출하면 격자를 프레임마다 다시 만들지 않음)
+export const setColliders = (
+  world: PhysicsWorld,
+  colliders: StaticCollider[],
+  cellSize: number
+): PhysicsWorld => ({
+  ...world,
+  colliders,
+  grid: buildSpatialGrid(colliders, cellSize),
+});
+
+export const createBody = (id: string, position: Vec2, size: Size): PhysicsBody => ({
+  id,
+  position,
+  previousPosition: position,
+  velocity: { x: 0, y: 0 },
+  size,
+  kinematic: false,
+});
+
+// 물체 하나만 바꾼 새 월드
+export const updateBody = (
+  world: PhysicsWorld,
+  id: string,
+  updater: (body: PhysicsBody) => PhysicsBody
+): PhysicsWorld => ({
+  ...world,
+  bodies: world.bodies.map((body) => (body.id === id ? updater(body) : body)),
+});
+
+// 물체를 순간이동 (보간으로 미끄러지지 않도록 직전 위치도 함께 옮김)
+export const teleportBody = (body: PhysicsBody, position: Vec2): PhysicsBody => ({
+  ...body,
+  position,
+  previousPosition: position,
+});
+
+export const getBodyBounds = ({ position, size }: PhysicsBody): Aabb => ({ ...position, ...size });
+
+// 직전 스텝과 현재 스텝 사이의 위치
+export const getInterpolatedPosition = (
+  { position, previousPosition }: PhysicsBody,
+  alpha: number
+): Vec2 => ({
+  x: previousPosition.x + (position.x - previousPosition.x) * alpha,
+  y: previousPosition.y + (position.y - previousPosition.y) * alpha,
+});
+
+// 움직이는 물체가 모두 멈췄는지 (멈췄으면 프레임 루프를 쉬어도 됨)
+// 속도만 보면 튀어 오른 꼭대기에서도 멈춘 것으로 보이므로, 무언가 위에 올라서 있어야 함
+export const isAtRest = (
+  world: PhysicsWorld,
+  contacts: PhysicsContact[],
+  { restSpeed }: PhysicsConfig
+): boolean =>
+  world.bodies.every(
+    ({ id, kinematic, velocity }) =>
+      kinematic ||
+      (Math.abs(velocity.x) <= restSpeed &&
+        Math.abs(velocity.y) <= restSpeed &&
+        contacts.some((contact) => contact.bodyId === id && contact.normal.y === -1))
+  );
+
+/* --- 충돌 처리 --- */
+
+interface StepState {
+  body: PhysicsBody;
+  contacts: PhysicsContact[];
+  checks: number;
+}
+
+// 표면 위에 떨어진 경우: 느리면 내려앉고 빠르면 튕김
+const landOn = (
+  body: PhysicsBody,
+  surfaceY: number,
+  depth: number,
+  material: Material
+): PhysicsBody => {
+  const { position, velocity } = body;
+  if (Math.abs(velocity.y) < material.landingThreshold) {
+    const vx = velocity.x * material.friction;
+    return {
+      ...body,
+      position: { x: position.x, y: surfaceY - body.size.height },
+      velocity: { x: Math.abs(vx) < material.stopSpeed ? 0 : vx, y: 0 },
+    };
+  }
+  return {
+    ...body,
+    position: { x: position.x, y: position.y - depth },
+    velocity: { x: velocity.x, y: -velocity.y * material.bounce },
+  };
+};
+
+// 화면 가장자리: 바닥은 ground 재질로 내려앉고, 벽과 천장은 튕겨 냄
+const resolveBounds = (state: StepState, bounds: Size, config: PhysicsConfig): StepState => {
+  let { body } = state;
+  const contacts = [...state.contacts];
+  const { width, height } = body.size;
+  const touch = (normal: Vec2, impactSpeed: number) =>
+    contacts.push({ bodyId: body.id, colliderId: null, normal, impactSpeed });
+
+  if (body.position.x < 0 || body.position.x + width > bounds.width) {
+    const hitLeft = body.position.x < 0;
+    touch({ x: hitLeft ? 1 : -1, y: 0 }, Math.abs(body.velocity.y));
+    body = {
+      ...body,
+      position: { ...body.position, x: hitLeft ? 0 : bounds.width - width },
+      velocity: { ...body.velocity, x: -body.velocity.x * config.wallBounce },
+    };
+  }
+  if (body.position.y < 0) {
+    touch({ x: 0, y: 1 }, Math.abs(body.velocity.y));
+    body = {
+      ...body,
+      position: { ...body.position, y: 0 },
+      velocity: { ...body.velocity, y: -body.velocity.y * config.wallBounce },
+    };
+  }
+  if (body.position.y + height > bounds.height) {
+    touch({ x: 0, y: -1 }, Math.abs(body.velocity.y));
+    body = landOn(body, bounds.height, body.position.y + height - bounds.height, config.materials.ground);
+  }
+  return { ...state, body, contacts };
+};
+
+// 다각형 충돌체: 법선 방향 속도만 튕기고 표면을 따라 미끄러짐 (비탈에서는 굴러 내려감)
+const resolvePolygon = (
+  body: PhysicsBody,
+  { normal, depth }: Penetration,
+  material: Material
+): PhysicsBody => {
+  const position = { x: body.position.x + normal.x * depth, y: body.position.y + normal.y * depth };
+  const approach = body.velocity.x * normal.x + body.velocity.y * normal.y;
+  if (approach >= 0) return { ...body, position }; // 이미 멀어지는 중
+
+  const tangent = {
+    x: body.velocity.x - approach * normal.x,
+    y: body.velocity.y - approach * normal.y,
+  };
+  // 위를 향한 면에 느리게 닿으면 튕기지 않고 표면 위에 올라섬
+  if (normal.y < -0.5 && -approach < material.landingThreshold) {
+    const slide = { x: tangent.x * material.friction, y: tangent.y * material.friction };
+    const stopped = Math.hypot(slide.x, slide.y) < material.stopSpeed;
+    return { ...body, position, velocity: stopped ? { x: 0, y: 0 } : slide };
+  }
+  return {
+    ...body,
+    position,
+    velocity: {
+      x: tangent.x - approach * material.bounce * normal.x,
+      y: tangent.y - approach * material.bounce * normal.y,
+    },
+  };
+};
+
+const resolveCollider = (state: StepState, collider: StaticCollider, config: PhysicsConfig): StepState => {
+  const checks = state.checks + 1;
+  const bounds = getBodyBounds(state.body);
+  if (!intersectsAabb(bounds, collider.bounds)) return { ...state, checks };
+
+  const { body } = state;
+  if (collider.polygon) {
+    const penetration = getPolygonPenetration(aabbToPolygon(bounds), collider.polygon);
+    if (!penetration) return { ...state, checks };
+    const { normal } = penetration;
+    const approach = body.velocity.x * normal.x + body.velocity.y * normal.y;
+    return {
+      body: resolvePolygon(body, penetration, config.materials[collider.material]),
+      contacts: [
+        ...state.contacts,
+        { bodyId: body.id, colliderId: collider.id, normal, impactSpeed: Math.max(0, -approach) },
+      ],
+      checks,
+    };
+  }
+
+  const material = config.materials[collider.material];
+  const { normal, depth } = getAabbPenetration(bounds, collider.bounds);
+  const contact: PhysicsContact = {
+    bodyId: body.id,
+    colliderId: collider.id,
+    normal,
+    impactSpeed: Math.abs(body.velocity.y),
+  };
+
+  let next: PhysicsBody;
+  if (normal.y === -1) {
+    next = landOn(body, collider.bounds.y + (collider.restOffsetY ?? 0), depth, material);
+  } else if (normal.y === 1) {
+    next = {
+      ...body,
+      position: { ...body.position, y: body.position.y + depth },
+      velocity: { ...body.velocity, y: -body.velocity.y * material.bounce },
+    };
+  } else {
+    const vx = body.velocity.x;
+    next = {
+      ...body,
+      position: { ...body.position, x: body.position.x + normal.x * depth },
+      velocity: {
+        ...body.velocity,
+        x: Math.abs(vx) < material.landingThreshold ? 0 : -vx * material.bounce,
+      },
+    };
+  }
+  return { body: next, contacts: [...state.contacts, contact], checks };
+};
+
+// 물체 하나를 고정 스텝 한 번만큼 진행
+const stepBody = (world: PhysicsWorld, body: PhysicsBody, config: PhysicsConfig): StepState => {
+  if (body.kinematic) {
+    return { body: { ...body, previousPosition: body.position }, contacts: [], checks: 0 };
+  }
+
+  const dt = config.fixedDt;
+  const vy = body.velocity.y + config.gravity * dt;
+  const moved: PhysicsBody = {
+    ...body,
+    previousPosition: body.position,
+    position: { x: body.position.x + body.velocity.x * dt, y: body.position.y + vy * dt },
+    velocity: { x: body.velocity.x, y: vy },
+  };
+
+  const bounded = resolveBounds({ body: moved, contacts: [], checks: 0 }, world.bounds, config);
+  return queryGrid(world.grid, getBodyBounds(bounded.body), config.cellSize).reduce(
+    (state, index) => resolveCollider(state, world.colliders[index], config),
+    bounded
+  );
+};
+
+/* --- 진행 --- */
+
+// 같은 물체-충돌체 쌍은 한 번만 (충돌 속도는 가장 큰 값)
+const dedupeContacts = (contacts: PhysicsContact[]): PhysicsContact[] => {
+  const byPair = new Map<string, PhysicsContact>();
+  contacts.forEach((contact) => {
+    const key = `${contact.bodyId}|${contact.colliderId ?? `bounds:${contact.normal.x},${contact.normal.y}`}`;
+    const prev = byPair.get(key);
+    if (!prev || contact.impactSpeed > prev.impactSpeed) byPair.set(key, contact);
+  });
+  return [...byPair.values()];
+};
+
+// 프레임 간격(초)만큼 월드 진행
+export const stepWorld = (
+  world: PhysicsWorld,
+  frameDt: number,
+  config: PhysicsConfig
+): PhysicsStepResult => {
+  let accumulator = world.accumulator + Math.min(Math.max(0, frameDt), config.maxFrameDt);
+  let current = world;
+  let steps = 0;
+  let checks = 0;
+  const contacts: PhysicsContact[] = [];
+
+  while (accumulator >= config.fixedDt && steps < config.maxSubSteps) {
+    const results = current.bodies.map((body) => stepBody(current, body, config));
+    current = { ...current, bodies: results.map(({ body }) => body) };
+    results.forEach((result) => {
+      contacts.push(...result.contacts);
+      checks += result.checks;
+    });
+    accumulator -= config.fixedDt;
+    steps++;
+  }
+
+  // 스텝 수 한도에 걸렸으면 밀린 시간은 버림 (느린 기기에서 따라잡으려다 더 느려지지 않도록)
+  if (steps === config.maxSubSteps) accumulator = Math.min(accumulator, config.fixedDt);
+
+  return {
+    world: { ...current, accumulator },
+    contacts: dedupeContacts(contacts),
+    steps,
+    checks,
+    alpha: accumulator / config.fixedDt,
+  };
+};
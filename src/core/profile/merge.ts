@@ -0,0 +1,170 @@
+import { getTotalStars } from "../game/challenge";
+import { flattenPaths, isRecord } from "../../utils/validation";
+import type { AchievementProgress, PlayerStats, PlayStreak } from "../../types/Achievement";
+import type { PatternCollection } from "../../types/Pattern";
+import type {
+  PlayerProfile,
+  ProfileMergeSummary,
+  SettingConflict,
+  UserSettings,
+} from "../../types/User";
+
+/* --- 프로필 병합 ---
+ * 로그인할 때 기기(게스트) 프로필을 계정 프로필에 합치는 순수 함수 모음입니다.
+ * 같은 입력이면 어느 기기에서 병합해도 같은 결과가 나오도록 순서에 의존하지 않는 규칙만 씁니다.
+ *
+ *   점수/누적 기록   큰 값 (이미 한 번 합쳐진 기록을 다시 합쳐도 두 번 더해지지 않도록 합계 대신 최댓값)
+ *   업적/도감       합집합 (달성/발견 시각은 이른 쪽)
+ *   챌린지 별점     스테이지별 큰 값
+ *   설정           값이 다르면 계정 설정 유지. 단, 계정 쪽이 기본값 그대로면 기기에서 바꾼 값 사용
+ */
+
+/* --- 설정 --- */
+
+// 경로의 값만 바꾼 새 객체
+const setPath = (target: unknown, [key, ...rest]: string[], value: unknown): unknown => {
+  if (!isRecord(target)) return target;
+  return { ...target, [key]: rest.length === 0 ? value : setPath(target[key], rest, value) };
+};
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const mergeSettings = (
+  local: UserSettings,
+  remote: UserSettings,
+  defaults: UserSettings,
+  prefer?: SettingConflict["chosen"] // 지정하면 모든 충돌을 한쪽으로 해결
+): { settings: UserSettings; conflicts: SettingConflict[] } => {
+  const remoteValues = new Map(flattenPaths(remote));
+  const defaultValues = new Map(flattenPaths(defaults));
+  let merged: unknown = remote;
+  const conflicts: SettingConflict[] = [];
+
+  flattenPaths(local).forEach(([path, localValue]) => {
+    if (path === "version" || !remoteValues.has(path)) return;
+    const remoteValue = remoteValues.get(path);
+    if (isEqual(localValue, remoteValue)) return;
+
+    const chosen =
+      prefer ?? (isEqual(remoteValue, defaultValues.get(path)) ? "local" : "remote");
+    conflicts.push({ path, local: localValue, remote: remoteValue, chosen });
+    if (chosen === "local") merged = setPath(merged, path.split("."), localValue);
+  });
+
+  return { settings: merged as UserSettings, conflicts };
+};
+
+/* --- 진행 상황 --- */
+
+const mergeStreak = (local: PlayStreak, remote: PlayStreak): PlayStreak => {
+  const localDay = local.lastDay ?? "";
+  const remoteDay = remote.lastDay ?? "";
+  const latest =
+    localDay === remoteDay
+      ? { lastDay: remote.lastDay, current: Math.max(local.current, remote.current) }
+      : localDay > remoteDay
+        ? local
+        : remote;
+  return { lastDay: latest.lastDay, current: latest.current, best: Math.max(local.best, remote.best) };
+};
+
+const mergeStats = (local: PlayerStats, remote: PlayerStats): PlayerStats => ({
+  gamesPlayed: Math.max(local.gamesPlayed, remote.gamesPlayed),
+  totalLines: Math.max(local.totalLines, remote.totalLines),
+  totalCellsCleared: Math.max(local.totalCellsCleared, remote.totalCellsCleared),
+  patternsCompleted: Math.max(local.patternsCompleted, remote.patternsCompleted),
+  discoveredPatterns: [
+    ...remote.discoveredPatterns,
+    ...local.discoveredPatterns.filter((id) => !remote.discoveredPatterns.includes(id)),
+  ],
+  bestScore: Math.max(local.bestScore, remote.bestScore),
+  maxCombo: Math.max(local.maxCombo, remote.maxCombo),
+  maxBackToBack: Math.max(local.maxBackToBack, remote.maxBackToBack),
+  challengeStars: Math.max(local.challengeStars, remote.challengeStars),
+  playStreak: mergeStreak(local.playStreak, remote.playStreak),
+});
+
+// 같은 키가 있으면 merge로 합치고, 없으면 있는 쪽 값 사용
+const mergeRecords = <T>(
+  local: Readonly<Record<string, T>>,
+  remote: Readonly<Record<string, T>>,
+  merge: (local: T, remote: T) => T
+): Record<string, T> => {
+  const result = { ...remote };
+  Object.entries(local).forEach(([key, value]) => {
+    result[key] = key in remote ? merge(value, remote[key]) : value;
+  });
+  return result;
+};
+
+const earlier = (a: string, b: string) => (a < b ? a : b);
+
+const mergeAchievements = (
+  local: AchievementProgress,
+  remote: AchievementProgress
+): AchievementProgress => ({
+  version: remote.version,
+  stats: mergeStats(local.stats, remote.stats),
+  unlocked: mergeRecords(local.unlocked, remote.unlocked, earlier),
+});
+
+const mergeCollections = (local: PatternCollection, remote: PatternCollection): PatternCollection =>
+  mergeRecords(local, remote, (a, b) => ({
+    count: Math.max(a.count, b.count),
+    firstFoundAt: earlier(a.firstFoundAt, b.firstFoundAt),
+  }));
+
+/* --- 프로필 --- */
+
+interface MergeOptions {
+  defaults: UserSettings; // 기본 설정 (계정 설정이 손대지 않은 값인지 판단)
+  now: string; // 병합 결과의 updatedAt
+  preferSettings?: SettingConflict["chosen"];
+}
+
+// 기기 프로필을 계정 프로필에 병합 (계정 프로필이 없으면 기기 프로필 그대로 사용)
+export const mergeProfiles = (
+  local: PlayerProfile,
+  remote: PlayerProfile | null,
+  { defaults, now, preferSettings }: MergeOptions
+): { profile: PlayerProfile; summary: ProfileMergeSummary } => {
+  const base = remote ?? { ...local, challengeStars: {}, patternCollection: {} };
+  const { settings, conflicts } = remote
+    ? mergeSettings(local.settings, remote.settings, defaults, preferSettings)
+    : { settings: local.settings, conflicts: [] };
+
+  const challengeStars = mergeRecords(local.challengeStars, base.challengeStars, Math.max);
+  const achievements = remote ? mergeAchievements(local.achievements, remote.achievements) : local.achievements;
+  const profile: PlayerProfile = {
+    version: local.version,
+    settings,
+    challengeStars,
+    achievements: {
+      ...achievements,
+      stats: { ...achievements.stats, challengeStars: getTotalStars(challengeStars) },
+    },
+    patternCollection: mergeCollections(local.patternCollection, base.patternCollection),
+    updatedAt: now,
+  };
+
+  const remoteUnlocked = remote?.achievements.unlocked ?? {};
+  const remoteBest = remote?.achievements.stats.bestScore ?? 0;
+  return {
+    profile,
+    summary: {
+      bestScore: {
+        local: local.achievements.stats.bestScore,
+        remote: remoteBest,
+        merged: profile.achievements.stats.bestScore,
+      },
+      achievementsAdded: Object.keys(profile.achievements.unlocked).filter(
+        (id) => !(id in remoteUnlocked)
+      ),
+      patternsAdded: Object.keys(profile.patternCollection).filter(
+        (id) => !(id in base.patternCollection)
+      ),
+      starsAdded: getTotalStars(challengeStars) - getTotalStars(base.challengeStars),
+      conflicts,
+    },
+  };
+};
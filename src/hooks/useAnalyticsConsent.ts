@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+import {
+  getAnalyticsConsent,
+  setAnalyticsConsent,
+  subscribeAnalyticsConsent,
+} from "../services/analytics";
+
+// 사용 통계 전송 동의 상태 구독
+export const useAnalyticsConsent = () => {
+  const consent = useSyncExternalStore(subscribeAnalyticsConsent, getAnalyticsConsent);
+  return { consent, setConsent: setAnalyticsConsent };
+};
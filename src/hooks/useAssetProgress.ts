@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import { getAssetProgress, subscribeAssets } from "../services/assets";
+
+// 리소스 로딩 진행 상황 구독 (로딩은 services/assets.ts의 loadAssets로 시작)
+export const useAssetProgress = () => useSyncExternalStore(subscribeAssets, getAssetProgress);
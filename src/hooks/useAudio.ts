@@ -0,0 +1,14 @@
+import { useEffect } from "react";
+import { useUserSettings } from "./useUserSettings";
+import { audioEngine, playMusic, playSound, stopMusic } from "../utils/sound";
+
+// 오디오 믹서 훅: 사용자 설정의 볼륨/음소거를 믹서에 반영하고 재생 함수를 돌려줍니다.
+export const useAudio = () => {
+  const { settings } = useUserSettings();
+
+  useEffect(() => {
+    audioEngine.setVolumes(settings.audio);
+  }, [settings.audio]);
+
+  return { playSound, playMusic, stopMusic };
+};
@@ -1,15 +1,16 @@
-import { useState, useEffect } from "react";
+import { useSyncExternalStore } from "react";
+import { AUTH_PROVIDERS, getAuthState, signIn, signOut, subscribeAuth } from "../services/auth";
 
-// 간단한 스텁: 현재 로그인 상태를 관리합니다.
-// 실제 구현 시에는 인증 API 호출 등으로 교체하면 됩니다.
+// 현재 로그인 상태와 로그인/로그아웃 함수 (모든 화면이 같은 세션을 공유)
 export const useAuth = () => {
-  const [user, setUser] = useState<any>(null);
+  const { session, isLoading, error } = useSyncExternalStore(subscribeAuth, getAuthState);
 
-  useEffect(() => {
-    // 테스트용: 초기에는 로그인되지 않은 상태로 둡니다.
-    // 나중에 실제 인증 로직에 따라 user 객체를 설정하세요.
-    setUser(null);
-  }, []);
-
-  return { user };
+  return {
+    user: session?.user ?? null,
+    isLoading,
+    error,
+    providers: AUTH_PROVIDERS,
+    signIn,
+    signOut,
+  };
 };
@@ -0,0 +1,139 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import {
+  REPEATABLE_ACTIONS,
+  countRepeats,
+  createInputMap,
+  normalizeKey,
+} from "../core/input/bindings";
+import { useUserSettings } from "./useUserSettings";
+import type { GameAction } from "../types/Game";
+
+interface UseBlockControlOptions {
+  onAction: (action: GameAction) => void;
+  enabled?: boolean;
+}
+
+// 누르고 있는 동작의 자동 반복 상태
+interface HeldAction {
+  since: number; // 누르기 시작한 시각
+  elapsed: number; // 마지막으로 반복을 계산한 시점의 경과 시간
+}
+
+// 한 화면 프레임에 보낼 수 있는 최대 반복 수 (탭 전환 후 몰아서 발생하는 것 방지)
+const MAX_REPEATS_PER_FRAME = 10;
+
+const OPPOSITE: Partial<Record<GameAction, GameAction>> = {
+  moveLeft: "moveRight",
+  moveRight: "moveLeft",
+};
+
+// 키보드 + 게임패드 입력을 게임 동작으로 변환합니다.
+// 배치와 DAS/ARR은 사용자 설정을 따르고, 이동/소프트 드롭은 누르고 있으면 자동 반복됩니다.
+export const useBlockControl = ({ onAction, enabled = true }: UseBlockControlOptions) => {
+  const { settings } = useUserSettings();
+  const { controls } = settings;
+  const [gamepadConnected, setGamepadConnected] = useState(false);
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+
+  const keyMap = useMemo(() => createInputMap(controls.keyboard, normalizeKey), [controls.keyboard]);
+  const buttonMap = useMemo(() => createInputMap(controls.gamepad), [controls.gamepad]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // 입력 출처("key:x", "pad0:14")별로 누르고 있는 동작
+    const pressed = new Map<string, GameAction>();
+    const held = new Map<GameAction, HeldAction>();
+    let rafId: number;
+
+    const press = (source: string, action: GameAction) => {
+      if (pressed.has(source)) return;
+      pressed.set(source, action);
+      onActionRef.current(action);
+      if (REPEATABLE_ACTIONS.includes(action) && !held.has(action)) {
+        held.set(action, { since: performance.now(), elapsed: 0 });
+        // 반대 방향은 다시 누를 때까지 반복 중지 (나중에 누른 방향 우선)
+        const opposite = OPPOSITE[action];
+        if (opposite) held.delete(opposite);
+      }
+    };
+
+    const release = (source: string) => {
+      const action = pressed.get(source);
+      if (!action) return;
+      pressed.delete(source);
+      if (![...pressed.values()].includes(action)) held.delete(action);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = keyMap.get(normalizeKey(e.key));
+      if (!action) return;
+      e.preventDefault();
+      if (!e.repeat) press(`key:${normalizeKey(e.key)}`, action); // OS 키 반복 대신 DAS/ARR 사용
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => release(`key:${normalizeKey(e.key)}`);
+
+    // 창 포커스를 잃으면 keyup을 받지 못하므로 모두 뗀 것으로 처리
+    const handleBlur = () => {
+      pressed.clear();
+      held.clear();
+    };
+
+    // 게임패드는 이벤트가 없어 매 프레임 버튼 상태를 읽음
+    const pollGamepads = () => {
+      const pads = navigator.getGamepads?.() ?? [];
+      for (const pad of pads) {
+        if (!pad) continue;
+        pad.buttons.forEach((button, index) => {
+          const source = `pad${pad.index}:${index}`;
+          const action = buttonMap.get(index);
+          if (!action) return;
+          if (button.pressed) press(source, action);
+          else release(source);
+        });
+      }
+    };
+
+    const loop = (time: number) => {
+      pollGamepads();
+      held.forEach((state, action) => {
+        const elapsed = time - state.since;
+        // 소프트 드롭은 지연 없이 ARR 간격으로 반복
+        const timing =
+          action === "softDrop" ? { das: controls.arr, arr: controls.arr } : controls;
+        const repeats = Math.min(countRepeats(state.elapsed, elapsed, timing), MAX_REPEATS_PER_FRAME);
+        state.elapsed = elapsed;
+        for (let i = 0; i < repeats; i++) onActionRef.current(action);
+      });
+      rafId = requestAnimationFrame(loop);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    rafId = requestAnimationFrame(loop);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+      cancelAnimationFrame(rafId);
+    };
+  }, [enabled, keyMap, buttonMap, controls]);
+
+  // 게임패드 연결 상태 (화면 안내용)
+  useEffect(() => {
+    const update = () =>
+      setGamepadConnected((navigator.getGamepads?.() ?? []).some((pad) => pad !== null));
+    update();
+    window.addEventListener("gamepadconnected", update);
+    window.addEventListener("gamepaddisconnected", update);
+    return () => {
+      window.removeEventListener("gamepadconnected", update);
+      window.removeEventListener("gamepaddisconnected", update);
+    };
+  }, []);
+
+  return { gamepadConnected };
+};
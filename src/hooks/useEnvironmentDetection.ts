@@ -0,0 +1,41 @@
+import { useState, useEffect } from "react";
+
+// 환경 감지 커스텀 훅
+export const useEnvironmentDetection = () => {
+  const [isDarkMode, setIsDarkMode] = useState(false);
+  const [isMobile, setIsMobile] = useState(false);
+  const [isEvening, setIsEvening] = useState(false);
+  
+  useEffect(() => {
+    // 다크모드 감지
+    const darkModeMediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
+    setIsDarkMode(darkModeMediaQuery.matches);
+    
+    const handleDarkModeChange = (e: MediaQueryListEvent) => {
+      setIsDarkMode(e.matches);
+    };
+    
+    darkModeMediaQuery.addEventListener('change', handleDarkModeChange);
+    
+    // 모바일 디바이스 감지
+    const mobileMediaQuery = window.matchMedia('(max-width: 768px)');
+    setIsMobile(mobileMediaQuery.matches);
+    
+    const handleMobileChange = (e: MediaQueryListEvent) => {
+      setIsMobile(e.matches);
+    };
+    
+    mobileMediaQuery.addEventListener('change', handleMobileChange);
+    
+    // 시간대 감지 (저녁/밤)
+    const currentHour = new Date().getHours();
+    setIsEvening(currentHour >= 18 || currentHour < 6);
+    
+    return () => {
+      darkModeMediaQuery.removeEventListener('change', handleDarkModeChange);
+      mobileMediaQuery.removeEventListener('change', handleMobileChange);
+    };
+  }, []);
+  
+  return { isDarkMode, isMobile, isEvening };
+};
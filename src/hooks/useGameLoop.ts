@@ -0,0 +1,175 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { advanceFrame, applyAction, createGame, endGame } from "../core/game/engine";
+import { createBagSource, SeededPieceSource } from "../core/game/randomizer";
+import { createRecorder, hashConfig, Recorder } from "../core/game/replay";
+import { GAME_CONFIG, GameConfig } from "../config/gameConfig";
+import { createSeed } from "../utils/random";
+import type { Board } from "../types/Block";
+import type { GameAction, GameEvent, GameState, Replay } from "../types/Game";
+
+interface UseGameLoopOptions {
+  config?: GameConfig;
+  seed?: number; // 지정하면 재시작해도 같은 조각 순서를 사용
+  createSource?: (seed: number) => SeededPieceSource; // 기본값: 7-bag
+  board?: Board; // 시작 보드 (챌린지 등)
+  onEvents?: (events: GameEvent[], state: GameState) => void;
+}
+
+// 재생 중인 리플레이와 다음에 적용할 입력 위치
+interface Playback {
+  replay: Replay;
+  cursor: number;
+}
+
+// 고정 프레임 게임 루프: 입력은 다음 프레임 시작 시 순서대로 적용됩니다.
+// 모든 플레이어 입력은 프레임 번호와 함께 녹화되며, 리플레이 재생 시에는
+// 녹화된 입력을 같은 프레임에 다시 적용합니다.
+export const useGameLoop = ({
+  config = GAME_CONFIG,
+  seed,
+  createSource = createBagSource,
+  board,
+  onEvents,
+}: UseGameLoopOptions = {}) => {
+  const sourceRef = useRef<SeededPieceSource>();
+  const recorderRef = useRef<Recorder>();
+  if (!sourceRef.current) {
+    sourceRef.current = createSource(seed ?? createSeed());
+    recorderRef.current = createRecorder(sourceRef.current.seed, config);
+  }
+
+  const [state, setState] = useState<GameState>(() =>
+    createGame(sourceRef.current!, config, board)
+  );
+  const [isReplay, setIsReplay] = useState(false);
+  const stateRef = useRef<GameState>(state);
+  const actionQueueRef = useRef<GameAction[]>([]);
+  const playbackRef = useRef<Playback | null>(null);
+  const onEventsRef = useRef(onEvents);
+  onEventsRef.current = onEvents;
+
+  useEffect(() => {
+    const frameMs = 1000 / config.fps;
+    let rafId: number;
+    let lastTime: number | null = null;
+    let accumulator = 0;
+
+    const loop = (time: number) => {
+      if (lastTime === null) lastTime = time;
+      // 탭 전환 등으로 생긴 긴 공백은 최대 0.25초까지만 따라잡음
+      accumulator += Math.min(time - lastTime, 250);
+      lastTime = time;
+
+      const source = sourceRef.current!;
+      let current = stateRef.current;
+      const events: GameEvent[] = [];
+
+      const apply = (action: GameAction) => {
+        const result = applyAction(current, action, source, config);
+        current = result.state;
+        events.push(...result.events);
+      };
+
+      while (accumulator >= frameMs) {
+        accumulator -= frameMs;
+
+        const playback = playbackRef.current;
+        if (playback) {
+          // 재생 중에는 플레이어 입력 대신 녹화된 입력을 사용
+          actionQueueRef.current = [];
+          const { inputs } = playback.replay;
+          while (playback.cursor < inputs.length && inputs[playback.cursor].frame <= current.frame) {
+            apply(inputs[playback.cursor].action);
+            playback.cursor++;
+          }
+        } else {
+          const actions = actionQueueRef.current;
+          actionQueueRef.current = [];
+          for (const action of actions) {
+            recorderRef.current!.record(current.frame, action);
+            apply(action);
+          }
+        }
+
+        const result = advanceFrame(current, source, config);
+        current = result.state;
+        events.push(...result.events);
+      }
+
+      if (current !== stateRef.current) {
+        stateRef.current = current;
+        setState(current);
+      }
+      if (events.length > 0) onEventsRef.current?.(events, current);
+
+      rafId = requestAnimationFrame(loop);
+    };
+
+    rafId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(rafId);
+  }, [config]);
+
+  // 입력 동작을 다음 프레임에 적용하도록 대기열에 추가
+  const dispatch = useCallback((action: GameAction) => {
+    actionQueueRef.current.push(action);
+  }, []);
+
+  // 시드로 새 게임 상태를 만들고 녹화/재생 상태 초기화
+  const start = useCallback(
+    (nextSeed: number, playback: Playback | null) => {
+      sourceRef.current = playback ? createBagSource(nextSeed) : createSource(nextSeed);
+      recorderRef.current = createRecorder(nextSeed, config);
+      playbackRef.current = playback;
+      actionQueueRef.current = [];
+      setIsReplay(playback !== null);
+
+      const fresh = createGame(sourceRef.current, config, playback ? undefined : board);
+      stateRef.current = fresh;
+      setState(fresh);
+    },
+    [config, createSource, board]
+  );
+
+  // 새 게임 시작
+  const restart = useCallback(() => {
+    start(seed ?? createSeed(), null);
+  }, [seed, start]);
+
+  // 리플레이 재생 (녹화 당시와 설정이 다르면 재생하지 않고 false 반환)
+  const playReplay = useCallback(
+    (replay: Replay): boolean => {
+      if (replay.configHash !== hashConfig(config)) {
+        console.warn("Replay config mismatch:", replay.configHash, hashConfig(config));
+        return false;
+      }
+      start(replay.seed, { replay, cursor: 0 });
+      return true;
+    },
+    [config, start]
+  );
+
+  // 외부 조건(챌린지 성공/실패 등)으로 게임 종료
+  const finish = useCallback(() => {
+    const ended = endGame(stateRef.current);
+    if (ended === stateRef.current) return;
+    stateRef.current = ended;
+    setState(ended);
+  }, []);
+
+  // 현재 게임의 입력 기록을 리플레이로 변환
+  const getReplay = useCallback(
+    (): Replay => recorderRef.current!.finish(stateRef.current),
+    []
+  );
+
+  return {
+    state,
+    dispatch,
+    restart,
+    playReplay,
+    getReplay,
+    finish,
+    isReplay,
+    seed: sourceRef.current.seed,
+  };
+};
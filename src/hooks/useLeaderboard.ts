@@ -0,0 +1,59 @@
+import { useState, useEffect, useMemo, useSyncExternalStore } from "react";
+import { LEADERBOARD_CONFIG } from "../config/leaderboard";
+import { leaderboard } from "../services/leaderboard";
+import { useAuth } from "./useAuth";
+import { getCurrentPlayer } from "../store/player";
+import type { ApiFailure } from "../services/api";
+import type { MessageKey } from "../types/I18n";
+import type { LeaderboardBoard, LeaderboardEntry, LeaderboardPage } from "../types/Leaderboard";
+
+interface UseLeaderboardOptions {
+  page: number;
+  day?: string; // daily 순위표의 날짜
+}
+
+// 조회 실패 안내 문구의 키
+const describeFailure = (failure: ApiFailure): MessageKey =>
+  failure.kind === "network" ? "leaderboard.error.network" : "leaderboard.error.generic";
+
+// 순위표 한 페이지와 내 순위 조회 (전송 대기 중인 기록이 처리되면 다시 조회)
+export const useLeaderboard = (board: LeaderboardBoard, { page, day }: UseLeaderboardOptions) => {
+  const { user } = useAuth();
+  // 로그인/로그아웃하면 "내 순위" 기준도 바뀜
+  const player = useMemo(() => (user ? { id: user.id, name: user.name } : getCurrentPlayer()), [user]);
+  const [data, setData] = useState<LeaderboardPage | null>(null);
+  const [myRank, setMyRank] = useState<LeaderboardEntry | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const pendingCount = useSyncExternalStore(
+    leaderboard.subscribePending,
+    leaderboard.getPendingCount
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    const query = { board, playerId: player.id, day };
+    Promise.all([
+      leaderboard.fetchPage({ ...query, page, pageSize: LEADERBOARD_CONFIG.pageSize }),
+      leaderboard.fetchMyRank(query),
+    ]).then(([pageResult, rankResult]) => {
+      if (cancelled) return;
+      if (pageResult.ok) setData(pageResult.value);
+      else setError(describeFailure(pageResult.error));
+      setMyRank(rankResult.ok ? rankResult.value : null);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [board, page, day, player.id, pendingCount, reloadKey]);
+
+  const reload = () => setReloadKey((key) => key + 1);
+
+  return { player, data, myRank, isLoading, error, pendingCount, reload };
+};
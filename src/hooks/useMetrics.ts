@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from "react";
+import {
+  getMetricsSnapshot,
+  isMetricsEnabled,
+  setMetricsEnabled,
+  subscribeMetrics,
+} from "../services/metrics";
+
+// 성능 측정 오버레이 상태와 최근 요약 구독
+export const useMetrics = () => {
+  const enabled = useSyncExternalStore(subscribeMetrics, isMetricsEnabled);
+  const snapshot = useSyncExternalStore(subscribeMetrics, getMetricsSnapshot);
+  return { enabled, snapshot, setEnabled: setMetricsEnabled };
+};
@@ -0,0 +1,22 @@
+import { RefObject, useEffect } from "react";
+import { registerObstacle } from "../utils/obstacles";
+import type { ObstacleOptions } from "../utils/obstacles";
+import type { Polygon } from "../types/Physics";
+
+// ref 요소를 물리 장애물로 등록 (옵션이 바뀌면 다시 등록, 언마운트 시 해제)
+// shape는 렌더링마다 새 배열로 넘어와도 좌표가 같으면 다시 등록하지 않도록 문자열로 비교
+export const useObstacle = <T extends HTMLElement>(
+  ref: RefObject<T>,
+  { material, restOffsetY, shape }: ObstacleOptions,
+  enabled = true
+) => {
+  const shapeKey = shape ? JSON.stringify(shape) : null;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!enabled || !element) return;
+    const options: ObstacleOptions = { material, restOffsetY };
+    if (shapeKey) options.shape = JSON.parse(shapeKey) as Polygon;
+    return registerObstacle(element, options);
+  }, [ref, material, restOffsetY, shapeKey, enabled]);
+};
@@ -0,0 +1,63 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { getPatternName } from "../core/patterns/templates";
+import type { GameEvent } from "../types/Game";
+import type { PatternMatch } from "../types/Pattern";
+import type { Locale } from "../types/User";
+
+// 화면에 강조 표시 중인 실루엣
+export interface DetectedPattern extends PatternMatch {
+  key: number;
+  name: string;
+}
+
+interface UsePatternDetectOptions {
+  highlightMs?: number; // 강조 표시 유지 시간
+  locale?: Locale; // 실루엣 이름 표시 언어
+  onPattern?: (pattern: DetectedPattern) => void;
+}
+
+// 엔진의 pattern 이벤트를 받아 강조 표시와 알림용 상태로 변환
+export const usePatternDetect = ({
+  highlightMs = 1500,
+  locale = "ko",
+  onPattern,
+}: UsePatternDetectOptions = {}) => {
+  const [detected, setDetected] = useState<DetectedPattern[]>([]);
+  const keyRef = useRef(0);
+  const timersRef = useRef<number[]>([]);
+  const onPatternRef = useRef(onPattern);
+  onPatternRef.current = onPattern;
+
+  const handleEvents = useCallback(
+    (events: GameEvent[]) => {
+      events.forEach((event) => {
+        if (event.type !== "pattern") return;
+        const pattern: DetectedPattern = {
+          patternId: event.patternId,
+          cells: event.cells,
+          key: keyRef.current++,
+          name: getPatternName(event.patternId, locale),
+        };
+
+        setDetected((prev) => [...prev, pattern]);
+        onPatternRef.current?.(pattern);
+
+        const timer = window.setTimeout(() => {
+          setDetected((prev) => prev.filter((p) => p.key !== pattern.key));
+        }, highlightMs);
+        timersRef.current.push(timer);
+      });
+    },
+    [highlightMs, locale]
+  );
+
+  // 언마운트 시 남은 타이머 정리
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  const clear = useCallback(() => setDetected([]), []);
+
+  return { detected, handleEvents, clear };
+};
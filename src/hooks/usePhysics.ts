@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { CHARACTER_PHYSICS } from "../config/physics";
+import {
+  createBody,
+  createWorld,
+  getInterpolatedPosition,
+  isAtRest,
+  setColliders,
+  stepWorld,
+  teleportBody,
+  updateBody,
+} from "../core/physics/engine";
+import { captureError } from "../services/error";
+import { recordCount, recordTiming } from "../services/metrics";
+import type {
+  PhysicsBody,
+  PhysicsConfig,
+  PhysicsContact,
+  PhysicsWorld,
+  Size,
+  StaticCollider,
+  Vec2,
+} from "../types/Physics";
+
+// 매 프레임 읽어 오는 정보 (레이아웃을 다시 계산하지 않도록 캐시한 값을 넘겨야 함)
+export interface PhysicsSensing {
+  bounds: Size;
+  colliders: StaticCollider[]; // 바뀌지 않았으면 같은 배열 (바뀐 경우에만 격자를 다시 만듦)
+  size: Size; // 물체 크기
+}
+
+export interface PhysicsFrame {
+  position: Vec2; // 그릴 위치 (보간 적용)
+  contacts: PhysicsContact[];
+}
+
+interface UsePhysicsOptions {
+  initialPosition: Vec2;
+  config?: PhysicsConfig;
+  sense: () => PhysicsSensing;
+  onFrame: (frame: PhysicsFrame) => void;
+}
+
+const BODY_ID = "body";
+
+// 물체 하나를 물리 엔진으로 움직이는 프레임 루프 (멈추면 루프도 쉼)
+// 드래그 중에는 setKinematic(true)로 시뮬레이션을 멈추고 setPosition으로 직접 옮깁니다.
+export const usePhysics = ({
+  initialPosition,
+  config = CHARACTER_PHYSICS,
+  sense,
+  onFrame,
+}: UsePhysicsOptions) => {
+  const worldRef = useRef<PhysicsWorld>(
+    createWorld({ width: 0, height: 0 }, [createBody(BODY_ID, initialPosition, { width: 0, height: 0 })])
+  );
+  const frameRef = useRef<number | null>(null);
+  const lastTimeRef = useRef<number | null>(null);
+  const senseRef = useRef(sense);
+  senseRef.current = sense;
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+
+  const getBody = useCallback((): PhysicsBody => worldRef.current.bodies[0], []);
+
+  const stop = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    lastTimeRef.current = null;
+  }, []);
+
+  const tick = useCallback(
+    (time: number) => {
+      const startedAt = performance.now();
+      try {
+        const frameDt = lastTimeRef.current === null ? 0 : (time - lastTimeRef.current) / 1000;
+        lastTimeRef.current = time;
+
+        const { bounds, colliders, size } = senseRef.current();
+        const world =
+          colliders === worldRef.current.colliders
+            ? worldRef.current
+            : setColliders(worldRef.current, colliders, config.cellSize);
+        const sensed = updateBody({ ...world, bounds }, BODY_ID, (body) => ({ ...body, size }));
+        const result = stepWorld(sensed, frameDt, config);
+        worldRef.current = result.world;
+        recordCount("collisionChecks", result.checks);
+
+        // 스텝을 한 번도 안 한 프레임은 판단하지 않음 (공중에 멈춰 있던 물체도 중력을 받아야 함)
+        const resting = result.steps > 0 && isAtRest(result.world, result.contacts, config);
+        onFrameRef.current({
+          // 멈췄으면 보간 없이 최종 위치
+          position: resting ? getBody().position : getInterpolatedPosition(getBody(), result.alpha),
+          contacts: result.contacts,
+        });
+        frameRef.current = resting ? null : requestAnimationFrame(tick);
+        if (resting) lastTimeRef.current = null;
+      } catch (err) {
+        // 물리 계산 오류는 보고하고 물체만 멈춤 (화면은 계속 사용 가능)
+        captureError(err, "physicsStep");
+        worldRef.current = updateBody(worldRef.current, BODY_ID, (body) => ({
+          ...body,
+          velocity: { x: 0, y: 0 },
+        }));
+        stop();
+      } finally {
+        recordTiming("physics", performance.now() - startedAt);
+      }
+    },
+    [config, getBody, stop]
+  );
+
+  // 루프가 쉬고 있으면 다시 시작
+  const wake = useCallback(() => {
+    if (frameRef.current === null && !getBody().kinematic) {
+      frameRef.current = requestAnimationFrame(tick);
+    }
+  }, [getBody, tick]);
+
+  const setPosition = useCallback((position: Vec2) => {
+    worldRef.current = updateBody(worldRef.current, BODY_ID, (body) => teleportBody(body, position));
+  }, []);
+
+  const setKinematic = useCallback(
+    (kinematic: boolean) => {
+      worldRef.current = updateBody(worldRef.current, BODY_ID, (body) => ({ ...body, kinematic }));
+      if (kinematic) stop();
+      else wake();
+    },
+    [stop, wake]
+  );
+
+  const updateVelocity = useCallback(
+    (updater: (velocity: Vec2) => Vec2) => {
+      worldRef.current = updateBody(worldRef.current, BODY_ID, (body) => ({
+        ...body,
+        velocity: updater(body.velocity),
+      }));
+      wake();
+    },
+    [wake]
+  );
+
+  useEffect(() => stop, [stop]);
+
+  return useMemo(
+    () => ({ getBody, setPosition, setKinematic, updateVelocity, wake }),
+    [getBody, setPosition, setKinematic, updateVelocity, wake]
+  );
+};
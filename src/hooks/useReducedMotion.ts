@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from "react";
+import { useUserSettings } from "./useUserSettings";
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+const subscribeSystemMotion = (listener: () => void) => {
+  const media = window.matchMedia(REDUCED_MOTION_QUERY);
+  media.addEventListener("change", listener);
+  return () => media.removeEventListener("change", listener);
+};
+
+const getSystemReducedMotion = () => window.matchMedia(REDUCED_MOTION_QUERY).matches;
+
+// 움직임을 줄여야 하는지 (환경설정이 system이면 운영체제 설정을 따르고, 바뀌면 바로 반영)
+export const useReducedMotion = (): boolean => {
+  const { settings } = useUserSettings();
+  const systemReduced = useSyncExternalStore(subscribeSystemMotion, getSystemReducedMotion);
+  return settings.motion === "system" ? systemReduced : settings.motion === "reduced";
+};
@@ -0,0 +1,58 @@
+import { KeyboardEvent, useCallback, useState } from "react";
+
+type Orientation = "vertical" | "horizontal";
+
+const NEXT_KEYS: Record<Orientation, string> = { vertical: "ArrowDown", horizontal: "ArrowRight" };
+const PREV_KEYS: Record<Orientation, string> = { vertical: "ArrowUp", horizontal: "ArrowLeft" };
+
+// 목록 안에서 방향키로 포커스 이동 (Tab으로는 목록 전체가 한 칸만 차지)
+// 목록이 처리한 키는 전파를 막아 창 전체의 게임 조작(useBlockControl)으로 넘어가지 않게 합니다.
+export const useRovingFocus = (count: number, orientation: Orientation = "vertical") => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const current = Math.min(activeIndex, Math.max(0, count - 1));
+
+  const onKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLElement>) => {
+      const items = Array.from(
+        e.currentTarget.querySelectorAll<HTMLElement>("[data-roving-item]")
+      );
+      if (items.length === 0) return;
+
+      const focused = items.findIndex((item) => item === document.activeElement);
+      // 버튼 실행 키는 기본 동작을 살리고 전파만 막음
+      if (focused !== -1 && (e.key === "Enter" || e.key === " ")) {
+        e.stopPropagation();
+        return;
+      }
+
+      const from = focused === -1 ? current : focused;
+      let next: number;
+      if (e.key === NEXT_KEYS[orientation]) next = (from + 1) % items.length;
+      else if (e.key === PREV_KEYS[orientation]) next = (from - 1 + items.length) % items.length;
+      else if (e.key === "Home") next = 0;
+      else if (e.key === "End") next = items.length - 1;
+      else return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      setActiveIndex(next);
+      items[next].focus();
+    },
+    [current, orientation]
+  );
+
+  // 각 항목에 펼쳐 넣을 속성
+  const getItemProps = useCallback(
+    (index: number) => ({
+      "data-roving-item": true,
+      tabIndex: index === current ? 0 : -1,
+      onFocus: () => setActiveIndex(index),
+    }),
+    [current]
+  );
+
+  return {
+    containerProps: { onKeyDown, "aria-orientation": orientation },
+    getItemProps,
+  };
+};
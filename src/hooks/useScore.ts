@@ -0,0 +1,60 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { SCORING_RULES, ScoringRules } from "../config/gameConfig";
+import { applyScoreEvents, createScoreState } from "../utils/scoring";
+import type { GameEvent, ScoreDelta, ScoreState } from "../types/Game";
+
+// 화면에 떠 있는 점수 변화 표시
+export type ScorePopup = ScoreDelta & { key: number };
+
+interface UseScoreOptions {
+  rules?: ScoringRules;
+  popupMs?: number; // 점수 변화 표시 유지 시간
+}
+
+// 엔진 이벤트를 점수로 환산하고, 점수 변화 표시용 상태를 관리
+export const useScore = ({ rules = SCORING_RULES, popupMs = 900 }: UseScoreOptions = {}) => {
+  const [score, setScore] = useState<ScoreState>(createScoreState);
+  const [popups, setPopups] = useState<ScorePopup[]>([]);
+  // 게임 종료 시 리플레이 저장처럼 같은 이벤트 처리 안에서 최신 점수가 필요해 ref로도 보관
+  const scoreRef = useRef(score);
+  const keyRef = useRef(0);
+  const timersRef = useRef<number[]>([]);
+
+  // 이벤트 반영 후 최신 점수 상태 반환
+  const handleEvents = useCallback(
+    (events: GameEvent[], level: number): ScoreState => {
+      const result = applyScoreEvents(scoreRef.current, events, level, rules);
+      if (result.state === scoreRef.current) return result.state;
+      scoreRef.current = result.state;
+      setScore(result.state);
+
+      // 드롭 점수는 매번 나와 표시하지 않음
+      const shown: ScorePopup[] = result.deltas
+        .filter((delta) => delta.reason !== "drop")
+        .map((delta) => ({ ...delta, key: keyRef.current++ }));
+      if (shown.length === 0) return result.state;
+
+      setPopups((prev) => [...prev, ...shown]);
+      const timer = window.setTimeout(() => {
+        setPopups((prev) => prev.filter((popup) => !shown.includes(popup)));
+      }, popupMs);
+      timersRef.current.push(timer);
+      return result.state;
+    },
+    [rules, popupMs]
+  );
+
+  // 언마운트 시 남은 타이머 정리
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  const reset = useCallback(() => {
+    scoreRef.current = createScoreState();
+    setScore(scoreRef.current);
+    setPopups([]);
+  }, []);
+
+  return { score, popups, handleEvents, reset };
+};
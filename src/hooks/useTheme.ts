@@ -0,0 +1,11 @@
+import { useMemo } from "react";
+import { useEnvironmentDetection } from "./useEnvironmentDetection";
+import { useUserSettings } from "./useUserSettings";
+import { resolveTheme } from "../utils/theme";
+
+// 환경설정과 시간대에 따라 지금 적용할 테마
+export const useTheme = () => {
+  const { settings } = useUserSettings();
+  const { isEvening } = useEnvironmentDetection();
+  return useMemo(() => resolveTheme(settings.theme, isEvening), [settings.theme, isEvening]);
+};
@@ -0,0 +1,59 @@
+import { useEffect, useRef, RefObject } from "react";
+import { createGestureRecognizer } from "../core/input/gestures";
+import { useUserSettings } from "./useUserSettings";
+import type { Point } from "../types/Block";
+import type { GameAction } from "../types/Game";
+
+interface UseTouchControlOptions {
+  onAction: (action: GameAction) => void;
+  enabled?: boolean;
+}
+
+const toPoints = (touches: TouchList): Point[] =>
+  Array.from(touches, (touch) => ({ x: touch.clientX, y: touch.clientY }));
+
+// 요소 위의 터치 제스처를 게임 동작으로 변환 (임계값은 환경설정의 터치 설정)
+export const useTouchControl = (
+  targetRef: RefObject<HTMLElement>,
+  { onAction, enabled = true }: UseTouchControlOptions
+) => {
+  const { settings } = useUserSettings();
+  const { swipeStepPx, flickVelocity, tapMaxMs } = settings.controls.touch;
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+
+  useEffect(() => {
+    const target = targetRef.current;
+    if (!target || !enabled) return;
+
+    const recognizer = createGestureRecognizer({ swipeStepPx, flickVelocity, tapMaxMs });
+    const emit = (actions: GameAction[]) => actions.forEach((action) => onActionRef.current(action));
+
+    // 스크롤/확대 등 브라우저 기본 동작을 막기 위해 passive: false로 등록
+    const handleStart = (e: TouchEvent) => {
+      e.preventDefault();
+      emit(recognizer.start(toPoints(e.touches), e.timeStamp));
+    };
+    const handleMove = (e: TouchEvent) => {
+      e.preventDefault();
+      emit(recognizer.move(toPoints(e.touches), e.timeStamp));
+    };
+    const handleEnd = (e: TouchEvent) => {
+      e.preventDefault();
+      emit(recognizer.end(e.touches.length, e.timeStamp));
+    };
+    const handleCancel = () => recognizer.cancel();
+
+    const options = { passive: false };
+    target.addEventListener("touchstart", handleStart, options);
+    target.addEventListener("touchmove", handleMove, options);
+    target.addEventListener("touchend", handleEnd, options);
+    target.addEventListener("touchcancel", handleCancel);
+    return () => {
+      target.removeEventListener("touchstart", handleStart);
+      target.removeEventListener("touchmove", handleMove);
+      target.removeEventListener("touchend", handleEnd);
+      target.removeEventListener("touchcancel", handleCancel);
+    };
+  }, [targetRef, enabled, swipeStepPx, flickVelocity, tapMaxMs]);
+};
@@ -0,0 +1,12 @@
+import { useMemo, useSyncExternalStore } from "react";
+import { getI18nState, subscribeI18n, translateWith } from "../services/i18n";
+import type { Translate } from "../types/I18n";
+
+// 지금 언어와 번역 함수 (언어 카탈로그를 다 받으면 다시 렌더링)
+export const useTranslation = () => {
+  const i18n = useSyncExternalStore(subscribeI18n, getI18nState);
+  return useMemo(() => {
+    const t: Translate = (key, values) => translateWith(i18n, key, values);
+    return { locale: i18n.locale, t };
+  }, [i18n]);
+};
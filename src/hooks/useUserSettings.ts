@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from "react";
+import { getSettings, subscribeSettings, updateSettings } from "../store/userSettings";
+
+// 사용자 설정 구독: 어느 화면에서 바꾸든 모든 컴포넌트에 바로 반영됩니다.
+export const useUserSettings = () => {
+  const settings = useSyncExternalStore(subscribeSettings, getSettings);
+  return { settings, updateSettings };
+};
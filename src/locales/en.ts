@@ -0,0 +1,272 @@
+import type { Catalog } from "../types/I18n";
+
+/* --- English --- */
+
+const en: Catalog = {
+  /* 공통 */
+  "common.backToTitle": "Back to title",
+  "common.retry": "Try again",
+  "common.copyDiagnostics": "Copy diagnostics",
+  "common.copyFailed": "Couldn't copy to the clipboard.",
+  "common.none": "None",
+  "common.on": "On",
+  "common.off": "Off",
+  "common.ok": "OK",
+  "common.stars": "{count, plural, one {# star} other {# stars}}",
+
+  /* 게임 동작 */
+  "action.moveLeft": "Move left",
+  "action.moveRight": "Move right",
+  "action.softDrop": "Soft drop",
+  "action.hardDrop": "Hard drop",
+  "action.rotateCW": "Rotate clockwise",
+  "action.rotateCCW": "Rotate counterclockwise",
+  "action.hold": "Hold",
+  "action.pause": "Pause",
+
+  /* 타이틀 */
+  "title.screen": "7Drops title screen",
+  "title.loadingScreen": "7Drops loading screen",
+  "title.loading": "Loading game assets... {percent}%",
+  "title.menu": "Main menu",
+  "title.menu.game": "Play",
+  "title.menu.game.label": "Start a game",
+  "title.menu.challenges": "Challenges",
+  "title.menu.challenges.label": "Open challenge mode",
+  "title.menu.leaderboard": "Leaderboard",
+  "title.menu.leaderboard.label": "Open the leaderboard",
+  "title.menu.achievements": "Achievements",
+  "title.menu.achievements.label": "Open achievements",
+  "title.menu.settings": "Settings",
+  "title.menu.settings.label": "Open settings",
+  "title.character": "Draggable character",
+  "title.cursorDrag": "Drag",
+  "title.soundOn": "Turn sound on",
+  "title.soundOff": "Turn sound off",
+
+  /* 게임 화면 */
+  "game.screen": "7Drops game screen",
+  "game.board": "Game board",
+  "game.patternComplete": "{name} complete!",
+  "game.newBest": "New best score!",
+  "game.retryChallenge": "Try again",
+  "game.playAgain": "Play again",
+  "game.nextStage": "Next stage",
+  "game.watchLast": "Watch replay",
+  "game.watchBest": "Watch best run",
+  "game.resume": "Resume",
+  "game.daily": "Daily challenge {day}",
+  "game.seed": "Game seed",
+  "game.gamepadConnected": "Gamepad connected",
+  "game.pause": "Pause",
+  "game.exit": "Back to title",
+  "game.replayMissing": "No saved replay.",
+  "game.replayMismatch": "This replay can't be played because the game settings have changed.",
+  "game.loss.drops": "You ran out of pieces.",
+  "game.loss.time": "Time's up.",
+  "game.loss.gameOver": "The board is full.",
+
+  /* 스크린 리더 알림 */
+  "announce.pattern": "Silhouette complete: {name}",
+  "announce.lines": "{count, plural, one {# line cleared} other {# lines cleared}}",
+  "announce.areas": "{count, plural, one {# area cleared} other {# areas cleared}}",
+  "announce.gameOver": "Game over. Score {score, number}",
+  "announce.challengeWon": "Challenge cleared! {stars, plural, one {# star} other {# stars}}",
+  "announce.challengeLost": "Challenge failed. {reason}",
+
+  /* 점수판 */
+  "score.title": "Score",
+  "score.multiplier": "Back-to-back multiplier",
+  "score.comboActive": "{combo} combo",
+  "score.hardDrop": "Hard drop",
+  "score.softDrop": "Soft drop",
+  "score.lines": "{count, plural, one {# line} other {# lines}}",
+  "score.areas": "{count, plural, one {# area} other {# areas}}",
+  "score.combo": "{combo} combo",
+  "score.level": "Level",
+  "score.lineCount": "Lines",
+  "score.cellsCleared": "Cells",
+  "score.patterns": "Silhouettes",
+
+  /* 챌린지 */
+  "challenge.screen": "Challenge select screen",
+  "challenge.title": "Challenges",
+  "challenge.dropsLeft": "{count, plural, one {# piece left} other {# pieces left}}",
+  "challenge.secondsLeft": "{count}s",
+
+  /* 챌린지 스테이지 (config/gameConfig.ts) */
+  "challenge.first-fish.title": "First fish",
+  "challenge.first-fish.description": "Complete the fish silhouette within 7 pieces.",
+  "challenge.triangles-only.title": "Triangle time",
+  "challenge.triangles-only.description": "Clear 20 cells using only triangle pieces.",
+  "challenge.speed-lines.title": "Speed lines",
+  "challenge.speed-lines.description": "Clear 4 lines within 90 seconds.",
+  "challenge.star-builder.title": "Star builder",
+  "challenge.star-builder.description": "Complete the star silhouette within 12 pieces.",
+  "challenge.score-attack.title": "Score attack",
+  "challenge.score-attack.description":
+    "Score 5,000 points within 2 minutes. Combos and back-to-back bonuses are the key.",
+
+  /* 순위표 */
+  "leaderboard.screen": "Leaderboard screen",
+  "leaderboard.title": "Leaderboard",
+  "leaderboard.tab.global": "All time",
+  "leaderboard.tab.daily": "Daily",
+  "leaderboard.tab.friends": "Friends",
+  "leaderboard.playDaily": "Play {day}",
+  "leaderboard.rank": "Rank",
+  "leaderboard.player": "Player",
+  "leaderboard.score": "Score",
+  "leaderboard.lines": "Lines",
+  "leaderboard.loading": "Loading...",
+  "leaderboard.empty": "No scores yet.",
+  "leaderboard.prevPage": "Previous page",
+  "leaderboard.nextPage": "Next page",
+  "leaderboard.pending":
+    "{count, plural, one {# score} other {# scores}} waiting to be sent (they'll be sent once you're online)",
+  "leaderboard.error.network": "Can't reach the server. Please check your connection.",
+  "leaderboard.error.generic": "Couldn't load the leaderboard.",
+
+  /* 업적 */
+  "achievements.screen": "Achievements screen",
+  "achievements.title": "Achievements",
+  "achievements.progress": "{unlocked} / {total} unlocked",
+  "achievements.hidden": "Hidden achievement.",
+  "achievements.achievedAt": "Unlocked {date}",
+  "achievements.toast": "Achievement unlocked!",
+  "achievements.toastLabel": "Achievement unlocked: {title} (dismiss)",
+
+  /* 업적 목록 (config/achievements.ts) */
+  "achievements.first-game.title": "First drop",
+  "achievements.first-game.description": "Play a game to the end.",
+  "achievements.first-pattern.title": "First silhouette",
+  "achievements.first-pattern.description": "Complete your first silhouette.",
+  "achievements.pattern-5.title": "Silhouette explorer",
+  "achievements.pattern-5.description": "Complete 5 silhouettes.",
+  "achievements.pattern-collector.title": "Silhouette collector",
+  "achievements.pattern-collector.description": "Find all 3 different silhouettes.",
+  "achievements.combo-5.title": "Chain reaction",
+  "achievements.combo-5.description": "Reach a 5 combo.",
+  "achievements.combo-10.title": "Unstoppable stream",
+  "achievements.combo-10.description": "Reach a 10 combo.",
+  "achievements.back-to-back-3.title": "Back to back",
+  "achievements.back-to-back-3.description": "Pull off 3 difficult clears in a row.",
+  "achievements.lines-100.title": "River of a hundred lines",
+  "achievements.lines-100.description": "Clear 100 lines in total.",
+  "achievements.score-10000.title": "Ten thousand",
+  "achievements.score-10000.description": "Score 10,000 points in one game.",
+  "achievements.challenge-stars-10.title": "Star collector",
+  "achievements.challenge-stars-10.description": "Collect 10 stars in challenges.",
+  "achievements.daily-7.title": "A week of drops",
+  "achievements.daily-7.description": "Play 7 days in a row.",
+
+  /* 환경설정 */
+  "settings.screen": "Settings screen",
+  "settings.title": "Settings",
+  "settings.sound": "Sound",
+  "settings.music": "Music",
+  "settings.sfx": "Sound effects",
+  "settings.mute": "Mute",
+  "settings.display": "Display and feedback",
+  "settings.haptics": "Vibration",
+  "settings.customCursor": "Custom cursor (off uses the system cursor)",
+  "settings.motion": "Motion",
+  "settings.motion.system": "Follow system setting",
+  "settings.motion.reduced": "Reduced",
+  "settings.motion.full": "Full",
+  "settings.theme": "Theme",
+  "settings.theme.auto": "Auto (night theme in the evening)",
+  "settings.theme.classic": "Classic",
+  "settings.theme.night": "Night",
+  "settings.theme.light": "Light",
+  "settings.theme.highContrast": "High contrast",
+  "settings.theme.deuteranopia": "Color vision (deuteranopia)",
+  "settings.theme.protanopia": "Color vision (protanopia)",
+  "settings.language": "Language",
+  "settings.touch": "Touch controls",
+  "settings.touch.help":
+    "Swipe sideways to move, swipe down to soft drop, flick down to hard drop, tap to rotate, and tap with two fingers to hold.",
+  "settings.touch.swipe": "Swipe distance",
+  "settings.touch.flick": "Hard drop speed",
+  "settings.touch.tap": "Tap time",
+  "settings.touch.buttons": "Show on-screen buttons",
+  "settings.privacy": "Privacy",
+  "settings.analytics": "Send anonymous usage statistics",
+  "settings.analytics.help":
+    "Game starts and ends, completed silhouettes, menu use, setting changes and errors help us improve the game.",
+  "settings.diagnostics": "Report a problem",
+  "settings.diagnostics.help":
+    "Copies recent errors, input history and device information. Please paste it in when you report a problem.",
+  "settings.diagnostics.copied": "Copied to the clipboard.",
+  "settings.metrics": "Show performance metrics ({key})",
+  "settings.reset": "Restore defaults",
+
+  /* 성능 측정 오버레이 */
+  "metrics.label": "Performance metrics",
+  "metrics.export": "Export JSON",
+  "metrics.exportLabel": "Export metrics as JSON",
+  "metrics.close": "Close ({key})",
+  "metrics.closeLabel": "Close performance metrics",
+  "metrics.frames": "Last {count, plural, one {# frame} other {# frames}}",
+
+  /* 조작 설정 */
+  "controls.title": "Controls",
+  "controls.action": "Action",
+  "controls.keyboard": "Keyboard",
+  "controls.gamepad": "Gamepad",
+  "controls.change": "Change {device, select, keyboard {key} other {gamepad button}} for {action}",
+  "controls.waitingKey": "Press a key...",
+  "controls.waitingButton": "Press a button...",
+  "controls.gamepadButton": "Gamepad {button}",
+  "controls.conflict": "{input} is assigned to more than one action: {actions}.",
+  "controls.das": "Auto-repeat delay (DAS)",
+  "controls.arr": "Auto-repeat rate (ARR)",
+
+  /* 계정 */
+  "account.title": "Account",
+  "account.signOut": "Sign out",
+  "account.help":
+    "When you sign in, progress on this device is merged into your account and your scores use your account name.",
+  "account.noProviders": "No sign-in methods are available.",
+  "account.signIn": "Sign in with {provider}",
+  "auth.error.token": "Could not get a token. ({reason})",
+  "auth.error.network": "Cannot reach the sign-in server. ({reason})",
+  "auth.error.userInfo": "Could not get your account details. (HTTP {status})",
+  "auth.error.cancelled": "Sign-in was cancelled or failed. ({reason})",
+  "auth.error.noCode": "Sign-in was cancelled or failed. (no authorization code)",
+  "auth.error.noRefreshToken": "No refresh token is available.",
+  "auth.error.expired": "Your sign-in has expired. Please sign in again.",
+  "auth.error.unknownProvider": "Unknown sign-in method. ({provider})",
+  "auth.error.unexpected": "Something went wrong while signing in. ({reason})",
+
+  /* 계정 합치기 결과 */
+  "merge.title": "Progress merged into your account",
+  "merge.bestScore": "Best score {score, number}",
+  "merge.bestScoreDetail": "(this device {local, number} / account {remote, number})",
+  "merge.achievements": "{count, plural, one {# new achievement} other {# new achievements}}",
+  "merge.patterns": "{count, plural, one {# new silhouette} other {# new silhouettes}} in your collection",
+  "merge.stars": "{count, plural, one {# challenge star} other {# challenge stars}} added",
+  "merge.conflicts": "{count, plural, one {# setting differs} other {# settings differ}}",
+  "merge.field": "Setting",
+  "merge.local": "This device",
+  "merge.remote": "Account",
+  "merge.chosenHint": "Values in green are used.",
+  "merge.useLocal": "Use this device's settings",
+  "merge.useRemote": "Use account settings",
+  "profile.error.save": "Could not save your progress to your account.",
+  "profile.error.load": "Could not load your account profile.",
+
+  /* 사용 통계 동의 */
+  "consent.label": "Usage statistics consent",
+  "consent.question": "May we send anonymous usage statistics to help improve the game?",
+  "consent.deny": "No thanks",
+  "consent.allow": "Allow",
+
+  /* 오류 화면 */
+  "error.title": "Oops, something went wrong",
+  "error.body":
+    "An unexpected error stopped this screen from loading. If trying again doesn't help, please copy the diagnostics and send them to us.",
+  "error.copied": "Copied diagnostics to the clipboard.",
+};
+
+export default en;
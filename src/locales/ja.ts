@@ -0,0 +1,270 @@
+import type { Catalog } from "../types/I18n";
+
+/* --- 日本語 --- */
+
+const ja: Catalog = {
+  /* 공통 */
+  "common.backToTitle": "タイトルへ",
+  "common.retry": "再試行",
+  "common.copyDiagnostics": "診断情報をコピー",
+  "common.copyFailed": "クリップボードにコピーできませんでした。",
+  "common.none": "なし",
+  "common.on": "オン",
+  "common.off": "オフ",
+  "common.ok": "OK",
+  "common.stars": "星{count}個",
+
+  /* 게임 동작 */
+  "action.moveLeft": "左へ移動",
+  "action.moveRight": "右へ移動",
+  "action.softDrop": "ソフトドロップ",
+  "action.hardDrop": "ハードドロップ",
+  "action.rotateCW": "右回転",
+  "action.rotateCCW": "左回転",
+  "action.hold": "ホールド",
+  "action.pause": "一時停止",
+
+  /* 타이틀 */
+  "title.screen": "7Drops タイトル画面",
+  "title.loadingScreen": "7Drops 読み込み画面",
+  "title.loading": "ゲームを読み込み中... {percent}%",
+  "title.menu": "メインメニュー",
+  "title.menu.game": "ゲーム開始",
+  "title.menu.game.label": "ゲームを始める",
+  "title.menu.challenges": "チャレンジ",
+  "title.menu.challenges.label": "チャレンジモードを開く",
+  "title.menu.leaderboard": "ランキング",
+  "title.menu.leaderboard.label": "ランキングを開く",
+  "title.menu.achievements": "実績",
+  "title.menu.achievements.label": "実績を開く",
+  "title.menu.settings": "設定",
+  "title.menu.settings.label": "設定を開く",
+  "title.character": "ドラッグできるキャラクター",
+  "title.cursorDrag": "ドラッグ",
+  "title.soundOn": "サウンドをオン",
+  "title.soundOff": "サウンドをオフ",
+
+  /* 게임 화면 */
+  "game.screen": "7Drops ゲーム画面",
+  "game.board": "ゲームボード",
+  "game.patternComplete": "{name} 完成！",
+  "game.newBest": "ベストスコア更新！",
+  "game.retryChallenge": "再挑戦",
+  "game.playAgain": "もう一度",
+  "game.nextStage": "次のステージ",
+  "game.watchLast": "リプレイを見る",
+  "game.watchBest": "ベストを見る",
+  "game.resume": "再開",
+  "game.daily": "今日のチャレンジ {day}",
+  "game.seed": "ゲームシード",
+  "game.gamepadConnected": "ゲームパッド接続中",
+  "game.pause": "一時停止",
+  "game.exit": "タイトルへ戻る",
+  "game.replayMissing": "保存されたリプレイがありません。",
+  "game.replayMismatch": "ゲーム設定が変わったため、このリプレイは再生できません。",
+  "game.loss.drops": "ピースを使い切りました。",
+  "game.loss.time": "時間切れです。",
+  "game.loss.gameOver": "ボードがいっぱいになりました。",
+
+  /* 스크린 리더 알림 */
+  "announce.pattern": "シルエット完成: {name}",
+  "announce.lines": "{count}ライン消去",
+  "announce.areas": "{count}エリア消去",
+  "announce.gameOver": "ゲームオーバー。スコア {score, number}点",
+  "announce.challengeWon": "チャレンジ成功！星{stars}個",
+  "announce.challengeLost": "チャレンジ失敗。{reason}",
+
+  /* 점수판 */
+  "score.title": "スコア",
+  "score.multiplier": "連続ボーナス倍率",
+  "score.comboActive": "{combo}コンボ中",
+  "score.hardDrop": "ハードドロップ",
+  "score.softDrop": "ソフトドロップ",
+  "score.lines": "{count}ライン",
+  "score.areas": "エリア {count}",
+  "score.combo": "{combo}コンボ",
+  "score.level": "レベル",
+  "score.lineCount": "ライン",
+  "score.cellsCleared": "消去マス",
+  "score.patterns": "シルエット",
+
+  /* 챌린지 */
+  "challenge.screen": "チャレンジ選択画面",
+  "challenge.title": "チャレンジ",
+  "challenge.dropsLeft": "残りピース {count}",
+  "challenge.secondsLeft": "{count}秒",
+
+  /* 챌린지 스테이지 (config/gameConfig.ts) */
+  "challenge.first-fish.title": "はじめてのさかな",
+  "challenge.first-fish.description": "7個のピース以内でさかなのシルエットを完成させましょう。",
+  "challenge.triangles-only.title": "三角形の時間",
+  "challenge.triangles-only.description": "三角形のピースだけで20マスを消しましょう。",
+  "challenge.speed-lines.title": "スピードライン",
+  "challenge.speed-lines.description": "90秒以内に4ラインを消しましょう。",
+  "challenge.star-builder.title": "星をつくろう",
+  "challenge.star-builder.description": "12個のピース以内で星のシルエットを完成させましょう。",
+  "challenge.score-attack.title": "スコアアタック",
+  "challenge.score-attack.description": "2分以内に5,000点を集めましょう。コンボと連続ボーナスが鍵です。",
+
+  /* 순위표 */
+  "leaderboard.screen": "ランキング画面",
+  "leaderboard.title": "ランキング",
+  "leaderboard.tab.global": "総合",
+  "leaderboard.tab.daily": "今日のチャレンジ",
+  "leaderboard.tab.friends": "フレンド",
+  "leaderboard.playDaily": "{day} に挑戦",
+  "leaderboard.rank": "順位",
+  "leaderboard.player": "プレイヤー",
+  "leaderboard.score": "スコア",
+  "leaderboard.lines": "ライン",
+  "leaderboard.loading": "読み込み中...",
+  "leaderboard.empty": "まだ記録がありません。",
+  "leaderboard.prevPage": "前のページ",
+  "leaderboard.nextPage": "次のページ",
+  "leaderboard.pending": "送信待ちの記録 {count}件（接続されると自動で送信されます）",
+  "leaderboard.error.network": "サーバーに接続できません。ネットワークを確認してください。",
+  "leaderboard.error.generic": "ランキングを読み込めませんでした。",
+
+  /* 업적 */
+  "achievements.screen": "実績画面",
+  "achievements.title": "実績",
+  "achievements.progress": "{unlocked} / {total} 達成",
+  "achievements.hidden": "隠し実績です。",
+  "achievements.achievedAt": "{date} 達成",
+  "achievements.toast": "実績解除！",
+  "achievements.toastLabel": "実績解除: {title}（閉じる）",
+
+  /* 업적 목록 (config/achievements.ts) */
+  "achievements.first-game.title": "はじめのしずく",
+  "achievements.first-game.description": "ゲームを最後まで1回プレイしましょう。",
+  "achievements.first-pattern.title": "はじめてのシルエット",
+  "achievements.first-pattern.description": "はじめてシルエットを完成させましょう。",
+  "achievements.pattern-5.title": "シルエット探検家",
+  "achievements.pattern-5.description": "シルエットを5回完成させましょう。",
+  "achievements.pattern-collector.title": "シルエット収集家",
+  "achievements.pattern-collector.description": "3種類のシルエットをすべて見つけましょう。",
+  "achievements.combo-5.title": "連鎖反応",
+  "achievements.combo-5.description": "5コンボを達成しましょう。",
+  "achievements.combo-10.title": "止まらない流れ",
+  "achievements.combo-10.description": "10コンボを達成しましょう。",
+  "achievements.back-to-back-3.title": "連続ボーナス",
+  "achievements.back-to-back-3.description": "難しい消去を3回連続で成功させましょう。",
+  "achievements.lines-100.title": "百ラインの川",
+  "achievements.lines-100.description": "累計100ラインを消しましょう。",
+  "achievements.score-10000.title": "1万点突破",
+  "achievements.score-10000.description": "1回のゲームで10,000点を獲得しましょう。",
+  "achievements.challenge-stars-10.title": "星あつめ",
+  "achievements.challenge-stars-10.description": "チャレンジで星を10個集めましょう。",
+  "achievements.daily-7.title": "一週間のしずく",
+  "achievements.daily-7.description": "7日連続でプレイしましょう。",
+
+  /* 환경설정 */
+  "settings.screen": "設定画面",
+  "settings.title": "設定",
+  "settings.sound": "サウンド",
+  "settings.music": "BGM",
+  "settings.sfx": "効果音",
+  "settings.mute": "ミュート",
+  "settings.display": "画面とフィードバック",
+  "settings.haptics": "振動",
+  "settings.customCursor": "カスタムカーソル（オフでシステムカーソル）",
+  "settings.motion": "動き",
+  "settings.motion.system": "システム設定に従う",
+  "settings.motion.reduced": "減らす",
+  "settings.motion.full": "すべて表示",
+  "settings.theme": "テーマ",
+  "settings.theme.auto": "自動（夕方からは夜テーマ）",
+  "settings.theme.classic": "クラシック",
+  "settings.theme.night": "夜",
+  "settings.theme.light": "ライト",
+  "settings.theme.highContrast": "ハイコントラスト",
+  "settings.theme.deuteranopia": "色覚補正（緑色弱）",
+  "settings.theme.protanopia": "色覚補正（赤色弱）",
+  "settings.language": "言語",
+  "settings.touch": "タッチ操作",
+  "settings.touch.help":
+    "左右にスワイプで移動、下にスワイプでソフトドロップ、下にはじいてハードドロップ、タップで回転、2本指タップでホールドします。",
+  "settings.touch.swipe": "スワイプ距離",
+  "settings.touch.flick": "ハードドロップ速度",
+  "settings.touch.tap": "タップ判定時間",
+  "settings.touch.buttons": "画面ボタンを表示",
+  "settings.privacy": "プライバシー",
+  "settings.analytics": "匿名の利用統計を送信",
+  "settings.analytics.help":
+    "ゲームの開始・終了、完成したシルエット、メニューの利用、設定の変更とエラー情報をゲームの改善に使います。",
+  "settings.diagnostics": "問題の報告と診断",
+  "settings.diagnostics.help":
+    "最近のエラーと操作履歴、端末情報をコピーします。問題を報告するときに貼り付けてください。",
+  "settings.diagnostics.copied": "クリップボードにコピーしました。",
+  "settings.metrics": "パフォーマンス計測を表示（{key}）",
+  "settings.reset": "初期設定に戻す",
+
+  /* 성능 측정 오버레이 */
+  "metrics.label": "パフォーマンス計測",
+  "metrics.export": "JSONを書き出す",
+  "metrics.exportLabel": "計測結果をJSONで書き出す",
+  "metrics.close": "閉じる（{key}）",
+  "metrics.closeLabel": "パフォーマンス計測を閉じる",
+  "metrics.frames": "直近 {count}フレーム",
+
+  /* 조작 설정 */
+  "controls.title": "操作設定",
+  "controls.action": "動作",
+  "controls.keyboard": "キーボード",
+  "controls.gamepad": "ゲームパッド",
+  "controls.change": "{action}の{device, select, keyboard {キー} other {ゲームパッドボタン}}を変更",
+  "controls.waitingKey": "キーを入力...",
+  "controls.waitingButton": "ボタンを入力...",
+  "controls.gamepadButton": "ゲームパッド {button}",
+  "controls.conflict": "{input} が {actions} に重複して割り当てられています。",
+  "controls.das": "リピート開始遅延 (DAS)",
+  "controls.arr": "リピート間隔 (ARR)",
+
+  /* 계정 */
+  "account.title": "アカウント",
+  "account.signOut": "ログアウト",
+  "account.help":
+    "ログインすると、この端末の進行状況がアカウントに統合され、ランキングにアカウント名で記録されます。",
+  "account.noProviders": "利用できるログイン方法がありません。",
+  "account.signIn": "{provider}でログイン",
+  "auth.error.token": "トークンを取得できませんでした。（{reason}）",
+  "auth.error.network": "認証サーバーに接続できません。（{reason}）",
+  "auth.error.userInfo": "ユーザー情報を取得できませんでした。（HTTP {status}）",
+  "auth.error.cancelled": "ログインがキャンセルされたか失敗しました。（{reason}）",
+  "auth.error.noCode": "ログインがキャンセルされたか失敗しました。（認可コードなし）",
+  "auth.error.noRefreshToken": "更新トークンがありません。",
+  "auth.error.expired": "ログインの有効期限が切れました。もう一度ログインしてください。",
+  "auth.error.unknownProvider": "不明なログイン方法です。（{provider}）",
+  "auth.error.unexpected": "ログイン中にエラーが発生しました。（{reason}）",
+
+  /* 계정 합치기 결과 */
+  "merge.title": "進行状況をアカウントに統合しました",
+  "merge.bestScore": "ベストスコア {score, number}",
+  "merge.bestScoreDetail": "（この端末 {local, number} / アカウント {remote, number}）",
+  "merge.achievements": "新しく追加された実績 {count}個",
+  "merge.patterns": "図鑑に新しく追加されたシルエット {count}個",
+  "merge.stars": "新しく加算されたチャレンジの星 {count}個",
+  "merge.conflicts": "異なる設定 {count}個",
+  "merge.field": "項目",
+  "merge.local": "この端末",
+  "merge.remote": "アカウント",
+  "merge.chosenHint": "緑色の値が使われます。",
+  "merge.useLocal": "この端末の設定を使う",
+  "merge.useRemote": "アカウントの設定を使う",
+  "profile.error.save": "進行状況をアカウントに保存できませんでした。",
+  "profile.error.load": "アカウントのプロフィールを読み込めませんでした。",
+
+  /* 사용 통계 동의 */
+  "consent.label": "利用統計への同意",
+  "consent.question": "ゲーム改善のため、匿名の利用統計を送信してもよろしいですか？",
+  "consent.deny": "拒否",
+  "consent.allow": "許可",
+
+  /* 오류 화면 */
+  "error.title": "問題が発生しました",
+  "error.body":
+    "予期しないエラーのため画面を表示できませんでした。再試行しても解決しない場合は、診断情報をコピーして送ってください。",
+  "error.copied": "診断情報をクリップボードにコピーしました。",
+};
+
+export default ja;
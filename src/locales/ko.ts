@@ -0,0 +1,270 @@
+/* --- 한국어 (기준 카탈로그) ---
+ * 모든 키의 기준입니다. 키를 추가하면 다른 언어에 빠진 키가 개발 중 콘솔에 보고됩니다.
+ * 문장 형식은 core/i18n/format.ts를 참고하세요.
+ */
+
+const ko = {
+  /* 공통 */
+  "common.backToTitle": "타이틀로",
+  "common.retry": "다시 시도",
+  "common.copyDiagnostics": "진단 정보 복사",
+  "common.copyFailed": "클립보드에 복사하지 못했습니다.",
+  "common.none": "없음",
+  "common.on": "켜짐",
+  "common.off": "꺼짐",
+  "common.ok": "확인",
+  "common.stars": "별 {count}개",
+
+  /* 게임 동작 */
+  "action.moveLeft": "왼쪽 이동",
+  "action.moveRight": "오른쪽 이동",
+  "action.softDrop": "소프트 드롭",
+  "action.hardDrop": "하드 드롭",
+  "action.rotateCW": "시계 방향 회전",
+  "action.rotateCCW": "반시계 방향 회전",
+  "action.hold": "보관",
+  "action.pause": "일시정지",
+
+  /* 타이틀 */
+  "title.screen": "7Drops 게임 타이틀 화면",
+  "title.loadingScreen": "7Drops 로딩 화면",
+  "title.loading": "게임을 불러오는 중... {percent}%",
+  "title.menu": "메인 메뉴",
+  "title.menu.game": "게임 시작",
+  "title.menu.game.label": "게임 시작 버튼",
+  "title.menu.challenges": "챌린지",
+  "title.menu.challenges.label": "챌린지 모드 버튼",
+  "title.menu.leaderboard": "순위표",
+  "title.menu.leaderboard.label": "순위표 버튼",
+  "title.menu.achievements": "업적",
+  "title.menu.achievements.label": "업적 버튼",
+  "title.menu.settings": "환경설정",
+  "title.menu.settings.label": "환경설정 버튼",
+  "title.character": "드래그 가능한 캐릭터",
+  "title.cursorDrag": "드래그",
+  "title.soundOn": "소리 켜기",
+  "title.soundOff": "소리 끄기",
+
+  /* 게임 화면 */
+  "game.screen": "7Drops 게임 화면",
+  "game.board": "게임 보드",
+  "game.patternComplete": "{name} 완성!",
+  "game.newBest": "최고 기록 달성!",
+  "game.retryChallenge": "다시 도전",
+  "game.playAgain": "다시 하기",
+  "game.nextStage": "다음 스테이지",
+  "game.watchLast": "리플레이 보기",
+  "game.watchBest": "최고 기록 보기",
+  "game.resume": "계속하기",
+  "game.daily": "오늘의 도전 {day}",
+  "game.seed": "게임 시드",
+  "game.gamepadConnected": "게임패드 연결됨",
+  "game.pause": "일시정지",
+  "game.exit": "타이틀로 돌아가기",
+  "game.replayMissing": "저장된 리플레이가 없습니다.",
+  "game.replayMismatch": "게임 설정이 바뀌어 이 리플레이를 재생할 수 없습니다.",
+  "game.loss.drops": "조각을 모두 사용했습니다.",
+  "game.loss.time": "시간이 다 되었습니다.",
+  "game.loss.gameOver": "보드가 가득 찼습니다.",
+
+  /* 스크린 리더 알림 */
+  "announce.pattern": "실루엣 완성: {name}",
+  "announce.lines": "{count}줄 제거",
+  "announce.areas": "{count}개 영역 제거",
+  "announce.gameOver": "게임 종료. 점수 {score, number}점",
+  "announce.challengeWon": "챌린지 성공! 별 {stars}개",
+  "announce.challengeLost": "챌린지 실패. {reason}",
+
+  /* 점수판 */
+  "score.title": "점수",
+  "score.multiplier": "연속 보너스 배율",
+  "score.comboActive": "{combo} 콤보 진행 중",
+  "score.hardDrop": "하드 드롭",
+  "score.softDrop": "소프트 드롭",
+  "score.lines": "{count}줄",
+  "score.areas": "영역 {count}",
+  "score.combo": "{combo} 콤보",
+  "score.level": "레벨",
+  "score.lineCount": "줄",
+  "score.cellsCleared": "제거 칸",
+  "score.patterns": "실루엣",
+
+  /* 챌린지 */
+  "challenge.screen": "챌린지 선택 화면",
+  "challenge.title": "챌린지",
+  "challenge.dropsLeft": "남은 조각 {count}",
+  "challenge.secondsLeft": "{count}초",
+
+  /* 챌린지 스테이지 (config/gameConfig.ts) */
+  "challenge.first-fish.title": "첫 번째 물고기",
+  "challenge.first-fish.description": "7개의 조각 안에 물고기 실루엣을 완성하세요.",
+  "challenge.triangles-only.title": "삼각형의 시간",
+  "challenge.triangles-only.description": "삼각형 조각만으로 20칸을 제거하세요.",
+  "challenge.speed-lines.title": "스피드 라인",
+  "challenge.speed-lines.description": "90초 안에 4줄을 제거하세요.",
+  "challenge.star-builder.title": "별을 쌓아요",
+  "challenge.star-builder.description": "12개의 조각 안에 별 실루엣을 완성하세요.",
+  "challenge.score-attack.title": "스코어 어택",
+  "challenge.score-attack.description": "2분 안에 5,000점을 모으세요. 콤보와 연속 보너스가 핵심입니다.",
+
+  /* 순위표 */
+  "leaderboard.screen": "순위표 화면",
+  "leaderboard.title": "순위표",
+  "leaderboard.tab.global": "전체",
+  "leaderboard.tab.daily": "오늘의 도전",
+  "leaderboard.tab.friends": "친구",
+  "leaderboard.playDaily": "{day} 도전하기",
+  "leaderboard.rank": "순위",
+  "leaderboard.player": "플레이어",
+  "leaderboard.score": "점수",
+  "leaderboard.lines": "줄",
+  "leaderboard.loading": "불러오는 중...",
+  "leaderboard.empty": "아직 기록이 없습니다.",
+  "leaderboard.prevPage": "이전 페이지",
+  "leaderboard.nextPage": "다음 페이지",
+  "leaderboard.pending": "전송 대기 중인 기록 {count}건 (연결되면 자동으로 전송됩니다)",
+  "leaderboard.error.network": "서버에 연결할 수 없습니다. 네트워크 상태를 확인해 주세요.",
+  "leaderboard.error.generic": "순위표를 불러오지 못했습니다.",
+
+  /* 업적 */
+  "achievements.screen": "업적 화면",
+  "achievements.title": "업적",
+  "achievements.progress": "{unlocked} / {total} 달성",
+  "achievements.hidden": "숨겨진 업적입니다.",
+  "achievements.achievedAt": "{date} 달성",
+  "achievements.toast": "업적 달성!",
+  "achievements.toastLabel": "업적 달성: {title} (닫기)",
+
+  /* 업적 목록 (config/achievements.ts) */
+  "achievements.first-game.title": "첫 물방울",
+  "achievements.first-game.description": "게임을 한 판 끝까지 플레이하세요.",
+  "achievements.first-pattern.title": "첫 실루엣",
+  "achievements.first-pattern.description": "실루엣을 처음으로 완성하세요.",
+  "achievements.pattern-5.title": "실루엣 탐험가",
+  "achievements.pattern-5.description": "실루엣을 5번 완성하세요.",
+  "achievements.pattern-collector.title": "실루엣 수집가",
+  "achievements.pattern-collector.description": "서로 다른 실루엣 3종을 모두 찾아보세요.",
+  "achievements.combo-5.title": "연쇄 반응",
+  "achievements.combo-5.description": "5 콤보를 달성하세요.",
+  "achievements.combo-10.title": "멈추지 않는 물줄기",
+  "achievements.combo-10.description": "10 콤보를 달성하세요.",
+  "achievements.back-to-back-3.title": "연속 보너스",
+  "achievements.back-to-back-3.description": "어려운 제거를 3번 연속으로 성공하세요.",
+  "achievements.lines-100.title": "백 줄의 강",
+  "achievements.lines-100.description": "누적 100줄을 제거하세요.",
+  "achievements.score-10000.title": "만 점 돌파",
+  "achievements.score-10000.description": "한 게임에서 10,000점을 얻으세요.",
+  "achievements.challenge-stars-10.title": "별 모으기",
+  "achievements.challenge-stars-10.description": "챌린지에서 별 10개를 모으세요.",
+  "achievements.daily-7.title": "일주일의 물방울",
+  "achievements.daily-7.description": "7일 연속으로 플레이하세요.",
+
+  /* 환경설정 */
+  "settings.screen": "환경설정 화면",
+  "settings.title": "환경설정",
+  "settings.sound": "사운드",
+  "settings.music": "배경음악",
+  "settings.sfx": "효과음",
+  "settings.mute": "음소거",
+  "settings.display": "화면과 피드백",
+  "settings.haptics": "진동 피드백",
+  "settings.customCursor": "커스텀 커서 (끄면 시스템 커서)",
+  "settings.motion": "움직임",
+  "settings.motion.system": "시스템 설정 따르기",
+  "settings.motion.reduced": "줄이기",
+  "settings.motion.full": "모두 보기",
+  "settings.theme": "테마",
+  "settings.theme.auto": "자동 (저녁에는 밤 테마)",
+  "settings.theme.classic": "기본",
+  "settings.theme.night": "밤",
+  "settings.theme.light": "밝게",
+  "settings.theme.highContrast": "고대비",
+  "settings.theme.deuteranopia": "색각 보정 (녹색약)",
+  "settings.theme.protanopia": "색각 보정 (적색약)",
+  "settings.language": "언어",
+  "settings.touch": "터치 조작",
+  "settings.touch.help":
+    "좌우로 밀어 이동, 아래로 밀어 소프트 드롭, 아래로 튕겨 하드 드롭, 탭으로 회전, 두 손가락 탭으로 보관합니다.",
+  "settings.touch.swipe": "스와이프 거리",
+  "settings.touch.flick": "하드 드롭 속도",
+  "settings.touch.tap": "탭 인식 시간",
+  "settings.touch.buttons": "화면 버튼 표시",
+  "settings.privacy": "개인정보",
+  "settings.analytics": "익명 사용 통계 보내기",
+  "settings.analytics.help":
+    "게임 시작/종료, 완성한 실루엣, 메뉴 사용, 설정 변경과 오류 정보를 게임 개선에 사용합니다.",
+  "settings.diagnostics": "문제 신고와 진단",
+  "settings.diagnostics.help":
+    "최근 오류와 조작 기록, 기기 정보를 복사합니다. 문제를 알려 주실 때 함께 붙여 넣어 주세요.",
+  "settings.diagnostics.copied": "클립보드에 복사했습니다.",
+  "settings.metrics": "성능 측정 표시 ({key})",
+  "settings.reset": "기본값으로",
+
+  /* 성능 측정 오버레이 */
+  "metrics.label": "성능 측정",
+  "metrics.export": "JSON 내보내기",
+  "metrics.exportLabel": "측정 결과 JSON 내보내기",
+  "metrics.close": "닫기 ({key})",
+  "metrics.closeLabel": "성능 측정 닫기",
+  "metrics.frames": "최근 {count}프레임",
+
+  /* 조작 설정 */
+  "controls.title": "조작 설정",
+  "controls.action": "동작",
+  "controls.keyboard": "키보드",
+  "controls.gamepad": "게임패드",
+  "controls.change": "{action} {device, select, keyboard {키} other {게임패드 버튼}} 변경",
+  "controls.waitingKey": "키 입력...",
+  "controls.waitingButton": "버튼 입력...",
+  "controls.gamepadButton": "게임패드 {button}",
+  "controls.conflict": "{input} 입력이 {actions}에 중복 배정되어 있습니다.",
+  "controls.das": "자동 반복 지연 (DAS)",
+  "controls.arr": "자동 반복 간격 (ARR)",
+
+  /* 계정 */
+  "account.title": "계정",
+  "account.signOut": "로그아웃",
+  "account.help": "로그인하면 이 기기의 진행 상황이 계정에 합쳐지고 순위표에 계정 이름으로 기록됩니다.",
+  "account.noProviders": "사용할 수 있는 로그인 방법이 없습니다.",
+  "account.signIn": "{provider}(으)로 로그인",
+  "auth.error.token": "토큰을 받지 못했습니다. ({reason})",
+  "auth.error.network": "인증 서버에 연결할 수 없습니다. ({reason})",
+  "auth.error.userInfo": "사용자 정보를 받지 못했습니다. (HTTP {status})",
+  "auth.error.cancelled": "로그인이 취소되었거나 실패했습니다. ({reason})",
+  "auth.error.noCode": "로그인이 취소되었거나 실패했습니다. (인가 코드 없음)",
+  "auth.error.noRefreshToken": "갱신 토큰이 없습니다.",
+  "auth.error.expired": "로그인이 만료되었습니다. 다시 로그인해 주세요.",
+  "auth.error.unknownProvider": "알 수 없는 로그인 방법입니다. ({provider})",
+  "auth.error.unexpected": "로그인 중 오류가 발생했습니다. ({reason})",
+
+  /* 계정 합치기 결과 */
+  "merge.title": "계정에 진행 상황을 합쳤습니다",
+  "merge.bestScore": "최고 점수 {score, number}",
+  "merge.bestScoreDetail": "(이 기기 {local, number} / 계정 {remote, number})",
+  "merge.achievements": "새로 추가된 업적 {count}개",
+  "merge.patterns": "도감에 새로 추가된 실루엣 {count}개",
+  "merge.stars": "새로 더해진 챌린지 별 {count}개",
+  "merge.conflicts": "서로 다른 설정 {count}개",
+  "merge.field": "항목",
+  "merge.local": "이 기기",
+  "merge.remote": "계정",
+  "merge.chosenHint": "초록색으로 표시된 값을 사용합니다.",
+  "merge.useLocal": "이 기기 설정 사용",
+  "merge.useRemote": "계정 설정 사용",
+  "profile.error.save": "계정에 진행 상황을 저장하지 못했습니다.",
+  "profile.error.load": "계정 프로필을 불러오지 못했습니다.",
+
+  /* 사용 통계 동의 */
+  "consent.label": "사용 통계 동의",
+  "consent.question": "게임 개선을 위해 익명 사용 통계를 보내도 될까요?",
+  "consent.deny": "거부",
+  "consent.allow": "허용",
+
+  /* 오류 화면 */
+  "error.title": "앗, 문제가 생겼어요",
+  "error.body":
+    "예상하지 못한 오류로 화면을 그리지 못했습니다. 다시 시도해도 같은 문제가 생기면 진단 정보를 복사해 보내 주세요.",
+  "error.copied": "진단 정보를 클립보드에 복사했습니다.",
+};
+
+export default ko;
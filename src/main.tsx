@@ -1,10 +1,15 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { setLocale } from './services/i18n';
+import { getSettings } from './store/userSettings';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
+// 저장된 언어의 카탈로그를 받은 뒤 첫 화면을 그림 (기준 언어 문장이 잠깐 보였다 바뀌지 않도록)
+void setLocale(getSettings().language).then(() =>
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>
+  )
 );
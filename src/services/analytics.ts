@@ -0,0 +1,259 @@
+import { ANALYTICS_CONFIG, AnalyticsConfig } from "../config/analytics";
+import { API_CONFIG } from "../config/api";
+import { ApiClient, ApiResult, createApiClient, isRetryable } from "./api";
+import { getAuthState } from "./auth";
+import { getSettings, subscribeSettings } from "../store/userSettings";
+import { flattenPaths } from "../utils/validation";
+import { readJSON, readString, writeJSON, writeString } from "../utils/localStorage";
+import type {
+  AnalyticsConsent,
+  AnalyticsEvent,
+  AnalyticsEventMap,
+  AnalyticsEventName,
+} from "../types/Analytics";
+
+/* --- 사용 통계 ---
+ * track()으로 기록한 이벤트를 모아 두었다가 batchSize만큼 모이거나 주기적으로, 그리고
+ * 화면이 가려질 때(visibilitychange) 한꺼번에 보냅니다. 전송 대상(sink)은 여러 개를 꽂을 수 있고
+ * 실패는 sink마다 따로 재시도합니다.
+ *
+ * 플레이어가 동의하기 전에는 아무 데도 보내지 않고 메모리에만 보관하며, 거부하면 버립니다.
+ */
+
+export interface AnalyticsSink {
+  name: string;
+  // beacon: 페이지가 닫히는 중이라 응답을 기다릴 수 없는 전송
+  send: (events: AnalyticsEvent[], options: { beacon: boolean }) => Promise<ApiResult<void>>;
+}
+
+/* --- 동의 --- */
+
+const CONSENT_KEY = "analytics:consent";
+
+const readConsent = (): AnalyticsConsent => {
+  const value = readString(CONSENT_KEY);
+  return value === "granted" || value === "denied" ? value : "unknown";
+};
+
+let consent: AnalyticsConsent | null = null;
+const consentListeners = new Set<() => void>();
+
+export const getAnalyticsConsent = (): AnalyticsConsent => {
+  if (!consent) consent = readConsent();
+  return consent;
+};
+
+// 동의 상태 변경 구독 (구독 해제 함수 반환)
+export const subscribeAnalyticsConsent = (listener: () => void): (() => void) => {
+  consentListeners.add(listener);
+  return () => consentListeners.delete(listener);
+};
+
+/* --- 전송 대상 --- */
+
+// 개발 중 확인용
+export const createConsoleSink = (): AnalyticsSink => ({
+  name: "console",
+  send: async (events) => {
+    events.forEach(({ name, props }) => console.info(`[analytics] ${name}`, props));
+    return { ok: true, value: undefined };
+  },
+});
+
+// 최근 이벤트만 localStorage에 남김 (진단 정보 수집용)
+export const createRingSink = (storageKey: string, size: number) => {
+  const read = (): AnalyticsEvent[] => {
+    const stored = readJSON<unknown>(storageKey);
+    return Array.isArray(stored) ? stored : [];
+  };
+  const sink: AnalyticsSink = {
+    name: "ring",
+    send: async (events) => {
+      writeJSON(storageKey, [...read(), ...events].slice(-size));
+      return { ok: true, value: undefined };
+    },
+  };
+  return { ...sink, read };
+};
+
+// 서버 전송. 페이지를 떠나는 중이면 sendBeacon 사용 (인증 헤더 없이 익명으로 전송)
+export const createHttpSink = (client: ApiClient, beaconUrl: string): AnalyticsSink => ({
+  name: "http",
+  send: async (events, { beacon }) => {
+    if (beacon && typeof navigator.sendBeacon === "function") {
+      const blob = new Blob([JSON.stringify({ events })], { type: "application/json" });
+      return navigator.sendBeacon(beaconUrl, blob)
+        ? { ok: true, value: undefined }
+        : { ok: false, error: { kind: "network", message: "sendBeacon 실패" } };
+    }
+    // 보내는 도중에 탭이 닫혀도 끊기지 않도록 keepalive
+    return client.post<void>("/events", { events }, { keepalive: true });
+  },
+});
+
+/* --- 수집기 --- */
+
+const createSessionId = () =>
+  `${Date.now().toString(36)}-${Math.floor(Math.random() * 0xffffffff).toString(36)}`;
+
+interface AnalyticsOptions {
+  sinks: AnalyticsSink[];
+  config: AnalyticsConfig;
+  getConsent: () => AnalyticsConsent;
+  random?: () => number; // 표본 추출용 (테스트에서 고정값 주입)
+}
+
+export const createAnalytics = ({ sinks, config, getConsent, random = Math.random }: AnalyticsOptions) => {
+  const sessionId = createSessionId();
+  let buffer: AnalyticsEvent[] = [];
+  // sink별로 전송에 실패해 다시 보낼 이벤트
+  const retry = new Map<AnalyticsSink, AnalyticsEvent[]>();
+  let flushing: Promise<void> | null = null;
+
+  const keepRecent = (events: AnalyticsEvent[]) => events.slice(-config.maxBuffered);
+
+  const sendAll = async (batch: AnalyticsEvent[], beacon: boolean) => {
+    await Promise.all(
+      sinks.map(async (sink) => {
+        const events = [...(retry.get(sink) ?? []), ...batch];
+        retry.delete(sink);
+        for (let start = 0; start < events.length; start += config.batchSize) {
+          const chunk = events.slice(start, start + config.batchSize);
+          const result = await sink.send(chunk, { beacon });
+          if (!result.ok) {
+            if (isRetryable(result.error)) retry.set(sink, keepRecent(events.slice(start)));
+            else console.warn(`Analytics sink "${sink.name}" rejected events:`, result.error);
+            return;
+          }
+        }
+      })
+    );
+  };
+
+  // 모인 이벤트 전송 (동의하지 않았으면 보관만)
+  // beacon 전송은 진행 중인 전송을 기다리지 않고, 그 뒤에 쌓인 이벤트와 재시도 대기분을 바로 보냄
+  const flush = ({ beacon = false }: { beacon?: boolean } = {}): Promise<void> => {
+    if (getConsent() !== "granted") return Promise.resolve();
+    if (flushing && !beacon) return flushing;
+    if (buffer.length === 0 && retry.size === 0) return flushing ?? Promise.resolve();
+
+    const batch = buffer;
+    buffer = [];
+    if (beacon) return sendAll(batch, true);
+    flushing = sendAll(batch, false).finally(() => {
+      flushing = null;
+    });
+    return flushing;
+  };
+
+  const track = <K extends AnalyticsEventName>(name: K, props: AnalyticsEventMap[K]) => {
+    if (getConsent() === "denied") return;
+    const sampleRate = config.sampleRates[name] ?? 1;
+    if (random() >= sampleRate) return;
+
+    const event = { name, props, sessionId, timestamp: new Date().toISOString(), sampleRate };
+    buffer = keepRecent([...buffer, event as AnalyticsEvent]);
+    if (buffer.length >= config.batchSize) void flush();
+  };
+
+  // 동의를 거부하면 보관 중인 이벤트도 버림
+  const discard = () => {
+    buffer = [];
+    retry.clear();
+  };
+
+  return { sessionId, track, flush, discard, getBufferedCount: () => buffer.length };
+};
+
+export type Analytics = ReturnType<typeof createAnalytics>;
+
+const ringSink = createRingSink("analytics:recent", ANALYTICS_CONFIG.ringSize);
+
+const analytics = createAnalytics({
+  sinks: [
+    ringSink,
+    ...(import.meta.env.DEV ? [createConsoleSink()] : []),
+    ...(API_CONFIG.baseUrl
+      ? [
+          createHttpSink(
+            createApiClient({ baseUrl: API_CONFIG.baseUrl, timeoutMs: API_CONFIG.timeoutMs }),
+            new URL("events", API_CONFIG.baseUrl.replace(/\/?$/, "/")).toString()
+          ),
+        ]
+      : []),
+  ],
+  config: ANALYTICS_CONFIG,
+  getConsent: getAnalyticsConsent,
+});
+
+export const track = analytics.track;
+
+// 최근 이벤트 (localStorage 링 버퍼)
+export const getRecentEvents = ringSink.read;
+
+export const setAnalyticsConsent = (next: Exclude<AnalyticsConsent, "unknown">) => {
+  consent = next;
+  writeString(CONSENT_KEY, next);
+  if (next === "granted") void analytics.flush();
+  else analytics.discard();
+  consentListeners.forEach((listener) => listener());
+};
+
+/* --- 자동 수집 --- */
+
+// 설정 값은 문자열/숫자/불리언만 기록 (배열은 쉼표로 연결)
+const toEventValue = (value: unknown): AnalyticsEventMap["settings_change"]["value"] => {
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+  return Array.isArray(value) ? value.join(",") : null;
+};
+
+// 바뀐 설정 항목을 기록 (연속으로 바뀌면 마지막 값만)
+const watchSettings = (debounceMs: number) => {
+  let prev = new Map(flattenPaths(getSettings()));
+  const timers = new Map<string, number>();
+
+  const unsubscribe = subscribeSettings(() => {
+    const next = new Map(flattenPaths(getSettings()));
+    next.forEach((value, path) => {
+      if (path === "version" || JSON.stringify(value) === JSON.stringify(prev.get(path))) return;
+      window.clearTimeout(timers.get(path));
+      timers.set(
+        path,
+        window.setTimeout(() => {
+          timers.delete(path);
+          track("settings_change", { path, value: toEventValue(value) });
+        }, debounceMs)
+      );
+    });
+    prev = next;
+  });
+
+  return () => {
+    unsubscribe();
+    timers.forEach((timer) => window.clearTimeout(timer));
+  };
+};
+
+// 세션 시작 기록, 주기적 전송, 화면이 가려질 때 전송 시작 (정리 함수 반환)
+// 오류 이벤트는 오류 보고 서비스(services/error.ts)가 기록합니다.
+export const startAnalytics = () => {
+  track("session_start", {
+    locale: getSettings().language,
+    isMobile: window.matchMedia?.("(pointer: coarse)").matches ?? false,
+    signedIn: getAuthState().session !== null,
+  });
+
+  const handleVisibility = () => {
+    if (document.visibilityState === "hidden") void analytics.flush({ beacon: true });
+  };
+
+  const timer = window.setInterval(() => void analytics.flush(), ANALYTICS_CONFIG.flushIntervalMs);
+  const stopWatchingSettings = watchSettings(ANALYTICS_CONFIG.settingsDebounceMs);
+  document.addEventListener("visibilitychange", handleVisibility);
+
+  return () => {
+    window.clearInterval(timer);
+    stopWatchingSettings();
+    document.removeEventListener("visibilitychange", handleVisibility);
+  };
+};
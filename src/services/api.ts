@@ -0,0 +1,86 @@
+/* --- HTTP API 클라이언트 ---
+ * fetch를 감싼 얇은 JSON 클라이언트입니다. 예외를 던지지 않고 결과 객체로 성공/실패를 돌려주며,
+ * 실패 종류(network/http/parse)를 구분해 호출하는 쪽이 재시도 여부를 정할 수 있게 합니다.
+ */
+
+export type ApiFailure =
+  | { kind: "network"; message: string } // 오프라인, 시간 초과, CORS 등
+  | { kind: "http"; status: number; message: string }
+  | { kind: "parse"; message: string };
+
+export type ApiResult<T> = { ok: true; value: T } | { ok: false; error: ApiFailure };
+
+// 잠시 뒤 다시 시도하면 성공할 수 있는 실패인지 (네트워크 오류, 서버 오류, 요청 과다)
+export const isRetryable = (failure: ApiFailure): boolean =>
+  failure.kind === "network" ||
+  (failure.kind === "http" && (failure.status >= 500 || failure.status === 429));
+
+type QueryParams = Record<string, string | number | undefined>;
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  timeoutMs: number;
+  getToken?: () => string | null; // 인증 헤더에 넣을 액세스 토큰
+}
+
+export const createApiClient = ({ baseUrl, timeoutMs, getToken }: ApiClientOptions) => {
+  const buildUrl = (path: string, params: QueryParams = {}) => {
+    const url = new URL(path.replace(/^\//, ""), baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`);
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    });
+    return url.toString();
+  };
+
+  const request = async <T>(
+    method: "GET" | "POST" | "PUT" | "DELETE",
+    path: string,
+    { params, body, keepalive }: { params?: QueryParams; body?: unknown; keepalive?: boolean } = {}
+  ): Promise<ApiResult<T>> => {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+    const token = getToken?.();
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => controller.abort(), timeoutMs);
+    let response: Response;
+    try {
+      response = await fetch(buildUrl(path, params), {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+        keepalive, // 페이지를 닫아도 요청이 끊기지 않도록 (본문 64KB 이하)
+      });
+    } catch (err) {
+      const message = controller.signal.aborted ? `시간 초과 (${timeoutMs}ms)` : String(err);
+      return { ok: false, error: { kind: "network", message } };
+    } finally {
+      window.clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        error: { kind: "http", status: response.status, message: `HTTP ${response.status}` },
+      };
+    }
+    if (response.status === 204) return { ok: true, value: undefined as T };
+    try {
+      return { ok: true, value: (await response.json()) as T };
+    } catch (err) {
+      return { ok: false, error: { kind: "parse", message: String(err) } };
+    }
+  };
+
+  return {
+    get: <T>(path: string, params?: QueryParams) => request<T>("GET", path, { params }),
+    post: <T>(path: string, body?: unknown, { keepalive }: { keepalive?: boolean } = {}) =>
+      request<T>("POST", path, { body, keepalive }),
+    put: <T>(path: string, body?: unknown) => request<T>("PUT", path, { body }),
+    delete: <T>(path: string) => request<T>("DELETE", path),
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
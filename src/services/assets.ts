@@ -0,0 +1,215 @@
+import { ASSET_LOADER_CONFIG, ASSET_MANIFEST } from "../config/assets";
+import { registerPatternPack } from "../core/patterns/templates";
+import { audioEngine } from "../utils/sound";
+import { addBreadcrumb, captureError } from "./error";
+import type { AssetLoaderConfig } from "../config/assets";
+import type { AssetEntry, AssetProgress } from "../types/Assets";
+
+/* --- 리소스 로딩 ---
+ * 매니페스트(config/assets.ts)의 리소스를 받으면서 실제로 받은 바이트와 끝난 항목 수를 알립니다.
+ * - 항목마다 시간 제한을 두고, 실패하면 간격을 두 배씩 늘려 가며 다시 시도합니다.
+ * - 끝내 실패한 항목은 오류로 보고하고 그 리소스 없이 진행합니다.
+ *   오디오를 하나도 쓸 수 없으면 무음 모드, 글꼴은 대체 글꼴, 실루엣 팩은 기본 팩만 사용합니다.
+ */
+
+type OnBytes = (loaded: number, total: number | null) => void;
+
+// 시간 안에 끝나지 않으면 요청을 끊고 실패 처리
+const withTimeout = <T>(ms: number, task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const controller = new AbortController();
+  let timer = 0;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = window.setTimeout(() => {
+      const err = new Error(`Timed out after ${ms}ms`);
+      controller.abort(err);
+      reject(err);
+    }, ms);
+  });
+  return Promise.race([task(controller.signal), timeout]).finally(() => clearTimeout(timer));
+};
+
+// 실패하면 retryDelayMs, 그 두 배, ... 만큼 기다렸다가 다시 시도
+const withRetry = async <T>(config: AssetLoaderConfig, attempt: () => Promise<T>): Promise<T> => {
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt();
+    } catch (err) {
+      if (i >= config.retries) throw err;
+      await new Promise((resolve) => window.setTimeout(resolve, config.retryDelayMs * 2 ** i));
+    }
+  }
+};
+
+// 응답 본문을 조각 단위로 읽으며 받은 바이트 수를 알림
+const fetchBytes = async (url: string, signal: AbortSignal, onBytes: OnBytes) => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const length = Number(response.headers.get("Content-Length"));
+  const total = length > 0 ? length : null;
+
+  if (!response.body) {
+    const data = await response.arrayBuffer();
+    onBytes(data.byteLength, total);
+    return data;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    onBytes(loaded, total);
+  }
+
+  const data = new Uint8Array(loaded);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return data.buffer;
+};
+
+// 글꼴 스타일시트를 붙이고 글꼴 파일까지 받아졌는지 확인 (다시 시도하면 이전 link는 교체)
+const fontLinks = new Map<string, HTMLLinkElement>();
+
+const loadFont = async ({ url, family }: AssetEntry) => {
+  fontLinks.get(url)?.remove();
+  const link = document.createElement("link");
+  link.rel = "stylesheet";
+  link.href = url;
+  fontLinks.set(url, link);
+
+  await new Promise<void>((resolve, reject) => {
+    link.onload = () => resolve();
+    link.onerror = () => reject(new Error(`Stylesheet load failed (${url})`));
+    document.head.appendChild(link);
+  });
+  if (family && (await document.fonts.load(`1em "${family}"`)).length === 0) {
+    throw new Error(`Font "${family}" not found in ${url}`);
+  }
+};
+
+// 항목 하나를 받아 쓸 수 있는 상태로 만듦 (실패하면 예외)
+const loadEntry = async (entry: AssetEntry, config: AssetLoaderConfig, onBytes: OnBytes) => {
+  if (entry.kind === "font") {
+    await withRetry(config, () => withTimeout(config.timeoutMs, () => loadFont(entry)));
+    return;
+  }
+
+  const data = await withRetry(config, () =>
+    withTimeout(config.timeoutMs, (signal) => fetchBytes(entry.url, signal, onBytes))
+  );
+  switch (entry.kind) {
+    case "audio":
+      if (!(await audioEngine.addBuffer(entry.url, data))) throw new Error("Audio decode failed");
+      break;
+    case "image":
+      (await createImageBitmap(new Blob([data]))).close();
+      break;
+    case "patternPack": {
+      const result = registerPatternPack(JSON.parse(new TextDecoder().decode(data)));
+      if (!result.ok) throw new Error(`Pattern pack rejected:\n${result.errors.join("\n")}`);
+      break;
+    }
+  }
+};
+
+/* --- 진행 상황 --- */
+
+interface ItemProgress {
+  loaded: number;
+  total: number;
+  done: boolean;
+}
+
+let items = new Map<string, ItemProgress>();
+let progress: AssetProgress = {
+  loadedBytes: 0,
+  totalBytes: 0,
+  loadedItems: 0,
+  totalItems: 0,
+  failed: [],
+  silent: false,
+  done: false,
+};
+let loading: Promise<AssetProgress> | null = null;
+const listeners = new Set<() => void>();
+
+const publish = (patch: Partial<AssetProgress> = {}) => {
+  const values = Array.from(items.values());
+  progress = {
+    ...progress,
+    ...patch,
+    loadedBytes: values.reduce((sum, item) => sum + item.loaded, 0),
+    totalBytes: values.reduce((sum, item) => sum + item.total, 0),
+    loadedItems: values.filter((item) => item.done).length,
+    totalItems: values.length,
+  };
+  listeners.forEach((listener) => listener());
+};
+
+export const getAssetProgress = (): AssetProgress => progress;
+
+// 진행 상황 구독 (구독 해제 함수 반환)
+export const subscribeAssets = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// 매니페스트의 리소스를 모두 받음 (여러 번 불러도 한 번만 받음)
+// maxWaitMs가 지나면 남은 항목은 뒤에서 계속 받고, 그때까지의 진행 상황으로 먼저 끝냄
+export const loadAssets = (
+  manifest: AssetEntry[] = ASSET_MANIFEST,
+  config: AssetLoaderConfig = ASSET_LOADER_CONFIG
+): Promise<AssetProgress> => {
+  if (loading) return loading;
+
+  items = new Map(manifest.map(({ id, bytes }) => [id, { loaded: 0, total: bytes, done: false }]));
+  publish();
+
+  // AudioContext가 없는 브라우저에서는 오디오를 받지 않음
+  const audioSupported = audioEngine.isSupported();
+
+  const tasks = manifest.map(async (entry) => {
+    const update: OnBytes = (loaded, total) => {
+      items.set(entry.id, { loaded, total: Math.max(total ?? entry.bytes, loaded), done: false });
+      publish();
+    };
+
+    try {
+      if (entry.kind !== "audio" || audioSupported) await loadEntry(entry, config, update);
+    } catch (err) {
+      // 실패한 소리는 재생할 때 다시 받지 않도록 기록
+      if (entry.kind === "audio") void audioEngine.addBuffer(entry.url, null);
+      captureError(err, "assets", { id: entry.id, url: entry.url });
+      progress = { ...progress, failed: [...progress.failed, entry.id] };
+    } finally {
+      const item = items.get(entry.id);
+      if (item) items.set(entry.id, { ...item, loaded: item.total, done: true });
+      publish();
+    }
+  });
+
+  const settled = Promise.all(tasks).then(() => {
+    const audio = manifest.filter(({ kind }) => kind === "audio");
+    const silent =
+      !audioSupported ||
+      (audio.length > 0 && audio.every(({ id }) => progress.failed.includes(id)));
+    if (silent) {
+      audioEngine.setSilent(true);
+      addBreadcrumb("log", "assets: silent mode");
+    }
+    publish({ silent, done: true });
+    return progress;
+  });
+  const deadline = new Promise<AssetProgress>((resolve) =>
+    window.setTimeout(() => resolve(progress), config.maxWaitMs)
+  );
+
+  loading = Promise.race([settled, deadline]);
+  return loading;
+};
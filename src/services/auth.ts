@@ -0,0 +1,364 @@
+import { AUTH_CONFIG, OAuthProviderConfig } from "../config/auth";
+import { createCodeChallenge, createCodeVerifier, createRandomString } from "../utils/pkce";
+import { isRecord } from "../utils/validation";
+import { readJSON, removeItem, writeJSON } from "../utils/localStorage";
+import type { AuthError, AuthSession, AuthState, AuthTokens, User } from "../types/User";
+
+/* --- 인증 서비스 ---
+ * 로그인 방식은 AuthProvider 인터페이스로 감싸고, 세션(사용자 + 토큰)은 이 모듈이 보관합니다.
+ * 세션은 localStorage에 저장되고, 액세스 토큰은 만료 전에 자동으로 갱신됩니다.
+ * React에서는 hooks/useAuth.ts로 구독합니다.
+ */
+
+export type AuthResult<T> = { ok: true; value: T } | { ok: false; error: AuthError };
+
+export interface AuthProvider {
+  id: string;
+  label: string;
+  // 로그인 시작. 리디렉션 방식은 페이지를 떠나므로 세션 없이(null) 끝남
+  signIn: () => Promise<AuthResult<AuthSession | null>>;
+  // 리디렉션으로 돌아온 인가 응답 처리
+  completeSignIn?: (params: URLSearchParams, verifier: string) => Promise<AuthResult<AuthSession>>;
+  refresh: (session: AuthSession) => Promise<AuthResult<AuthSession>>;
+}
+
+/* --- OAuth2 인가 코드 + PKCE --- */
+
+// 리디렉션 전후로 유지해야 하는 로그인 요청 정보 (탭을 닫으면 사라지도록 sessionStorage 사용)
+interface PendingSignIn {
+  providerId: string;
+  state: string;
+  verifier: string;
+}
+
+const PENDING_KEY = "7drops:auth:pending";
+
+const writePending = (pending: PendingSignIn) => {
+  try {
+    window.sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+  } catch (err) {
+    console.warn("sessionStorage write failed (auth):", err);
+  }
+};
+
+// 저장된 요청 정보를 꺼내고 지움 (인가 응답은 한 번만 처리)
+const takePending = (): PendingSignIn | null => {
+  try {
+    const text = window.sessionStorage.getItem(PENDING_KEY);
+    window.sessionStorage.removeItem(PENDING_KEY);
+    const raw: unknown = text ? JSON.parse(text) : null;
+    if (
+      isRecord(raw) &&
+      typeof raw.providerId === "string" &&
+      typeof raw.state === "string" &&
+      typeof raw.verifier === "string"
+    ) {
+      return { providerId: raw.providerId, state: raw.state, verifier: raw.verifier };
+    }
+  } catch {
+    // 읽을 수 없으면 진행 중인 로그인이 없는 것으로 처리
+  }
+  return null;
+};
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number; // 초
+}
+
+const requestToken = async (
+  config: OAuthProviderConfig,
+  params: Record<string, string>
+): Promise<AuthResult<TokenResponse>> => {
+  try {
+    const response = await fetch(config.tokenUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ client_id: config.clientId, ...params }),
+    });
+    const body: unknown = await response.json().catch(() => null);
+    if (!response.ok || !isRecord(body) || typeof body.access_token !== "string") {
+      const reason = isRecord(body) && typeof body.error === "string" ? body.error : `HTTP ${response.status}`;
+      return { ok: false, error: { key: "auth.error.token", values: { reason } } };
+    }
+    return { ok: true, value: body as unknown as TokenResponse };
+  } catch (err) {
+    return { ok: false, error: { key: "auth.error.network", values: { reason: String(err) } } };
+  }
+};
+
+const toTokens = (response: TokenResponse, previousRefreshToken: string | null): AuthTokens => ({
+  accessToken: response.access_token,
+  // 갱신 응답에 새 갱신 토큰이 없으면 기존 것을 계속 사용
+  refreshToken: response.refresh_token ?? previousRefreshToken,
+  expiresAt: Date.now() + (response.expires_in ?? 3600) * 1000,
+});
+
+const fetchUser = async (
+  config: OAuthProviderConfig,
+  accessToken: string
+): Promise<AuthResult<User>> => {
+  try {
+    const response = await fetch(config.userInfoUrl, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    const body: unknown = await response.json().catch(() => null);
+    if (!response.ok || !isRecord(body) || typeof body.sub !== "string") {
+      return { ok: false, error: { key: "auth.error.userInfo", values: { status: response.status } } };
+    }
+    return {
+      ok: true,
+      value: {
+        id: `${config.id}:${body.sub}`,
+        name: typeof body.name === "string" ? body.name : config.label,
+        email: typeof body.email === "string" ? body.email : undefined,
+        avatarUrl: typeof body.picture === "string" ? body.picture : undefined,
+        provider: config.id,
+      },
+    };
+  } catch (err) {
+    return { ok: false, error: { key: "auth.error.network", values: { reason: String(err) } } };
+  }
+};
+
+export const createOAuthProvider = (
+  config: OAuthProviderConfig,
+  redirectUri: string
+): AuthProvider => ({
+  id: config.id,
+  label: config.label,
+  signIn: async () => {
+    const verifier = createCodeVerifier();
+    const state = createRandomString(16);
+    writePending({ providerId: config.id, state, verifier });
+
+    const url = new URL(config.authorizeUrl);
+    url.search = new URLSearchParams({
+      response_type: "code",
+      client_id: config.clientId,
+      redirect_uri: redirectUri,
+      scope: config.scope,
+      state,
+      code_challenge: await createCodeChallenge(verifier),
+      code_challenge_method: "S256",
+    }).toString();
+    window.location.assign(url.toString());
+    return { ok: true, value: null };
+  },
+  completeSignIn: async (params, verifier) => {
+    const code = params.get("code");
+    if (!code) {
+      const reason = params.get("error_description") ?? params.get("error");
+      return {
+        ok: false,
+        error: reason ? { key: "auth.error.cancelled", values: { reason } } : { key: "auth.error.noCode" },
+      };
+    }
+    const token = await requestToken(config, {
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: verifier,
+    });
+    if (!token.ok) return token;
+
+    const tokens = toTokens(token.value, null);
+    const user = await fetchUser(config, tokens.accessToken);
+    if (!user.ok) return user;
+    return { ok: true, value: { user: user.value, tokens } };
+  },
+  refresh: async (session) => {
+    const { refreshToken } = session.tokens;
+    if (!refreshToken) return { ok: false, error: { key: "auth.error.noRefreshToken" } };
+    const token = await requestToken(config, {
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    });
+    if (!token.ok) return token;
+    return { ok: true, value: { ...session, tokens: toTokens(token.value, refreshToken) } };
+  },
+});
+
+/* --- 개발용 가짜 제공자 --- */
+
+const MOCK_TOKEN_MS = 10 * 60 * 1000;
+
+export const createMockProvider = (): AuthProvider => {
+  const issueTokens = (): AuthTokens => ({
+    accessToken: `mock-${createRandomString(12)}`,
+    refreshToken: "mock-refresh",
+    expiresAt: Date.now() + MOCK_TOKEN_MS,
+  });
+
+  return {
+    id: "mock",
+    label: "테스트 계정",
+    signIn: async () => {
+      // 실제 로그인 창처럼 잠시 기다린 뒤 고정된 사용자로 로그인
+      await new Promise((resolve) => window.setTimeout(resolve, 300));
+      return {
+        ok: true,
+        value: {
+          user: { id: "mock:player", name: "Mock Player", email: "player@example.com", provider: "mock" },
+          tokens: issueTokens(),
+        },
+      };
+    },
+    refresh: async (session) => ({ ok: true, value: { ...session, tokens: issueTokens() } }),
+  };
+};
+
+export const AUTH_PROVIDERS: AuthProvider[] = [
+  ...AUTH_CONFIG.providers.map((config) => createOAuthProvider(config, AUTH_CONFIG.redirectUri)),
+  ...(AUTH_CONFIG.mockProvider ? [createMockProvider()] : []),
+];
+
+const findProvider = (id: string) => AUTH_PROVIDERS.find((provider) => provider.id === id);
+
+/* --- 세션 상태 --- */
+
+const SESSION_KEY = "auth:session";
+
+const parseSession = (raw: unknown): AuthSession | null => {
+  if (!isRecord(raw) || !isRecord(raw.user) || !isRecord(raw.tokens)) return null;
+  const { user, tokens } = raw;
+  if (
+    typeof user.id !== "string" ||
+    typeof user.name !== "string" ||
+    typeof user.provider !== "string" ||
+    typeof tokens.accessToken !== "string" ||
+    typeof tokens.expiresAt !== "number"
+  ) {
+    return null;
+  }
+  return {
+    user: {
+      id: user.id,
+      name: user.name,
+      email: typeof user.email === "string" ? user.email : undefined,
+      avatarUrl: typeof user.avatarUrl === "string" ? user.avatarUrl : undefined,
+      provider: user.provider,
+    },
+    tokens: {
+      accessToken: tokens.accessToken,
+      refreshToken: typeof tokens.refreshToken === "string" ? tokens.refreshToken : null,
+      expiresAt: tokens.expiresAt,
+    },
+  };
+};
+
+let current: AuthState | null = null;
+let refreshTimer: number | undefined;
+const listeners = new Set<() => void>();
+
+export const getAuthState = (): AuthState => {
+  if (!current) {
+    current = { session: parseSession(readJSON<unknown>(SESSION_KEY)), isLoading: false, error: null };
+  }
+  return current;
+};
+
+// 인증 상태 변경 구독 (구독 해제 함수 반환)
+export const subscribeAuth = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const setState = (patch: Partial<AuthState>) => {
+  current = { ...getAuthState(), ...patch };
+  listeners.forEach((listener) => listener());
+};
+
+// 만료 refreshMarginMs 전에 갱신 예약 (이미 지났으면 바로 갱신)
+const scheduleRefresh = (session: AuthSession | null, delayMs?: number) => {
+  window.clearTimeout(refreshTimer);
+  if (!session) return;
+  const wait = delayMs ?? session.tokens.expiresAt - AUTH_CONFIG.refreshMarginMs - Date.now();
+  refreshTimer = window.setTimeout(() => void refreshSession(), Math.max(0, wait));
+};
+
+const saveSession = (session: AuthSession | null) => {
+  if (session) writeJSON(SESSION_KEY, session);
+  else removeItem(SESSION_KEY);
+  setState({ session, isLoading: false, error: null });
+  scheduleRefresh(session);
+};
+
+// 액세스 토큰 갱신. 실패 시 토큰이 아직 유효하면 잠시 뒤 재시도, 만료되었으면 로그아웃
+export const refreshSession = async (): Promise<boolean> => {
+  const { session } = getAuthState();
+  if (!session) return false;
+  const provider = findProvider(session.user.provider);
+  if (!provider) {
+    saveSession(null);
+    return false;
+  }
+
+  const result = await provider.refresh(session);
+  if (result.ok) {
+    saveSession(result.value);
+    return true;
+  }
+  if (session.tokens.expiresAt > Date.now()) {
+    console.warn("Token refresh failed, retrying:", result.error.key, result.error.values);
+    scheduleRefresh(session, AUTH_CONFIG.refreshMarginMs / 4);
+    return false;
+  }
+  console.warn("Token refresh failed, signing out:", result.error.key, result.error.values);
+  removeItem(SESSION_KEY);
+  setState({ session: null, isLoading: false, error: { key: "auth.error.expired" } });
+  return false;
+};
+
+export const signIn = async (providerId: string) => {
+  const provider = findProvider(providerId);
+  if (!provider) {
+    setState({ error: { key: "auth.error.unknownProvider", values: { provider: providerId } } });
+    return;
+  }
+  setState({ isLoading: true, error: null });
+  try {
+    const result = await provider.signIn();
+    if (!result.ok) setState({ isLoading: false, error: result.error });
+    else if (result.value) saveSession(result.value);
+    // 리디렉션 방식은 페이지를 떠나므로 로딩 상태 유지
+  } catch (err) {
+    // PKCE 준비 실패 등 예외가 나도 로딩 상태에 머물지 않도록 오류로 표시
+    setState({ isLoading: false, error: { key: "auth.error.unexpected", values: { reason: String(err) } } });
+  }
+};
+
+export const signOut = () => saveSession(null);
+
+// 유효한 액세스 토큰 (API 요청 인증 헤더용)
+export const getAccessToken = (): string | null => {
+  const { session } = getAuthState();
+  return session && session.tokens.expiresAt > Date.now() ? session.tokens.accessToken : null;
+};
+
+// 리디렉션으로 돌아온 경우 로그인 마무리
+const completeRedirectSignIn = async () => {
+  const params = new URLSearchParams(window.location.search);
+  if (!params.has("state")) return;
+  const pending = takePending();
+  // 이 앱이 시작한 로그인이 아니면 무시
+  if (!pending || pending.state !== params.get("state")) return;
+
+  // 주소창에서 인가 코드 제거
+  window.history.replaceState(null, "", window.location.pathname + window.location.hash);
+  const provider = findProvider(pending.providerId);
+  if (!provider?.completeSignIn) return;
+
+  setState({ isLoading: true, error: null });
+  const result = await provider.completeSignIn(params, pending.verifier);
+  if (result.ok) saveSession(result.value);
+  else setState({ isLoading: false, error: result.error });
+};
+
+// 앱 시작 시 리디렉션 처리와 토큰 갱신 예약 (정리 함수 반환)
+export const startAuth = () => {
+  void completeRedirectSignIn();
+  scheduleRefresh(getAuthState().session);
+  return () => window.clearTimeout(refreshTimer);
+};
@@ -0,0 +1,219 @@
+import { API_CONFIG } from "../config/api";
+import { ERROR_CONFIG, ErrorConfig } from "../config/errors";
+import { ApiClient, ApiResult, createApiClient } from "./api";
+import { getRecentEvents, track } from "./analytics";
+import { getAccessToken, getAuthState } from "./auth";
+import { getSettings } from "../store/userSettings";
+import { hashSeed } from "../utils/random";
+import { readJSON, writeJSON } from "../utils/localStorage";
+import type {
+  Breadcrumb,
+  BreadcrumbCategory,
+  DiagnosticBundle,
+  ErrorReport,
+} from "../types/Diagnostics";
+
+/* --- 오류 보고 ---
+ * 잡힌 오류(에러 바운더리, 전역 error/unhandledrejection, 물리/오디오 처리)를 한곳에 모아
+ * 꽂혀 있는 reporter들에게 전달합니다. 같은 오류가 반복되면 dedupeWindowMs 동안은 횟수만 셉니다.
+ *
+ * 오류가 나기 직전의 플레이어 입력과 게임 이벤트는 breadcrumb으로 남겨 보고에 함께 싣고,
+ * 플레이어는 이 기록을 진단 정보로 복사해 보낼 수 있습니다.
+ */
+
+export interface ErrorReporter {
+  name: string;
+  report: (report: ErrorReport) => Promise<ApiResult<void>>;
+}
+
+/* --- reporter --- */
+
+export const createConsoleReporter = (): ErrorReporter => ({
+  name: "console",
+  report: async (report) => {
+    console.error(`[${report.source}] ${report.name}: ${report.message}`, report);
+    return { ok: true, value: undefined };
+  },
+});
+
+// 사용 통계의 error 이벤트로도 집계 (동의한 경우에만 전송됨)
+export const createAnalyticsReporter = (): ErrorReporter => ({
+  name: "analytics",
+  report: async ({ message, source }) => {
+    track("error", { message, source });
+    return { ok: true, value: undefined };
+  },
+});
+
+export const createHttpReporter = (client: ApiClient): ErrorReporter => ({
+  name: "http",
+  report: (report) => client.post<void>("/errors", report),
+});
+
+/* --- 오류 정규화 --- */
+
+const normalizeError = (error: unknown): { name: string; message: string; stack: string | null } => {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack ?? null };
+  }
+  return { name: "NonError", message: typeof error === "string" ? error : String(error), stack: null };
+};
+
+// 같은 오류 판정 기준: 종류 + 메시지 + 발생 위치(스택 첫 프레임, 줄/열 번호 제외)
+export const getFingerprint = (name: string, message: string, stack: string | null): string => {
+  const frame =
+    stack
+      ?.split("\n")
+      .find((line) => /^\s*at\s|@/.test(line))
+      ?.replace(/:\d+:\d+\)?$/, "")
+      .trim() ?? "";
+  return hashSeed(`${name}|${message}|${frame}`).toString(16).padStart(8, "0");
+};
+
+/* --- 수집기 --- */
+
+interface ErrorTrackerOptions {
+  reporters: ErrorReporter[];
+  config: ErrorConfig;
+  storageKey?: string | null; // 최근 오류 보관 위치 (새로고침 후에도 진단 정보에 포함), null이면 메모리만
+}
+
+export const createErrorTracker = ({
+  reporters,
+  config,
+  storageKey = "errors:recent",
+}: ErrorTrackerOptions) => {
+  let breadcrumbs: Breadcrumb[] = [];
+  const stored = storageKey ? readJSON<unknown>(storageKey) : null;
+  let reports: ErrorReport[] = Array.isArray(stored) ? stored : [];
+
+  const addBreadcrumb = (
+    category: BreadcrumbCategory,
+    message: string,
+    data?: Breadcrumb["data"]
+  ) => {
+    const crumb: Breadcrumb = { at: new Date().toISOString(), category, message, ...(data && { data }) };
+    breadcrumbs = [...breadcrumbs, crumb].slice(-config.maxBreadcrumbs);
+  };
+
+  // 오류 기록. 새로 보고했으면 보고서를, 중복이라 횟수만 늘렸으면 null 반환
+  const captureError = (
+    error: unknown,
+    source: string,
+    extra: Record<string, string> = {}
+  ): ErrorReport | null => {
+    const { name, message, stack } = normalizeError(error);
+    const fingerprint = getFingerprint(name, message, stack);
+    const now = new Date();
+    const prev = reports.find((report) => report.fingerprint === fingerprint);
+    const isDuplicate =
+      prev !== undefined && now.getTime() - Date.parse(prev.lastSeenAt) < config.dedupeWindowMs;
+
+    const report: ErrorReport = {
+      fingerprint,
+      name,
+      message,
+      stack,
+      source,
+      count: (prev?.count ?? 0) + 1,
+      firstSeenAt: prev?.firstSeenAt ?? now.toISOString(),
+      lastSeenAt: now.toISOString(),
+      extra,
+      breadcrumbs: isDuplicate && prev ? prev.breadcrumbs : breadcrumbs,
+    };
+    reports = [...reports.filter((item) => item !== prev), report].slice(-config.maxReports);
+    if (storageKey) writeJSON(storageKey, reports);
+    if (isDuplicate) return null;
+
+    reporters.forEach((reporter) => {
+      // reporter 자체의 실패는 다시 보고하지 않음 (무한 반복 방지)
+      reporter
+        .report(report)
+        .then((result) => {
+          if (!result.ok) console.warn(`Error reporter "${reporter.name}" failed:`, result.error);
+        })
+        .catch((err) => console.warn(`Error reporter "${reporter.name}" threw:`, err));
+    });
+    return report;
+  };
+
+  return {
+    addBreadcrumb,
+    captureError,
+    getBreadcrumbs: () => breadcrumbs,
+    getReports: () => reports,
+  };
+};
+
+export type ErrorTracker = ReturnType<typeof createErrorTracker>;
+
+const tracker = createErrorTracker({
+  reporters: [
+    createConsoleReporter(),
+    createAnalyticsReporter(),
+    ...(API_CONFIG.baseUrl
+      ? [
+          createHttpReporter(
+            createApiClient({
+              baseUrl: API_CONFIG.baseUrl,
+              timeoutMs: API_CONFIG.timeoutMs,
+              getToken: getAccessToken,
+            })
+          ),
+        ]
+      : []),
+  ],
+  config: ERROR_CONFIG,
+});
+
+export const addBreadcrumb = tracker.addBreadcrumb;
+export const captureError = tracker.captureError;
+
+/* --- 진단 정보 --- */
+
+export const createDiagnosticBundle = (): DiagnosticBundle => ({
+  generatedAt: new Date().toISOString(),
+  environment: {
+    url: window.location.href,
+    userAgent: navigator.userAgent,
+    language: navigator.language,
+    screen: `${window.screen.width}x${window.screen.height}@${window.devicePixelRatio}`,
+    online: navigator.onLine,
+  },
+  settings: getSettings(),
+  signedIn: getAuthState().session !== null,
+  errors: tracker.getReports(),
+  breadcrumbs: tracker.getBreadcrumbs(),
+  recentEvents: getRecentEvents(),
+});
+
+// 진단 정보를 클립보드에 복사. 성공 여부 반환
+export const copyDiagnostics = async (): Promise<boolean> => {
+  const text = JSON.stringify(createDiagnosticBundle(), null, 2);
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (err) {
+    console.warn("Clipboard write failed:", err);
+    return false;
+  }
+};
+
+/* --- 전역 수집 --- */
+
+// 처리되지 않은 오류와 거부된 Promise 수집 시작 (정리 함수 반환)
+export const startErrorCapture = () => {
+  const handleError = (e: ErrorEvent) => {
+    captureError(e.error ?? e.message, "window.onerror", {
+      location: `${e.filename}:${e.lineno}:${e.colno}`,
+    });
+  };
+  const handleRejection = (e: PromiseRejectionEvent) => captureError(e.reason, "unhandledrejection");
+
+  window.addEventListener("error", handleError);
+  window.addEventListener("unhandledrejection", handleRejection);
+  return () => {
+    window.removeEventListener("error", handleError);
+    window.removeEventListener("unhandledrejection", handleRejection);
+  };
+};
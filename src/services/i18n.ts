@@ -0,0 +1,90 @@
+import { DEFAULT_LOCALE } from "../config/i18n";
+import { checkCatalog, formatMessage } from "../core/i18n/format";
+import { captureError } from "./error";
+import ko from "../locales/ko";
+import type { Catalog, I18nState, MessageKey, MessageValues } from "../types/I18n";
+import type { Locale } from "../types/User";
+
+/* --- 다국어 ---
+ * 기준 언어(한국어) 카탈로그만 번들에 넣고, 다른 언어는 처음 고를 때 따로 내려받습니다.
+ * 내려받는 동안과 실패했을 때는 지금 언어를 유지하고, 번역이 빠진 문장은 한국어로 표시합니다.
+ *
+ * 개발 중에는 카탈로그를 불러올 때 빠진 키, 없는 키, 문법 오류를 콘솔에 보고합니다.
+ */
+
+const LOADERS: Record<Locale, () => Promise<Catalog>> = {
+  ko: async () => ko,
+  en: () => import("../locales/en").then((module) => module.default),
+  ja: () => import("../locales/ja").then((module) => module.default),
+};
+
+const catalogs = new Map<Locale, Promise<Catalog>>();
+
+const reportCatalog = (locale: Locale, catalog: Catalog) => {
+  const { missing, unknown, invalid } = checkCatalog(ko, catalog);
+  if (missing.length > 0) console.warn(`[i18n] ${locale}: missing ${missing.length} keys`, missing);
+  if (unknown.length > 0) console.warn(`[i18n] ${locale}: unknown keys`, unknown);
+  if (invalid.length > 0) console.warn(`[i18n] ${locale}: invalid messages\n${invalid.join("\n")}`);
+};
+
+// 언어별 카탈로그 (한 번만 내려받고, 실패하면 다음에 다시 시도)
+const loadCatalog = (locale: Locale): Promise<Catalog> => {
+  const cached = catalogs.get(locale);
+  if (cached) return cached;
+
+  const loading = LOADERS[locale]().then((catalog) => {
+    if (import.meta.env.DEV) reportCatalog(locale, catalog);
+    return catalog;
+  });
+  catalogs.set(locale, loading);
+  loading.catch(() => catalogs.delete(locale));
+  return loading;
+};
+
+/* --- 현재 언어 --- */
+
+let state: I18nState = { locale: DEFAULT_LOCALE, messages: ko };
+let requested: Locale = DEFAULT_LOCALE;
+const listeners = new Set<() => void>();
+
+export const getI18nState = (): I18nState => state;
+
+// 언어 변경 구독 (구독 해제 함수 반환)
+export const subscribeI18n = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// 언어 전환 (카탈로그를 다 받은 뒤에 바뀜, 그 사이 다른 언어를 고르면 마지막 선택만 적용)
+export const setLocale = async (locale: Locale): Promise<void> => {
+  requested = locale;
+  try {
+    const messages = await loadCatalog(locale);
+    if (requested !== locale || state.locale === locale) return;
+    state = { locale, messages };
+    listeners.forEach((listener) => listener());
+  } catch (err) {
+    captureError(err, "i18n");
+  }
+};
+
+/* --- 번역 --- */
+
+// 지정한 상태의 언어로 번역 (빠진 문장은 기준 언어, 형식 오류는 원문 그대로)
+export const translateWith = (
+  { locale, messages }: I18nState,
+  key: MessageKey,
+  values?: MessageValues
+): string => {
+  const text = messages[key] ?? ko[key];
+  try {
+    return formatMessage(text, values, locale);
+  } catch (err) {
+    if (import.meta.env.DEV) console.warn(`[i18n] ${locale}: cannot format "${key}"`, err);
+    return text;
+  }
+};
+
+// 지금 언어로 번역 (React 밖에서 사용, 컴포넌트는 useTranslation 사용)
+export const translate = (key: MessageKey, values?: MessageValues): string =>
+  translateWith(state, key, values);
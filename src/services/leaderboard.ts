@@ -0,0 +1,286 @@
+import { API_CONFIG } from "../config/api";
+import { LEADERBOARD_CONFIG, LeaderboardConfig } from "../config/leaderboard";
+import { ApiClient, ApiResult, createApiClient, isRetryable } from "./api";
+import { getAccessToken } from "./auth";
+import { readJSON, writeJSON } from "../utils/localStorage";
+import { isRecord } from "../utils/validation";
+import type {
+  LeaderboardEntry,
+  LeaderboardPage,
+  LeaderboardQuery,
+  ScoreSubmission,
+} from "../types/Leaderboard";
+
+/* --- 순위표 서비스 ---
+ * 순위 조회/점수 등록은 LeaderboardBackend 인터페이스만 거칩니다.
+ * 서버 주소가 설정되어 있으면 HTTP 백엔드를, 없으면 localStorage 대체 구현을 사용합니다.
+ * 점수 등록은 항상 전송 대기열을 거치므로 오프라인에서 등록한 점수도 연결되면 다시 전송됩니다.
+ */
+
+export type RankQuery = Omit<LeaderboardQuery, "page" | "pageSize">;
+
+export interface LeaderboardBackend {
+  fetchPage: (query: LeaderboardQuery) => Promise<ApiResult<LeaderboardPage>>;
+  fetchRank: (query: RankQuery) => Promise<ApiResult<LeaderboardEntry | null>>; // 기록이 없으면 null
+  submit: (submission: ScoreSubmission) => Promise<ApiResult<void>>;
+}
+
+/* --- 순위 계산 --- */
+
+// 플레이어별 최고 기록만 남겨 순위 매기기 (동점이면 먼저 등록한 기록이 위)
+export const rankSubmissions = (submissions: readonly ScoreSubmission[]): LeaderboardEntry[] => {
+  const best = new Map<string, ScoreSubmission>();
+  submissions.forEach((submission) => {
+    const prev = best.get(submission.player.id);
+    if (!prev || submission.score > prev.score) best.set(submission.player.id, submission);
+  });
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score || a.submittedAt.localeCompare(b.submittedAt))
+    .map(({ player, score, lines, submittedAt }, index) => ({
+      rank: index + 1,
+      player,
+      score,
+      lines,
+      submittedAt,
+    }));
+};
+
+/* --- 저장된 기록 검증 --- */
+
+// localStorage에서 읽은 기록 하나 검사 (형식이 맞지 않으면 null)
+const parseSubmission = (raw: unknown): ScoreSubmission | null => {
+  if (!isRecord(raw) || !isRecord(raw.player)) return null;
+  const { id, player, score, lines, seed, day, submittedAt } = raw;
+  if (
+    typeof id !== "string" ||
+    typeof player.id !== "string" ||
+    typeof player.name !== "string" ||
+    typeof score !== "number" ||
+    typeof lines !== "number" ||
+    typeof seed !== "number" ||
+    (day !== null && typeof day !== "string") ||
+    typeof submittedAt !== "string"
+  ) {
+    return null;
+  }
+  return { id, player: { id: player.id, name: player.name }, score, lines, seed, day, submittedAt };
+};
+
+// 배열이 아니면 null, 배열이면 형식이 맞는 항목만 남김
+const parseList = <T>(raw: unknown, parse: (item: unknown) => T | null): T[] | null =>
+  Array.isArray(raw) ? raw.map(parse).filter((item): item is T => item !== null) : null;
+
+/* --- 로컬 대체 구현 (개발/테스트용) --- */
+
+interface LocalBackendOptions {
+  storageKey?: string | null; // null이면 메모리에만 보관
+  friends?: (playerId: string) => readonly string[]; // 친구 순위표에 포함할 플레이어 ID
+  initial?: ScoreSubmission[]; // 저장된 기록이 없을 때 시작 기록
+}
+
+export const createLocalBackend = ({
+  storageKey = "leaderboard:local",
+  friends = () => [],
+  initial = [],
+}: LocalBackendOptions = {}): LeaderboardBackend => {
+  const stored = storageKey ? parseList(readJSON<unknown>(storageKey), parseSubmission) : null;
+  let submissions: ScoreSubmission[] = stored ?? initial;
+
+  const rankBoard = ({ board, playerId, day }: RankQuery) =>
+    rankSubmissions(
+      submissions.filter((submission) => {
+        switch (board) {
+          case "global":
+            return true;
+          case "daily":
+            return submission.day !== null && submission.day === day;
+          case "friends":
+            return submission.player.id === playerId || friends(playerId).includes(submission.player.id);
+        }
+      })
+    );
+
+  return {
+    fetchPage: async (query) => {
+      const entries = rankBoard(query);
+      const start = query.page * query.pageSize;
+      return {
+        ok: true,
+        value: {
+          entries: entries.slice(start, start + query.pageSize),
+          page: query.page,
+          pageSize: query.pageSize,
+          total: entries.length,
+        },
+      };
+    },
+    fetchRank: async (query) => ({
+      ok: true,
+      value: rankBoard(query).find(({ player }) => player.id === query.playerId) ?? null,
+    }),
+    submit: async (submission) => {
+      // 재전송된 기록은 한 번만 반영
+      if (!submissions.some(({ id }) => id === submission.id)) {
+        submissions = [...submissions, submission];
+        if (storageKey) writeJSON(storageKey, submissions);
+      }
+      return { ok: true, value: undefined };
+    },
+  };
+};
+
+/* --- HTTP 백엔드 --- */
+
+export const createHttpBackend = (client: ApiClient): LeaderboardBackend => ({
+  fetchPage: ({ board, playerId, day, page, pageSize }) =>
+    client.get<LeaderboardPage>(`/leaderboards/${board}`, { playerId, day, page, pageSize }),
+  fetchRank: ({ board, playerId, day }) =>
+    client.get<LeaderboardEntry | null>(
+      `/leaderboards/${board}/players/${encodeURIComponent(playerId)}`,
+      { day }
+    ),
+  submit: (submission) => client.post<void>("/scores", submission),
+});
+
+/* --- 전송 대기열 --- */
+
+interface QueuedSubmission {
+  submission: ScoreSubmission;
+  attempts: number; // 실패한 횟수
+  nextAttemptAt: number; // 다음 전송 시각 (ms)
+}
+
+const parseQueued = (raw: unknown): QueuedSubmission | null => {
+  if (!isRecord(raw) || typeof raw.attempts !== "number" || typeof raw.nextAttemptAt !== "number") {
+    return null;
+  }
+  const submission = parseSubmission(raw.submission);
+  return submission && { submission, attempts: raw.attempts, nextAttemptAt: raw.nextAttemptAt };
+};
+
+// 실패 횟수에 따른 재전송 대기 시간 (지수 백오프)
+export const getRetryDelay = (attempts: number, { baseMs, maxMs }: LeaderboardConfig["retry"]) =>
+  Math.min(maxMs, baseMs * 2 ** attempts);
+
+// 전송 실패 시 백오프 후 재전송하고, 대기열은 localStorage에 보관해 새로고침 후에도 이어서 전송
+// 다시 시도해도 소용없는 실패(잘못된 요청 등)만 버립니다.
+export const createSubmissionQueue = (
+  backend: LeaderboardBackend,
+  { storageKey = "leaderboard:queue", retry }: { storageKey?: string; retry: LeaderboardConfig["retry"] }
+) => {
+  // 손상된 항목은 버리고 나머지만 이어서 전송
+  let queue: QueuedSubmission[] = parseList(readJSON<unknown>(storageKey), parseQueued) ?? [];
+  let timer: number | undefined;
+  let flushing = false;
+  const listeners = new Set<() => void>();
+
+  const save = () => {
+    writeJSON(storageKey, queue);
+    listeners.forEach((listener) => listener());
+  };
+
+  // 가장 이른 재전송 시각에 맞춰 타이머 설정
+  const schedule = () => {
+    window.clearTimeout(timer);
+    if (queue.length === 0) return;
+    const next = Math.min(...queue.map(({ nextAttemptAt }) => nextAttemptAt));
+    timer = window.setTimeout(() => void flush(), Math.max(0, next - Date.now()));
+  };
+
+  const flush = async () => {
+    if (flushing) return;
+    flushing = true;
+    const due = queue.filter(({ nextAttemptAt }) => nextAttemptAt <= Date.now());
+    for (const item of due) {
+      // 기다리는 동안 retryNow가 항목을 새 객체로 바꿀 수 있으므로 기록 ID로 찾음
+      const { id } = item.submission;
+      const result = await backend.submit(item.submission);
+      if (result.ok) {
+        queue = queue.filter((queued) => queued.submission.id !== id);
+      } else if (!isRetryable(result.error)) {
+        console.warn("Score submission rejected:", result.error);
+        queue = queue.filter((queued) => queued.submission.id !== id);
+      } else {
+        queue = queue.map((queued) =>
+          queued.submission.id === id
+            ? {
+                ...queued,
+                attempts: queued.attempts + 1,
+                nextAttemptAt: Date.now() + getRetryDelay(queued.attempts, retry),
+              }
+            : queued
+        );
+      }
+    }
+    flushing = false;
+    save();
+    schedule();
+  };
+
+  const enqueue = (submission: ScoreSubmission) => {
+    queue = [...queue, { submission, attempts: 0, nextAttemptAt: 0 }];
+    save();
+    void flush();
+  };
+
+  // 네트워크가 다시 연결되면 백오프를 무시하고 바로 전송
+  const retryNow = () => {
+    queue = queue.map((item) => ({ ...item, nextAttemptAt: 0 }));
+    void flush();
+  };
+
+  return {
+    enqueue,
+    flush,
+    retryNow,
+    getPendingCount: () => queue.length,
+    subscribe: (listener: () => void): (() => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+export type SubmissionQueue = ReturnType<typeof createSubmissionQueue>;
+
+/* --- 순위표 클라이언트 --- */
+
+const createSubmissionId = () =>
+  `${Date.now().toString(36)}-${Math.floor(Math.random() * 0xffffffff).toString(36)}`;
+
+export const createLeaderboardClient = (backend: LeaderboardBackend, queue: SubmissionQueue) => ({
+  fetchPage: (query: LeaderboardQuery) => backend.fetchPage(query),
+  fetchMyRank: (query: RankQuery) => backend.fetchRank(query),
+  // 점수 등록 (대기열을 거쳐 전송)
+  submitScore: (submission: Omit<ScoreSubmission, "id" | "submittedAt">) =>
+    queue.enqueue({
+      ...submission,
+      id: createSubmissionId(),
+      submittedAt: new Date().toISOString(),
+    }),
+  getPendingCount: queue.getPendingCount,
+  subscribePending: queue.subscribe,
+  // 앱 실행 중 남은 기록 전송과 재연결 감지 시작 (정리 함수 반환)
+  startSync: () => {
+    window.addEventListener("online", queue.retryNow);
+    void queue.flush();
+    return () => window.removeEventListener("online", queue.retryNow);
+  },
+});
+
+export type LeaderboardClient = ReturnType<typeof createLeaderboardClient>;
+
+const backend: LeaderboardBackend = API_CONFIG.baseUrl
+  ? createHttpBackend(
+      createApiClient({
+        baseUrl: API_CONFIG.baseUrl,
+        timeoutMs: API_CONFIG.timeoutMs,
+        getToken: getAccessToken,
+      })
+    )
+  : createLocalBackend();
+
+export const leaderboard = createLeaderboardClient(
+  backend,
+  createSubmissionQueue(backend, { retry: LEADERBOARD_CONFIG.retry })
+);
@@ -0,0 +1,295 @@
+import { METRICS_CONFIG, MetricsConfig } from "../config/metrics";
+import { readString, writeString } from "../utils/localStorage";
+import type {
+  CounterSummary,
+  MetricsExport,
+  MetricsSnapshot,
+  Percentiles,
+  TimingSummary,
+} from "../types/Metrics";
+
+/* --- 성능 측정 ---
+ * 프레임 간격(FPS, 백분위), 긴 작업, 이름별 처리 시간(물리 계산, 커서, 패럴랙스 등)과
+ * 프레임당 개수(충돌 검사 수)를 최근 windowSize 표본으로 요약합니다.
+ *
+ * 측정은 오버레이를 켰을 때만 합니다. 꺼져 있으면 recordTiming/recordCount는 바로 반환하므로
+ * 자주 불리는 곳에 그대로 두어도 됩니다.
+ */
+
+/* --- 요약 계산 --- */
+
+// 정렬된 표본의 백분위 값 (nearest-rank)
+export const getPercentile = (sorted: readonly number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+};
+
+export const getPercentiles = (values: readonly number[]): Percentiles => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p50: getPercentile(sorted, 50),
+    p95: getPercentile(sorted, 95),
+    p99: getPercentile(sorted, 99),
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+};
+
+const average = (values: readonly number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// 최근 size개만 남기고 추가
+const pushRecent = (values: number[], value: number, size: number) => {
+  values.push(value);
+  if (values.length > size) values.splice(0, values.length - size);
+};
+
+/* --- 수집기 --- */
+
+interface MetricsOptions {
+  config: MetricsConfig;
+  now?: () => number; // ms (테스트에서 고정값 주입)
+  longTaskSupported?: boolean; // false면 긴 프레임을 긴 작업으로 셈
+}
+
+export const createMetrics = ({
+  config,
+  now = () => performance.now(),
+  longTaskSupported = false,
+}: MetricsOptions) => {
+  let enabled = false;
+  let lastFrameAt: number | null = null;
+  const frameTimes: number[] = [];
+  const timings = new Map<string, { durations: number[]; calledAt: number[] }>();
+  const counters = new Map<string, number[]>();
+  let longTasks = { count: 0, totalMs: 0, maxMs: 0 };
+
+  const recordLongTask = (ms: number) => {
+    if (!enabled) return;
+    longTasks = {
+      count: longTasks.count + 1,
+      totalMs: longTasks.totalMs + ms,
+      maxMs: Math.max(longTasks.maxMs, ms),
+    };
+  };
+
+  // requestAnimationFrame 콜백의 시각으로 프레임 간격 기록
+  const recordFrame = (time: number) => {
+    if (!enabled) return;
+    if (lastFrameAt !== null) {
+      const delta = time - lastFrameAt;
+      pushRecent(frameTimes, delta, config.windowSize);
+      if (!longTaskSupported && delta > config.longTaskMs) recordLongTask(delta);
+    }
+    lastFrameAt = time;
+  };
+
+  const recordTiming = (name: string, ms: number) => {
+    if (!enabled) return;
+    const timing = timings.get(name) ?? { durations: [], calledAt: [] };
+    timings.set(name, timing);
+    pushRecent(timing.durations, ms, config.windowSize);
+    pushRecent(timing.calledAt, now(), config.windowSize);
+  };
+
+  // fn 실행 시간을 name으로 기록 (반환값은 그대로 전달)
+  const measure = <T>(name: string, fn: () => T): T => {
+    if (!enabled) return fn();
+    const start = now();
+    try {
+      return fn();
+    } finally {
+      recordTiming(name, now() - start);
+    }
+  };
+
+  const recordCount = (name: string, count: number) => {
+    if (!enabled) return;
+    const values = counters.get(name) ?? [];
+    counters.set(name, values);
+    pushRecent(values, count, config.windowSize);
+  };
+
+  const getSnapshot = (): MetricsSnapshot => {
+    const at = now();
+    const summarizeTiming = ({
+      durations,
+      calledAt,
+    }: {
+      durations: number[];
+      calledAt: number[];
+    }): TimingSummary => ({
+      perSecond: calledAt.filter((time) => at - time <= 1000).length,
+      avgMs: average(durations),
+      p95Ms: getPercentile([...durations].sort((a, b) => a - b), 95),
+      maxMs: Math.max(0, ...durations),
+    });
+    const summarizeCounter = (values: number[]): CounterSummary => ({
+      last: values[values.length - 1] ?? 0,
+      avg: average(values),
+      max: Math.max(0, ...values),
+    });
+    const meanFrame = average(frameTimes);
+
+    return {
+      frames: frameTimes.length,
+      fps: meanFrame > 0 ? 1000 / meanFrame : 0,
+      frameTime: getPercentiles(frameTimes),
+      longTasks: { supported: longTaskSupported, ...longTasks },
+      timings: Object.fromEntries(
+        [...timings].map(([name, timing]) => [name, summarizeTiming(timing)])
+      ),
+      counters: Object.fromEntries(
+        [...counters].map(([name, values]) => [name, summarizeCounter(values)])
+      ),
+    };
+  };
+
+  const reset = () => {
+    lastFrameAt = null;
+    frameTimes.length = 0;
+    timings.clear();
+    counters.clear();
+    longTasks = { count: 0, totalMs: 0, maxMs: 0 };
+  };
+
+  const setEnabled = (next: boolean) => {
+    if (next === enabled) return;
+    enabled = next;
+    reset();
+  };
+
+  return {
+    recordFrame,
+    recordTiming,
+    recordCount,
+    recordLongTask,
+    measure,
+    getSnapshot,
+    getFrameTimes: () => [...frameTimes],
+    reset,
+    setEnabled,
+    isEnabled: () => enabled,
+  };
+};
+
+export type Metrics = ReturnType<typeof createMetrics>;
+
+const supportsLongTasks =
+  typeof PerformanceObserver !== "undefined" &&
+  (PerformanceObserver.supportedEntryTypes ?? []).includes("longtask");
+
+const metrics = createMetrics({ config: METRICS_CONFIG, longTaskSupported: supportsLongTasks });
+
+export const recordTiming = metrics.recordTiming;
+export const recordCount = metrics.recordCount;
+export const measure = metrics.measure;
+
+/* --- 오버레이 상태 / 구독 --- */
+
+const OVERLAY_KEY = "metrics:overlay";
+
+let snapshot: MetricsSnapshot = metrics.getSnapshot();
+const listeners = new Set<() => void>();
+
+export const getMetricsSnapshot = (): MetricsSnapshot => snapshot;
+
+export const isMetricsEnabled = metrics.isEnabled;
+
+// 요약 갱신과 켜기/끄기 구독 (구독 해제 함수 반환)
+export const subscribeMetrics = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const publish = () => {
+  snapshot = metrics.getSnapshot();
+  listeners.forEach((listener) => listener());
+};
+
+/* --- 측정 루프 --- */
+
+let frameRequest: number | null = null;
+let publishTimer: number | undefined;
+let longTaskObserver: PerformanceObserver | null = null;
+
+const startSampling = () => {
+  const onFrame = (time: number) => {
+    metrics.recordFrame(time);
+    frameRequest = requestAnimationFrame(onFrame);
+  };
+  frameRequest = requestAnimationFrame(onFrame);
+  publishTimer = window.setInterval(publish, METRICS_CONFIG.publishIntervalMs);
+
+  if (supportsLongTasks) {
+    longTaskObserver = new PerformanceObserver((list) =>
+      list.getEntries().forEach((entry) => metrics.recordLongTask(entry.duration))
+    );
+    longTaskObserver.observe({ type: "longtask" });
+  }
+};
+
+const stopSampling = () => {
+  if (frameRequest !== null) cancelAnimationFrame(frameRequest);
+  frameRequest = null;
+  window.clearInterval(publishTimer);
+  longTaskObserver?.disconnect();
+  longTaskObserver = null;
+};
+
+export const setMetricsEnabled = (next: boolean) => {
+  if (next === metrics.isEnabled()) return;
+  metrics.setEnabled(next);
+  writeString(OVERLAY_KEY, next ? "on" : "off");
+  if (next) startSampling();
+  else stopSampling();
+  publish();
+};
+
+/* --- 내보내기 --- */
+
+export const exportMetrics = (): MetricsExport => {
+  const nav = navigator as Navigator & { deviceMemory?: number };
+  return {
+    generatedAt: new Date().toISOString(),
+    device: {
+      userAgent: nav.userAgent,
+      hardwareConcurrency: nav.hardwareConcurrency ?? null,
+      deviceMemory: nav.deviceMemory ?? null,
+      devicePixelRatio: window.devicePixelRatio,
+      viewport: `${window.innerWidth}x${window.innerHeight}`,
+    },
+    snapshot: metrics.getSnapshot(),
+    frameTimes: metrics.getFrameTimes(),
+  };
+};
+
+// 측정 결과를 JSON 파일로 저장
+export const downloadMetrics = () => {
+  const blob = new Blob([JSON.stringify(exportMetrics(), null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `7drops-metrics-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// 저장된 오버레이 상태(또는 주소의 ?metrics) 복원과 단축키 등록 (정리 함수 반환)
+export const startMetrics = () => {
+  const fromUrl = new URLSearchParams(window.location.search).has("metrics");
+  if (fromUrl || readString(OVERLAY_KEY) === "on") setMetricsEnabled(true);
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.code !== METRICS_CONFIG.toggleKey || e.repeat) return;
+    e.preventDefault();
+    setMetricsEnabled(!metrics.isEnabled());
+  };
+  window.addEventListener("keydown", handleKeyDown);
+  return () => {
+    window.removeEventListener("keydown", handleKeyDown);
+    // 저장된 상태는 그대로 두고 측정만 멈춤 (다시 시작하면 복원)
+    stopSampling();
+    metrics.setEnabled(false);
+  };
+};
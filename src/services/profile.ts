@@ -0,0 +1,214 @@
+import { API_CONFIG } from "../config/api";
+import { ApiClient, ApiResult, createApiClient } from "./api";
+import { getAccessToken, getAuthState, subscribeAuth } from "./auth";
+import { mergeProfiles } from "../core/profile/merge";
+import { DEFAULT_SETTINGS, getSettings, parseSettings, updateSettings } from "../store/userSettings";
+import { loadChallengeProgress, replaceChallengeProgress } from "../store/challenges";
+import { getAchievements, parseAchievements, replaceAchievements } from "../store/achievements";
+import {
+  loadPatternCollection,
+  parsePatternCollection,
+  replacePatternCollection,
+} from "../store/patternCollection";
+import { isRecord } from "../utils/validation";
+import { readJSON, readString, removeItem, writeJSON, writeString } from "../utils/localStorage";
+import type { MessageKey } from "../types/I18n";
+import type { PlayerProfile, ProfileMergeSummary, SettingConflict } from "../types/User";
+
+/* --- 플레이어 프로필 서비스 ---
+ * 기기에 저장된 진행 상황(설정, 별점, 업적/최고 점수, 도감)을 하나의 프로필로 모아
+ * 로그인한 계정 프로필과 병합합니다. 병합 규칙은 core/profile/merge.ts를 참고하세요.
+ *
+ * 계정마다 처음 로그인할 때만 병합 요약을 보여 주고, 이후 앱을 시작할 때는
+ * 이 기기의 설정을 그대로 둔 채 진행 상황만 조용히 맞춥니다.
+ */
+
+export const PROFILE_VERSION = 1;
+
+// 이 기기에서 마지막으로 병합을 마친 계정 ID
+const SYNCED_USER_KEY = "profile:syncedUser";
+
+export interface ProfileBackend {
+  load: (userId: string) => Promise<ApiResult<PlayerProfile | null>>; // 저장된 프로필이 없으면 null
+  save: (userId: string, profile: PlayerProfile) => Promise<ApiResult<void>>;
+}
+
+/* --- 읽기 / 검사 --- */
+
+const parseStars = (raw: unknown): Record<string, number> =>
+  isRecord(raw)
+    ? Object.fromEntries(
+        Object.entries(raw).filter(
+          (entry): entry is [string, number] => typeof entry[1] === "number" && entry[1] >= 0
+        )
+      )
+    : {};
+
+export const parseProfile = (raw: unknown): PlayerProfile | null => {
+  if (!isRecord(raw)) return null;
+  return {
+    version: PROFILE_VERSION,
+    settings: parseSettings(raw.settings),
+    challengeStars: parseStars(raw.challengeStars),
+    achievements: parseAchievements(raw.achievements),
+    patternCollection: parsePatternCollection(raw.patternCollection),
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : new Date(0).toISOString(),
+  };
+};
+
+/* --- 백엔드 --- */
+
+// 서버가 없을 때 계정별 프로필을 localStorage에 보관 (개발/테스트용)
+export const createLocalProfileBackend = (): ProfileBackend => ({
+  load: async (userId) => ({ ok: true, value: parseProfile(readJSON<unknown>(`profile:${userId}`)) }),
+  save: async (userId, profile) => {
+    writeJSON(`profile:${userId}`, profile);
+    return { ok: true, value: undefined };
+  },
+});
+
+// 계정은 액세스 토큰으로 구분하므로 userId는 쓰지 않음
+export const createHttpProfileBackend = (client: ApiClient): ProfileBackend => ({
+  load: async () => {
+    const result = await client.get<unknown>("/profile");
+    if (result.ok) return { ok: true, value: parseProfile(result.value) };
+    if (result.error.kind === "http" && result.error.status === 404) return { ok: true, value: null };
+    return result;
+  },
+  save: (_userId, profile) => client.put<void>("/profile", profile),
+});
+
+const backend: ProfileBackend = API_CONFIG.baseUrl
+  ? createHttpProfileBackend(
+      createApiClient({
+        baseUrl: API_CONFIG.baseUrl,
+        timeoutMs: API_CONFIG.timeoutMs,
+        getToken: getAccessToken,
+      })
+    )
+  : createLocalProfileBackend();
+
+/* --- 기기 프로필 --- */
+
+// 기기에 저장된 진행 상황을 프로필로 모음
+export const collectGuestProfile = (): PlayerProfile => ({
+  version: PROFILE_VERSION,
+  settings: getSettings(),
+  challengeStars: loadChallengeProgress(),
+  achievements: getAchievements(),
+  patternCollection: loadPatternCollection(),
+  updatedAt: new Date().toISOString(),
+});
+
+// 병합한 프로필을 기기 저장소에 반영
+export const applyProfile = (profile: PlayerProfile) => {
+  updateSettings(() => profile.settings);
+  replaceChallengeProgress(profile.challengeStars);
+  replaceAchievements(profile.achievements);
+  replacePatternCollection(profile.patternCollection);
+};
+
+/* --- 동기화 상태 / 구독 --- */
+
+export interface ProfileSyncState {
+  status: "idle" | "syncing" | "error";
+  summary: ProfileMergeSummary | null; // 확인하지 않은 병합 요약 (처음 로그인한 경우만)
+  error: MessageKey | null;
+}
+
+let state: ProfileSyncState = { status: "idle", summary: null, error: null };
+const listeners = new Set<() => void>();
+
+export const getProfileSyncState = (): ProfileSyncState => state;
+
+// 동기화 상태 변경 구독 (구독 해제 함수 반환)
+export const subscribeProfileSync = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const setState = (patch: Partial<ProfileSyncState>) => {
+  state = { ...state, ...patch };
+  listeners.forEach((listener) => listener());
+};
+
+export const dismissMergeSummary = () => setState({ summary: null });
+
+/* --- 동기화 --- */
+
+// 충돌을 다른 쪽으로 다시 해결할 수 있도록 마지막 병합 입력 보관
+let lastMerge: { userId: string; local: PlayerProfile; remote: PlayerProfile | null } | null = null;
+
+const mergeAndSave = async (
+  userId: string,
+  local: PlayerProfile,
+  remote: PlayerProfile | null,
+  preferSettings?: SettingConflict["chosen"]
+) => {
+  const { profile, summary } = mergeProfiles(local, remote, {
+    defaults: DEFAULT_SETTINGS,
+    now: new Date().toISOString(),
+    preferSettings,
+  });
+  applyProfile(profile);
+  lastMerge = { userId, local, remote };
+  const saved = await backend.save(userId, profile);
+  const error: MessageKey | null = saved.ok ? null : "profile.error.save";
+  return { summary, error };
+};
+
+const syncProfile = async (userId: string) => {
+  setState({ status: "syncing", error: null });
+  const remote = await backend.load(userId);
+  if (!remote.ok) {
+    setState({ status: "error", error: "profile.error.load" });
+    return;
+  }
+
+  const firstSignIn = readString(SYNCED_USER_KEY) !== userId;
+  const { summary, error } = await mergeAndSave(
+    userId,
+    collectGuestProfile(),
+    remote.value,
+    firstSignIn ? undefined : "local"
+  );
+  writeString(SYNCED_USER_KEY, userId);
+  setState({
+    status: error ? "error" : "idle",
+    summary: firstSignIn ? summary : state.summary,
+    error,
+  });
+};
+
+// 병합 요약의 설정 충돌을 모두 한쪽으로 다시 해결
+export const resolveSettingConflicts = async (chosen: SettingConflict["chosen"]) => {
+  if (!lastMerge) return;
+  const { userId, local, remote } = lastMerge;
+  // 진행 상황은 병합 뒤에 쌓인 것까지 포함하도록 지금 기기 값에서 다시 모으고,
+  // 설정만 병합 전 기기 값으로 되돌려 충돌을 다시 고름
+  const current = { ...collectGuestProfile(), settings: local.settings };
+  const { summary, error } = await mergeAndSave(userId, current, remote, chosen);
+  setState({ status: error ? "error" : "idle", summary, error });
+};
+
+// 로그인/로그아웃을 감시해 계정 프로필과 동기화 (정리 함수 반환)
+export const startProfileSync = () => {
+  let syncedFor: string | null = null;
+
+  const handleAuth = () => {
+    const userId = getAuthState().session?.user.id ?? null;
+    if (userId === syncedFor) return;
+    syncedFor = userId;
+    lastMerge = null;
+    if (userId) {
+      void syncProfile(userId);
+    } else {
+      // 다음 로그인은 처음 로그인처럼 병합 요약 표시
+      removeItem(SYNCED_USER_KEY);
+      setState({ status: "idle", summary: null, error: null });
+    }
+  };
+
+  handleAuth();
+  return subscribeAuth(handleAuth);
+};
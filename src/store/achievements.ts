@@ -0,0 +1,111 @@
+import { ACHIEVEMENTS } from "../config/achievements";
+import { createPlayerStats, findNewUnlocks } from "../core/achievements/rules";
+import { isRecord } from "../utils/validation";
+import { readJSON, writeJSON } from "../utils/localStorage";
+import type {
+  AchievementDef,
+  AchievementProgress,
+  PlayerStats,
+  PlayStreak,
+} from "../types/Achievement";
+
+/* --- 업적 저장소 ---
+ * 누적 기록과 달성한 업적을 localStorage에 보관합니다.
+ * 기록이 바뀔 때마다 업적을 다시 판정하고, 새로 달성한 업적은 구독자(알림 토스트)에게 전달합니다.
+ */
+
+const STORAGE_KEY = "achievements";
+
+const ACHIEVEMENTS_VERSION = 1;
+
+/* --- 읽기 / 검사 --- */
+
+const readCount = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? Math.floor(value) : 0;
+
+const readDay = (value: unknown): string | null =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+
+const parseStreak = (raw: unknown): PlayStreak => {
+  const streak = isRecord(raw) ? raw : {};
+  return {
+    lastDay: readDay(streak.lastDay),
+    current: readCount(streak.current),
+    best: readCount(streak.best),
+  };
+};
+
+const parseStats = (raw: unknown): PlayerStats => {
+  const defaults = createPlayerStats();
+  if (!isRecord(raw)) return defaults;
+  return {
+    gamesPlayed: readCount(raw.gamesPlayed),
+    totalLines: readCount(raw.totalLines),
+    totalCellsCleared: readCount(raw.totalCellsCleared),
+    patternsCompleted: readCount(raw.patternsCompleted),
+    discoveredPatterns: Array.isArray(raw.discoveredPatterns)
+      ? raw.discoveredPatterns.filter((id): id is string => typeof id === "string")
+      : defaults.discoveredPatterns,
+    bestScore: readCount(raw.bestScore),
+    maxCombo: readCount(raw.maxCombo),
+    maxBackToBack: readCount(raw.maxBackToBack),
+    challengeStars: readCount(raw.challengeStars),
+    playStreak: parseStreak(raw.playStreak),
+  };
+};
+
+export const parseAchievements = (raw: unknown): AchievementProgress => {
+  const data = isRecord(raw) ? raw : {};
+  const unlocked = isRecord(data.unlocked)
+    ? Object.fromEntries(
+        Object.entries(data.unlocked).filter(
+          (entry): entry is [string, string] => typeof entry[1] === "string"
+        )
+      )
+    : {};
+  return { version: ACHIEVEMENTS_VERSION, stats: parseStats(data.stats), unlocked };
+};
+
+/* --- 상태 / 구독 --- */
+
+let current: AchievementProgress | null = null;
+const listeners = new Set<(unlocked: AchievementDef[]) => void>();
+
+export const getAchievements = (): AchievementProgress => {
+  if (!current) current = parseAchievements(readJSON<unknown>(STORAGE_KEY));
+  return current;
+};
+
+// 새 업적 달성 구독 (구독 해제 함수 반환)
+export const subscribeUnlocks = (listener: (unlocked: AchievementDef[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// 진행도 전체 교체 (계정 프로필과 병합한 결과 적용, 달성 알림 없음)
+export const replaceAchievements = (progress: AchievementProgress) => {
+  current = { ...progress, version: ACHIEVEMENTS_VERSION };
+  writeJSON(STORAGE_KEY, current);
+};
+
+// 누적 기록 갱신 후 업적 판정. 새로 달성한 업적 반환
+export const recordStats = (updater: (stats: PlayerStats) => PlayerStats): AchievementDef[] => {
+  const prev = getAchievements();
+  const stats = updater(prev.stats);
+  if (stats === prev.stats) return [];
+
+  const unlockedNow = findNewUnlocks(ACHIEVEMENTS, stats, prev.unlocked);
+  const achievedAt = new Date().toISOString();
+  current = {
+    ...prev,
+    stats,
+    unlocked: {
+      ...prev.unlocked,
+      ...Object.fromEntries(unlockedNow.map(({ id }) => [id, achievedAt])),
+    },
+  };
+  writeJSON(STORAGE_KEY, current);
+
+  if (unlockedNow.length > 0) listeners.forEach((listener) => listener(unlockedNow));
+  return unlockedNow;
+};
@@ -0,0 +1,25 @@
+import { readJSON, writeJSON } from "../utils/localStorage";
+
+/* --- 챌린지 진행도 저장소 ---
+ * 스테이지별 최고 별점을 localStorage에 보관합니다.
+ */
+
+const STORAGE_KEY = "challenges";
+
+export type ChallengeProgress = Record<string, number>;
+
+export const loadChallengeProgress = (): ChallengeProgress =>
+  readJSON<ChallengeProgress>(STORAGE_KEY) ?? {};
+
+// 별점 기록 (기존보다 높을 때만 갱신). 갱신된 전체 진행도 반환
+export const recordChallengeStars = (stageId: string, stars: number): ChallengeProgress => {
+  const progress = loadChallengeProgress();
+  if ((progress[stageId] ?? 0) >= stars) return progress;
+  const next = { ...progress, [stageId]: stars };
+  writeJSON(STORAGE_KEY, next);
+  return next;
+};
+
+// 진행도 전체 교체 (계정 프로필과 병합한 결과 적용)
+export const replaceChallengeProgress = (progress: ChallengeProgress) =>
+  writeJSON(STORAGE_KEY, progress);
@@ -0,0 +1,39 @@
+import { isRecord } from "../utils/validation";
+import { readJSON, writeJSON } from "../utils/localStorage";
+import type { PatternCollection } from "../types/Pattern";
+
+/* --- 실루엣 도감 저장소 ---
+ * 완성한 실루엣별 횟수와 처음 완성한 시각을 localStorage에 보관합니다.
+ */
+
+const STORAGE_KEY = "patterns";
+
+export const parsePatternCollection = (raw: unknown): PatternCollection => {
+  if (!isRecord(raw)) return {};
+  return Object.fromEntries(
+    Object.entries(raw).flatMap(([id, entry]) =>
+      isRecord(entry) && typeof entry.count === "number" && typeof entry.firstFoundAt === "string"
+        ? [[id, { count: entry.count, firstFoundAt: entry.firstFoundAt }]]
+        : []
+    )
+  );
+};
+
+export const loadPatternCollection = (): PatternCollection =>
+  parsePatternCollection(readJSON<unknown>(STORAGE_KEY));
+
+// 완성한 실루엣 기록. 갱신된 도감 반환
+export const recordPatternsFound = (patternIds: readonly string[]): PatternCollection => {
+  const now = new Date().toISOString();
+  const collection = { ...loadPatternCollection() };
+  patternIds.forEach((id) => {
+    const entry = collection[id];
+    collection[id] = entry ? { ...entry, count: entry.count + 1 } : { count: 1, firstFoundAt: now };
+  });
+  writeJSON(STORAGE_KEY, collection);
+  return collection;
+};
+
+// 도감 전체 교체 (계정 프로필과 병합한 결과 적용)
+export const replacePatternCollection = (collection: PatternCollection) =>
+  writeJSON(STORAGE_KEY, collection);
@@ -0,0 +1,34 @@
+import { getAuthState } from "../services/auth";
+import { isRecord } from "../utils/validation";
+import { readJSON, writeJSON } from "../utils/localStorage";
+import type { LeaderboardPlayer } from "../types/Leaderboard";
+
+/* --- 순위표 플레이어 ---
+ * 로그인하면 계정으로, 로그인하지 않았으면 기기별 임의 ID로 기록을 남깁니다.
+ */
+
+const STORAGE_KEY = "player";
+
+const createPlayerId = () =>
+  `guest-${Array.from({ length: 4 }, () =>
+    Math.floor(Math.random() * 0x10000)
+      .toString(16)
+      .padStart(4, "0")
+  ).join("")}`;
+
+export const getLocalPlayer = (): LeaderboardPlayer => {
+  const stored = readJSON<unknown>(STORAGE_KEY);
+  if (isRecord(stored) && typeof stored.id === "string" && typeof stored.name === "string") {
+    return { id: stored.id, name: stored.name };
+  }
+  const id = createPlayerId();
+  const player = { id, name: `Guest ${id.slice(-4).toUpperCase()}` };
+  writeJSON(STORAGE_KEY, player);
+  return player;
+};
+
+// 순위표에 등록할 현재 플레이어
+export const getCurrentPlayer = (): LeaderboardPlayer => {
+  const { session } = getAuthState();
+  return session ? { id: session.user.id, name: session.user.name } : getLocalPlayer();
+};
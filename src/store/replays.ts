@@ -0,0 +1,46 @@
+import { decodeReplay, encodeReplay } from "../core/game/replay";
+import { readString, writeString } from "../utils/localStorage";
+import type { Replay } from "../types/Game";
+
+/* --- 리플레이 저장소 ---
+ * 마지막 게임과 최고 기록 게임의 리플레이를 localStorage에 보관합니다.
+ */
+
+export type ReplaySlot = "last" | "best";
+
+const slotKey = (slot: ReplaySlot) => `replay:${slot}`;
+
+// 더 좋은 기록인지 비교 (점수 → 제거 칸 수 → 줄 수 → 생존 프레임 순)
+// 점수가 없는 예전 리플레이는 0점으로 취급
+const isBetter = (a: Replay, b: Replay): boolean => {
+  const scoreA = a.summary.score ?? 0;
+  const scoreB = b.summary.score ?? 0;
+  if (scoreA !== scoreB) return scoreA > scoreB;
+  if (a.summary.cellsCleared !== b.summary.cellsCleared) {
+    return a.summary.cellsCleared > b.summary.cellsCleared;
+  }
+  if (a.summary.lines !== b.summary.lines) return a.summary.lines > b.summary.lines;
+  return a.summary.frames > b.summary.frames;
+};
+
+export const loadReplay = (slot: ReplaySlot): Replay | null => {
+  const text = readString(slotKey(slot));
+  if (!text) return null;
+  const result = decodeReplay(text);
+  if (!result.ok) {
+    console.warn(`Stored replay (${slot}) is invalid:`, result.errors);
+    return null;
+  }
+  return result.value;
+};
+
+// 리플레이 저장. 최고 기록을 갱신하면 true
+export const saveReplay = (replay: Replay): boolean => {
+  const encoded = encodeReplay(replay);
+  writeString(slotKey("last"), encoded);
+
+  const best = loadReplay("best");
+  if (best && !isBetter(replay, best)) return false;
+  writeString(slotKey("best"), encoded);
+  return true;
+};
@@ -0,0 +1,203 @@
+import { DEFAULT_GAMEPAD_BINDINGS, DEFAULT_KEY_BINDINGS } from "../config/constants";
+import { DEFAULT_LOCALE, LOCALES } from "../config/i18n";
+import { THEME_PREFERENCES } from "../config/themes";
+import { matchLocale } from "../core/i18n/format";
+import { isRecord } from "../utils/validation";
+import { readJSON, writeJSON } from "../utils/localStorage";
+import type { GameAction } from "../types/Game";
+import type { ThemePreference } from "../types/Theme";
+import type { Locale, MotionPreference, UserSettings } from "../types/User";
+
+/* --- 사용자 설정 저장소 ---
+ * 설정은 버전이 붙은 JSON으로 localStorage에 보관합니다.
+ * 스키마를 바꿀 때는 SETTINGS_VERSION을 올리고 MIGRATIONS에 이전 버전 변환 함수를 추가하세요.
+ * 읽어온 값은 필드별로 검사해서, 잘못된 값만 기본값으로 되돌립니다.
+ */
+
+const STORAGE_KEY = "settings";
+
+export const SETTINGS_VERSION = 5;
+
+const MOTION_PREFERENCES: readonly MotionPreference[] = ["system", "reduced", "full"];
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  version: SETTINGS_VERSION,
+  audio: {
+    musicVolume: 0.3,
+    sfxVolume: 0.6,
+    muted: false,
+  },
+  haptics: true,
+  customCursor: true,
+  motion: "system",
+  theme: "auto",
+  // 처음 실행할 때는 브라우저 언어를 따름
+  language: matchLocale(
+    typeof navigator === "undefined" ? [] : navigator.languages,
+    LOCALES,
+    DEFAULT_LOCALE
+  ),
+  controls: {
+    keyboard: DEFAULT_KEY_BINDINGS,
+    gamepad: DEFAULT_GAMEPAD_BINDINGS,
+    das: 170,
+    arr: 50,
+    touch: {
+      swipeStepPx: 28,
+      flickVelocity: 1.2,
+      tapMaxMs: 200,
+      showButtons: false,
+    },
+  },
+};
+
+/* --- 마이그레이션 --- */
+
+type RawSettings = Record<string, unknown>;
+
+// 키: 변환 전 버전. 각 함수는 한 단계 다음 버전의 모양으로 바꿔서 반환합니다.
+const MIGRATIONS: Record<number, (raw: RawSettings) => RawSettings> = {
+  // 버전 필드가 없던 저장 데이터: 필드 구성은 같으므로 버전만 붙임
+  0: (raw) => ({ ...raw, version: 1 }),
+  // v2: hold 동작 추가. 기본 hold 키가 이미 다른 동작에 배정되어 있으면 그 키는 빼고 추가
+  1: (raw) => {
+    const controls = isRecord(raw.controls) ? raw.controls : {};
+    const keyboard = isRecord(controls.keyboard) ? controls.keyboard : {};
+    const used = new Set(
+      Object.values(keyboard).flatMap((keys) => (Array.isArray(keys) ? keys : []))
+    );
+    const hold = DEFAULT_KEY_BINDINGS.hold.filter((key) => !used.has(key));
+    return {
+      ...raw,
+      version: 2,
+      controls: { ...controls, keyboard: { ...keyboard, hold } },
+    };
+  },
+  // v3: 터치 조작 설정 추가 (값은 parseSettings에서 기본값으로 채움)
+  2: (raw) => ({ ...raw, version: 3 }),
+  // v4: 테마 설정 추가 (parseSettings에서 기존 화면과 같은 auto로 채움)
+  3: (raw) => ({ ...raw, version: 4 }),
+  // v5: reducedMotion(boolean) → motion. 켜 두었던 사용자는 계속 줄이고, 나머지는 운영체제 설정을 따름
+  4: ({ reducedMotion, ...raw }) => ({
+    ...raw,
+    version: 5,
+    motion: reducedMotion === true ? "reduced" : "system",
+  }),
+};
+
+const migrate = (raw: RawSettings): RawSettings => {
+  let current = raw;
+  let version = typeof current.version === "number" ? current.version : 0;
+  while (version < SETTINGS_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      console.warn(`No settings migration from version ${version}; using defaults.`);
+      return {};
+    }
+    current = step(current);
+    version++;
+  }
+  return current;
+};
+
+/* --- 필드 검사 --- */
+
+const readBoolean = (value: unknown, fallback: boolean): boolean =>
+  typeof value === "boolean" ? value : fallback;
+
+const readNumber = (value: unknown, fallback: number, min: number, max: number): number =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const readVolume = (value: unknown, fallback: number) => readNumber(value, fallback, 0, 1);
+const readMs = (value: unknown, fallback: number) => readNumber(value, fallback, 0, 1000);
+
+// 동작별 입력 목록 (잘못된 동작만 기본값 사용)
+const readBindings = <T extends string | number>(
+  value: unknown,
+  defaults: Record<GameAction, T[]>,
+  type: "string" | "number"
+): Record<GameAction, T[]> => {
+  const bindings = { ...defaults };
+  if (!isRecord(value)) return bindings;
+  (Object.keys(bindings) as GameAction[]).forEach((action) => {
+    const inputs = value[action];
+    if (Array.isArray(inputs) && inputs.every((input) => typeof input === type)) {
+      bindings[action] = inputs;
+    }
+  });
+  return bindings;
+};
+
+// 저장된 값(버전 무관)을 현재 스키마의 설정으로 변환
+export const parseSettings = (raw: unknown): UserSettings => {
+  if (!isRecord(raw)) return DEFAULT_SETTINGS;
+  if (typeof raw.version === "number" && raw.version > SETTINGS_VERSION) {
+    // 더 새로운 버전에서 저장한 설정: 알 수 있는 필드만 읽음
+    console.warn(`Settings saved by a newer version (${raw.version}).`);
+  }
+
+  const data = migrate(raw);
+  const audio = isRecord(data.audio) ? data.audio : {};
+  const controls = isRecord(data.controls) ? data.controls : {};
+  const touch = isRecord(controls.touch) ? controls.touch : {};
+  const defaults = DEFAULT_SETTINGS;
+
+  return {
+    version: SETTINGS_VERSION,
+    audio: {
+      musicVolume: readVolume(audio.musicVolume, defaults.audio.musicVolume),
+      sfxVolume: readVolume(audio.sfxVolume, defaults.audio.sfxVolume),
+      muted: readBoolean(audio.muted, defaults.audio.muted),
+    },
+    haptics: readBoolean(data.haptics, defaults.haptics),
+    customCursor: readBoolean(data.customCursor, defaults.customCursor),
+    motion: MOTION_PREFERENCES.includes(data.motion as MotionPreference)
+      ? (data.motion as MotionPreference)
+      : defaults.motion,
+    theme: THEME_PREFERENCES.includes(data.theme as ThemePreference)
+      ? (data.theme as ThemePreference)
+      : defaults.theme,
+    language: LOCALES.includes(data.language as Locale) ? (data.language as Locale) : defaults.language,
+    controls: {
+      keyboard: readBindings(controls.keyboard, defaults.controls.keyboard, "string"),
+      gamepad: readBindings(controls.gamepad, defaults.controls.gamepad, "number"),
+      das: readMs(controls.das, defaults.controls.das),
+      arr: readMs(controls.arr, defaults.controls.arr),
+      touch: {
+        swipeStepPx: readNumber(touch.swipeStepPx, defaults.controls.touch.swipeStepPx, 8, 120),
+        flickVelocity: readNumber(touch.flickVelocity, defaults.controls.touch.flickVelocity, 0.2, 5),
+        tapMaxMs: readMs(touch.tapMaxMs, defaults.controls.touch.tapMaxMs),
+        showButtons: readBoolean(touch.showButtons, defaults.controls.touch.showButtons),
+      },
+    },
+  };
+};
+
+/* --- 저장소 API --- */
+
+let current: UserSettings | null = null;
+const listeners = new Set<() => void>();
+
+export const getSettings = (): UserSettings => {
+  if (!current) current = parseSettings(readJSON<unknown>(STORAGE_KEY));
+  return current;
+};
+
+// 설정 변경 구독 (구독 해제 함수 반환)
+export const subscribeSettings = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const commit = (next: UserSettings) => {
+  current = next;
+  writeJSON(STORAGE_KEY, next);
+  listeners.forEach((listener) => listener());
+};
+
+// 일부 항목만 바꿀 때는 updater에서 기존 값을 펼쳐서 반환하세요.
+export const updateSettings = (updater: (settings: UserSettings) => UserSettings) => {
+  commit({ ...updater(getSettings()), version: SETTINGS_VERSION });
+};
+
+export const resetSettings = () => commit(DEFAULT_SETTINGS);
@@ -0,0 +1,41 @@
+import type { MessageKey } from "./I18n";
+
+/* --- 업적 타입 정의 --- */
+
+// 연속 플레이 일수 기록 (날짜는 로컬 기준 "YYYY-MM-DD")
+export interface PlayStreak {
+  lastDay: string | null;
+  current: number;
+  best: number;
+}
+
+// 업적 판정에 쓰는 누적 기록
+export interface PlayerStats {
+  gamesPlayed: number;
+  totalLines: number;
+  totalCellsCleared: number;
+  patternsCompleted: number; // 실루엣 완성 횟수 (같은 실루엣 중복 포함)
+  discoveredPatterns: string[]; // 한 번이라도 완성한 실루엣 ID
+  bestScore: number;
+  maxCombo: number;
+  maxBackToBack: number;
+  challengeStars: number; // 챌린지 스테이지별 최고 별점의 합
+  playStreak: PlayStreak;
+}
+
+// 선언형 업적 정의: progress(stats)가 target 이상이면 달성
+export interface AchievementDef {
+  id: string;
+  title: MessageKey; // 표시 문구는 다국어 카탈로그의 achievements.<id>.title/description
+  description: MessageKey;
+  target: number;
+  progress: (stats: PlayerStats) => number;
+  hidden?: boolean; // 달성 전까지 갤러리에서 내용을 숨김
+}
+
+// localStorage에 저장되는 업적 진행도
+export interface AchievementProgress {
+  version: number;
+  stats: PlayerStats;
+  unlocked: Record<string, string>; // 업적 ID → 달성 시각 (ISO 문자열)
+}
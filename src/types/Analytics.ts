@@ -0,0 +1,37 @@
+/* --- 사용 통계 타입 정의 --- */
+
+export type GameMode = "classic" | "daily" | "challenge";
+
+// 이벤트 이름 → 속성 (새 이벤트는 여기에 먼저 추가)
+export interface AnalyticsEventMap {
+  session_start: { locale: string; isMobile: boolean; signedIn: boolean };
+  game_start: { mode: GameMode; stageId: string | null };
+  game_end: {
+    mode: GameMode;
+    stageId: string | null;
+    result: "over" | "won" | "lost";
+    score: number;
+    lines: number;
+    durationMs: number;
+  };
+  pattern_found: { patternId: string; mode: GameMode };
+  menu_interaction: { item: string };
+  settings_change: { path: string; value: string | number | boolean | null };
+  error: { message: string; source: string };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEventMap;
+
+// 전송되는 이벤트 한 건
+export type AnalyticsEvent = {
+  [K in AnalyticsEventName]: {
+    name: K;
+    props: AnalyticsEventMap[K];
+    sessionId: string;
+    timestamp: string; // ISO 문자열
+    sampleRate: number; // 표본 추출 비율 (집계 시 1/sampleRate 배로 보정)
+  };
+}[AnalyticsEventName];
+
+// unknown: 아직 묻지 않음 (이벤트는 보내지 않고 메모리에만 보관)
+export type AnalyticsConsent = "unknown" | "granted" | "denied";
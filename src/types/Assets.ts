@@ -0,0 +1,25 @@
+/* --- 리소스 로딩 타입 정의 --- */
+
+export type AssetKind = "audio" | "font" | "image" | "patternPack";
+
+// 매니페스트 항목 (config/assets.ts)
+export interface AssetEntry {
+  id: string;
+  kind: AssetKind;
+  url: string; // font는 @font-face가 담긴 스타일시트 주소
+  bytes: number; // 예상 크기 (응답에 Content-Length가 없거나 아직 받기 전의 진행률 계산용)
+  family?: string; // font: 불러왔는지 확인할 글꼴 이름
+}
+
+export type AssetStatus = "pending" | "loading" | "loaded" | "failed";
+
+// 로딩 화면에 표시할 진행 상황
+export interface AssetProgress {
+  loadedBytes: number;
+  totalBytes: number;
+  loadedItems: number; // 성공/실패와 관계없이 끝난 항목 수
+  totalItems: number;
+  failed: string[]; // 재시도 후에도 실패한 항목 id
+  silent: boolean; // 오디오를 쓸 수 없어 소리 없이 진행
+  done: boolean;
+}
@@ -0,0 +1,50 @@
+/* --- 블록(탱그램 조각) 타입 정의 --- */
+
+// 탱그램 7조각 식별자
+export type TangramKind =
+  | "smallTriangleA"
+  | "square"
+  | "mediumTriangle"
+  | "parallelogram"
+  | "largeTriangleA"
+  | "largeTriangleB"
+  | "smallTriangleB";
+
+// 탱그램 조각 계열 (같은 모양의 조각은 같은 계열)
+export type TangramFamily =
+  | "largeTriangle"
+  | "mediumTriangle"
+  | "smallTriangle"
+  | "square"
+  | "parallelogram";
+
+// 조각 모양 마스크 (1 = 채워진 칸, 0 = 빈 칸)
+export type Shape = readonly (readonly number[])[];
+
+// 회전 상태 (시계 방향 90도 단위)
+export type Rotation = 0 | 1 | 2 | 3;
+
+// 보드 격자 좌표 (x = 열, y = 행)
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// 보드의 한 칸: 고정된 조각 종류 또는 빈 칸
+export type Cell = TangramKind | null;
+
+// 보드 전체 (rows x cols)
+export type Board = Cell[][];
+
+// 현재 떨어지고 있는 조각
+export interface ActivePiece {
+  kind: TangramKind;
+  rotation: Rotation;
+  x: number; // 모양 마스크 왼쪽 위 기준 열
+  y: number; // 모양 마스크 왼쪽 위 기준 행
+}
+
+// 다음 조각 공급원
+export interface PieceSource {
+  next: () => TangramKind;
+}
@@ -0,0 +1,43 @@
+/* --- 오류 보고 / 진단 정보 타입 정의 --- */
+
+// action: 플레이어 입력, game: 게임 이벤트, navigation: 화면 전환, log: 경고 등 기타 기록
+export type BreadcrumbCategory = "action" | "game" | "navigation" | "log";
+
+// 오류 직전까지의 최근 기록 한 줄
+export interface Breadcrumb {
+  at: string; // ISO 문자열
+  category: BreadcrumbCategory;
+  message: string;
+  data?: Record<string, string | number | boolean | null>;
+}
+
+// 보고되는 오류 한 건 (같은 fingerprint의 오류는 count만 늘림)
+export interface ErrorReport {
+  fingerprint: string;
+  message: string;
+  name: string;
+  stack: string | null;
+  source: string; // 오류를 잡은 곳 (예: "window.onerror", "render:game", "audio")
+  count: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  extra: Record<string, string>;
+  breadcrumbs: Breadcrumb[]; // 처음 발생했을 때의 최근 기록
+}
+
+// 플레이어가 복사해 보내는 진단 정보
+export interface DiagnosticBundle {
+  generatedAt: string;
+  environment: {
+    url: string;
+    userAgent: string;
+    language: string;
+    screen: string; // "가로x세로@배율"
+    online: boolean;
+  };
+  settings: unknown;
+  signedIn: boolean;
+  errors: ErrorReport[];
+  breadcrumbs: Breadcrumb[];
+  recentEvents: unknown[]; // 최근 사용 통계 이벤트
+}
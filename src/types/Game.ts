@@ -0,0 +1,143 @@
+import type { ActivePiece, Board, Point, TangramFamily, TangramKind } from "./Block";
+import type { MessageKey } from "./I18n";
+
+/* --- 게임 상태 타입 정의 --- */
+
+// 앱 화면 전환용 식별자
+export type Screen =
+  | "title"
+  | "game"
+  | "challenges"
+  | "leaderboard"
+  | "achievements"
+  | "settings";
+
+export type GameStatus = "playing" | "paused" | "over";
+
+// 플레이어 입력으로 발생하는 게임 동작
+export type GameAction =
+  | "moveLeft"
+  | "moveRight"
+  | "rotateCW"
+  | "rotateCCW"
+  | "softDrop"
+  | "hardDrop"
+  | "hold"
+  | "pause";
+
+export interface GameState {
+  board: Board;
+  active: ActivePiece | null;
+  next: TangramKind[]; // 대기 중인 다음 조각들
+  hold: TangramKind | null; // 보관 중인 조각
+  canHold: boolean; // 현재 조각을 보관할 수 있는지 (조각 하나당 한 번)
+  status: GameStatus;
+  frame: number; // 게임 시작 후 진행된 프레임 수
+  gravityCounter: number; // 마지막 낙하 이후 경과 프레임
+  lockCounter: number; // 바닥에 닿은 채 경과한 프레임
+  lockResets: number; // 현재 조각의 고정 대기 연장 횟수
+  dropDistance: number; // 현재 조각을 소프트/하드 드롭으로 내린 칸 수
+  level: number;
+  lines: number; // 누적 제거 줄 수
+  cellsCleared: number; // 누적 제거 칸 수 (줄 + 영역)
+  drops: number; // 고정된 조각 수
+  patternsFound: number; // 완성한 실루엣 수
+}
+
+// 엔진이 한 단계 진행하며 발생시키는 이벤트
+export type GameEvent =
+  | { type: "spawn"; kind: TangramKind }
+  | {
+      type: "lock";
+      kind: TangramKind;
+      cells: Point[];
+      dropDistance: number;
+      hardDrop: boolean;
+    }
+  | { type: "pattern"; patternId: string; cells: Point[] }
+  | { type: "clear"; lines: number; areas: number; cells: Point[] }
+  | { type: "gameOver" };
+
+export interface StepResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+/* --- 리플레이 --- */
+
+// 특정 프레임 시작 시 적용된 입력
+export interface ReplayInput {
+  frame: number;
+  action: GameAction;
+}
+
+export interface Replay {
+  version: 1;
+  seed: number; // 7-bag 조각 생성기 시드
+  configHash: string; // 녹화 당시 게임 설정 해시 (설정이 다르면 재생 결과가 달라짐)
+  recordedAt: string; // ISO 시각
+  inputs: ReplayInput[];
+  summary: {
+    frames: number;
+    lines: number;
+    cellsCleared: number;
+    patternsFound: number;
+    drops: number;
+    score?: number; // 점수 기능 추가 전에 녹화된 리플레이에는 없음
+  };
+}
+
+/* --- 점수 --- */
+
+export interface ScoreState {
+  score: number;
+  combo: number; // 연속으로 줄/영역을 제거한 횟수 (제거 없이 고정하면 0)
+  backToBack: number; // 연속 "어려운 제거" 횟수 (utils/scoring.ts 참고)
+  multiplier: number; // 현재 back-to-back 배율
+}
+
+// 점수 변화 내역 (화면 표시용)
+export type ScoreDelta = { points: number } & (
+  | { reason: "drop"; hardDrop: boolean }
+  | { reason: "clear"; lines: number; areas: number }
+  | { reason: "combo"; combo: number }
+  | { reason: "pattern"; patternId: string }
+);
+
+/* --- 챌린지 --- */
+
+// 스테이지 목표
+export type ChallengeGoal =
+  | { type: "pattern"; patternId: string } // 특정 실루엣 완성
+  | { type: "clearCells"; cells: number } // 칸 N개 제거
+  | { type: "lines"; lines: number } // 줄 N개 제거
+  | { type: "score"; points: number }; // 점수 N점 달성
+
+export interface ChallengeStage {
+  id: string;
+  title: MessageKey; // 표시 문구는 다국어 카탈로그의 challenge.<id>.title/description
+  description: MessageKey;
+  seed: number; // 모든 플레이어가 같은 조각 순서로 도전하도록 고정
+  // 시작 보드: 보드 맨 아래부터 채울 행 문자열 ("." = 빈 칸, 나머지는 KIND_CODES 참고)
+  startBoard?: string[];
+  // 사용할 조각: 고정 순서 목록 또는 허용할 조각 계열 (생략 시 7조각 전체)
+  pieces?: { sequence: TangramKind[] } | { families: TangramFamily[] };
+  goal: ChallengeGoal;
+  // 실패 조건: 조각 수 또는 제한 시간 초과 (둘 다 지정 가능)
+  limits: { maxDrops?: number; timeLimitSec?: number };
+  // 별점: 목표 달성 시 1개, 기준 지표가 two 이하면 2개, three 이하면 3개
+  stars: { by: "drops" | "seconds"; two: number; three: number };
+  // 해금 조건 (생략 시 처음부터 열림)
+  unlock?: { stage?: string; totalStars?: number };
+}
+
+// 게임 상태 밖에서 집계하는 챌린지 판정 재료
+export interface ChallengeStats {
+  foundPatterns: readonly string[];
+  score: number;
+}
+
+export type ChallengeOutcome =
+  | { status: "playing" }
+  | { status: "won"; stars: 1 | 2 | 3 }
+  | { status: "lost"; reason: "drops" | "time" | "gameOver" };
@@ -0,0 +1,27 @@
+import type ko from "../locales/ko";
+import type { Locale } from "./User";
+
+/* --- 다국어 타입 정의 ---
+ * 한국어 카탈로그(locales/ko.ts)가 모든 키의 기준입니다.
+ * 다른 언어는 일부 키가 빠져도 되고, 빠진 키는 한국어 문장으로 표시됩니다.
+ */
+
+export type MessageKey = keyof typeof ko;
+
+// 기준 카탈로그 (모든 키 필수)
+export type Messages = Record<MessageKey, string>;
+
+// 번역 카탈로그 (빠진 키는 개발 중 콘솔에 보고)
+export type Catalog = Partial<Messages>;
+
+// 문장에 끼워 넣을 값
+export type MessageValues = Record<string, string | number>;
+
+// 번역 함수 (useTranslation의 t)
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+// 지금 화면에 적용된 언어와 카탈로그
+export interface I18nState {
+  locale: Locale;
+  messages: Catalog;
+}
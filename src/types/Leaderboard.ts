@@ -0,0 +1,44 @@
+/* --- 순위표 타입 정의 --- */
+
+// global: 전체 기간, daily: 오늘의 도전(날짜별 공통 시드), friends: 친구와 나
+export type LeaderboardBoard = "global" | "daily" | "friends";
+
+export interface LeaderboardPlayer {
+  id: string;
+  name: string;
+}
+
+// 서버로 보내는 점수 기록 (id는 재전송 시 중복 등록을 막기 위한 클라이언트 생성 값)
+export interface ScoreSubmission {
+  id: string;
+  player: LeaderboardPlayer;
+  score: number;
+  lines: number;
+  seed: number;
+  day: string | null; // 오늘의 도전 날짜 ("YYYY-MM-DD"), 일반 게임은 null
+  submittedAt: string; // ISO 문자열
+}
+
+// 순위표 한 줄 (플레이어별 최고 기록)
+export interface LeaderboardEntry {
+  rank: number; // 1부터 시작
+  player: LeaderboardPlayer;
+  score: number;
+  lines: number;
+  submittedAt: string;
+}
+
+export interface LeaderboardQuery {
+  board: LeaderboardBoard;
+  playerId: string; // friends 순위표와 "내 순위" 조회 기준
+  day?: string; // daily 순위표의 날짜
+  page: number; // 0부터 시작
+  pageSize: number;
+}
+
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  page: number;
+  pageSize: number;
+  total: number; // 전체 순위 인원
+}
@@ -0,0 +1,52 @@
+/* --- 성능 측정 타입 정의 --- */
+
+export interface Percentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+// 이름별로 잰 처리 시간 (예: "physics", "cursor", "parallax")
+export interface TimingSummary {
+  perSecond: number; // 초당 호출 수
+  avgMs: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+// 프레임마다 보고되는 개수 (예: 충돌 검사 수)
+export interface CounterSummary {
+  last: number;
+  avg: number;
+  max: number;
+}
+
+// 최근 측정 구간(windowSize 프레임)의 요약
+export interface MetricsSnapshot {
+  frames: number; // 요약에 쓰인 프레임 수
+  fps: number;
+  frameTime: Percentiles; // 프레임 간격 (ms)
+  longTasks: {
+    supported: boolean; // PerformanceObserver longtask 지원 여부 (미지원이면 긴 프레임으로 대신 셈)
+    count: number;
+    totalMs: number;
+    maxMs: number;
+  };
+  timings: Record<string, TimingSummary>;
+  counters: Record<string, CounterSummary>;
+}
+
+// JSON으로 내보내는 측정 결과
+export interface MetricsExport {
+  generatedAt: string;
+  device: {
+    userAgent: string;
+    hardwareConcurrency: number | null;
+    deviceMemory: number | null; // GB (지원하는 브라우저만)
+    devicePixelRatio: number;
+    viewport: string;
+  };
+  snapshot: MetricsSnapshot;
+  frameTimes: number[]; // 최근 프레임 간격 원본 (ms)
+}
@@ -0,0 +1,57 @@
+import type { Point, Shape, TangramFamily } from "./Block";
+
+/* --- 패턴(실루엣) 타입 정의 --- */
+
+// 희귀도 (점수 가중치 및 표시 색상에 사용)
+export type PatternRarity = "common" | "rare" | "epic" | "legendary";
+
+// 언어별 표시 이름 (ko는 필수)
+export interface LocalizedText {
+  ko: string;
+  en?: string;
+  ja?: string;
+}
+
+// 보드 위에서 찾을 실루엣 템플릿 (JSON으로 작성 가능한 선언형 포맷)
+export interface PatternTemplate {
+  id: string; // 영문 소문자로 시작하는 고유 식별자 (예: "fish", "bird-diamond")
+  name: LocalizedText;
+  // 실루엣 격자 마스크: 행 문자열 배열, "#" = 채워야 하는 칸, "." = 빈 칸
+  mask: string[];
+  // 실루엣을 이루는 조각 구성 (계열별 개수). 생략하면 어떤 조각이든 허용
+  pieces?: Partial<Record<TangramFamily, number>>;
+  rarity: PatternRarity;
+  // 도감/미리보기용 SVG 윤곽선
+  svg: {
+    viewBox: string; // 예: "0 0 100 60"
+    path: string; // SVG path d 속성
+  };
+}
+
+// 디자이너가 배포하는 템플릿 묶음
+export interface PatternPack {
+  format: 1; // 포맷 버전
+  id: string;
+  patterns: PatternTemplate[];
+}
+
+// 매칭용으로 변환한 템플릿
+export interface CompiledPattern {
+  template: PatternTemplate;
+  mask: Shape; // 마스크 문자열을 0/1 격자로 변환한 값
+  orientations: Shape[]; // 중복을 제거한 8방향(회전 4 x 반전 2) 마스크
+}
+
+// 매칭 결과
+export interface PatternMatch {
+  patternId: string;
+  cells: Point[]; // 실루엣을 이루는 보드 좌표
+}
+
+// 실루엣 도감 항목 (한 번이라도 완성한 실루엣)
+export interface PatternCollectionEntry {
+  count: number; // 완성 횟수
+  firstFoundAt: string; // 처음 완성한 시각 (ISO 문자열)
+}
+
+export type PatternCollection = Record<string, PatternCollectionEntry>;
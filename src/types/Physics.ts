@@ -0,0 +1,92 @@
+/* --- 물리 엔진 타입 정의 ---
+ * 좌표는 화면 픽셀(왼쪽 위 원점, y는 아래로 증가), 속도는 px/s, 시간은 초 단위입니다.
+ */
+
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// 축 정렬 사각형 (x, y는 왼쪽 위)
+export interface Aabb extends Vec2, Size {}
+
+// 볼록 다각형 꼭짓점 (둘레를 따라 순서대로, 방향은 상관없음)
+export type Polygon = Vec2[];
+
+// 겹친 두 도형을 떼어 낼 최소 이동 (normal 방향으로 depth만큼)
+export interface Penetration {
+  normal: Vec2; // 단위 벡터
+  depth: number;
+}
+
+// 표면 재질: 충돌 시 반발과 마찰
+export interface Material {
+  bounce: number; // 반발 계수 (0~1)
+  friction: number; // 표면 위에 내려앉을 때 가로 속도에 곱하는 값
+  landingThreshold: number; // 세로 속도가 이보다 작으면 튕기지 않고 내려앉음
+  stopSpeed: number; // 내려앉은 뒤 가로 속도가 이보다 작으면 멈춤
+}
+
+export type MaterialId = "ground" | "obstacle";
+
+// 움직이는 물체
+export interface PhysicsBody {
+  id: string;
+  position: Vec2;
+  previousPosition: Vec2; // 직전 고정 스텝의 위치 (보간용)
+  velocity: Vec2;
+  size: Size;
+  kinematic: boolean; // true면 시뮬레이션하지 않고 외부에서 위치를 정함 (드래그 중 등)
+}
+
+// 움직이지 않는 충돌체
+export interface StaticCollider {
+  id: string;
+  bounds: Aabb;
+  polygon?: Polygon; // 화면 좌표의 볼록 다각형 (없으면 bounds 사각형 전체)
+  material: MaterialId;
+  restOffsetY?: number; // 내려앉을 때 표면 높이 보정 (화면에서 눌려 내려간 글자 등)
+}
+
+// 넓은 단계 충돌 검사용 격자 (칸 키 → 그 칸에 걸친 충돌체의 colliders 인덱스)
+export type SpatialGrid = Map<string, number[]>;
+
+export interface PhysicsWorld {
+  bounds: Size; // 물체가 벗어날 수 없는 영역 (0,0 ~ width,height)
+  bodies: PhysicsBody[];
+  colliders: StaticCollider[];
+  grid: SpatialGrid; // colliders로 만든 격자 (setColliders로 함께 바꿈)
+  accumulator: number; // 아직 시뮬레이션하지 않은 시간 (초)
+}
+
+export interface PhysicsConfig {
+  gravity: number; // px/s²
+  fixedDt: number; // 고정 스텝 길이 (초)
+  maxFrameDt: number; // 한 프레임에 반영할 최대 시간 (탭 전환 등으로 멈췄다 돌아온 경우)
+  maxSubSteps: number; // 한 프레임의 최대 고정 스텝 수
+  restSpeed: number; // 모든 물체의 속도가 이보다 작으면 정지 상태
+  wallBounce: number; // 화면 가장자리 반발 계수
+  cellSize: number; // 넓은 단계 격자 한 칸 크기 (px)
+  materials: Record<MaterialId, Material>;
+}
+
+// 충돌 한 건 (colliderId가 null이면 화면 가장자리)
+export interface PhysicsContact {
+  bodyId: string;
+  colliderId: string | null;
+  normal: Vec2; // 물체를 밀어낸 방향
+  impactSpeed: number; // 충돌 직전 세로 속도 크기 (다각형 충돌체는 법선 방향으로 다가온 속도)
+}
+
+export interface PhysicsStepResult {
+  world: PhysicsWorld;
+  contacts: PhysicsContact[]; // 이번 프레임의 충돌 (물체-충돌체 쌍마다 한 번)
+  steps: number; // 실행한 고정 스텝 수
+  checks: number; // 좁은 단계 충돌 검사 횟수 (격자에서 추린 후보 수)
+  alpha: number; // 남은 시간 비율 (0~1, 보간용)
+}
@@ -0,0 +1,39 @@
+import type { TangramKind } from "./Block";
+
+/* --- 테마 타입 정의 ---
+ * 색은 모두 "#rrggbb" 형식입니다. utils/theme.ts가 CSS 변수로 적용하고,
+ * 컴포넌트는 Tailwind 테마 색(bg-surface, text-content 등)이나 themeColor()로 참조합니다.
+ */
+
+export type ThemeId = "classic" | "night" | "light" | "highContrast" | "deuteranopia" | "protanopia";
+
+// 환경설정 값 (auto: 저녁/밤에는 night, 그 외에는 classic)
+export type ThemePreference = ThemeId | "auto";
+
+// 타이틀 글자 색 이름
+export type LetterColor = "cyan" | "yellow" | "purple" | "green" | "red" | "blue";
+
+// 타이틀 메뉴 버튼 색 이름
+export type MenuColor = "cyan" | "purple" | "teal" | "amber" | "settings";
+
+export interface ThemeTokens {
+  background: string[]; // 화면 배경 세로 그라디언트 (위 → 아래)
+  content: string; // 기본 글자색
+  surface: {
+    sunken: string; // 게임 보드, 진행 막대 등 가장 안쪽 면
+    panel: string; // 환경설정 섹션 등 넓은 패널
+    base: string; // 카드, 입력 요소
+    strong: string; // 버튼 등 한 단계 강조된 면
+  };
+  accent: string; // 체크박스, 슬라이더, 포커스 링, 선택된 버튼
+  onAccent: string; // accent 바탕 위의 글자색
+  pieces: Record<TangramKind, string>;
+  letters: Record<LetterColor, string>;
+  menu: Record<MenuColor, string>; // 메뉴 버튼 바탕색 (투명도는 버튼 상태에 따라 적용)
+}
+
+export interface Theme {
+  id: ThemeId; // 표시 이름은 다국어 카탈로그의 settings.theme.<id>
+  dark: boolean; // 브라우저 기본 요소(스크롤바, 폼)의 color-scheme
+  tokens: ThemeTokens;
+}
@@ -0,0 +1,116 @@
+import type { AchievementProgress } from "./Achievement";
+import type { GameAction } from "./Game";
+import type { MessageKey, MessageValues } from "./I18n";
+import type { LocalizedText, PatternCollection } from "./Pattern";
+import type { ThemePreference } from "./Theme";
+
+/* --- 사용자 설정 타입 정의 --- */
+
+// 지원 언어 (실루엣 이름 등 LocalizedText와 같은 키를 사용)
+export type Locale = keyof LocalizedText;
+
+// 게임 동작별 키보드 키 (KeyboardEvent.key 값, 한 동작에 여러 키 가능)
+export type KeyBindings = Record<GameAction, string[]>;
+
+// 게임 동작별 게임패드 버튼 (표준 매핑의 Gamepad.buttons 인덱스)
+export type GamepadBindings = Record<GameAction, number[]>;
+
+// 터치 제스처 임계값 (core/input/gestures.ts)
+export interface TouchSettings {
+  swipeStepPx: number; // 한 칸 이동/소프트 드롭으로 인식할 손가락 이동 거리
+  flickVelocity: number; // 하드 드롭으로 인식할 아래 방향 속도 (px/ms)
+  tapMaxMs: number; // 탭(회전)으로 인식할 최대 터치 시간
+  showButtons: boolean; // 화면 버튼 오버레이 표시
+}
+
+export interface ControlSettings {
+  keyboard: KeyBindings;
+  gamepad: GamepadBindings;
+  das: number; // 이동 키를 누르고 자동 반복이 시작되기까지의 지연 (ms)
+  arr: number; // 자동 반복 간격 (ms, 0이면 매 화면 프레임마다)
+  touch: TouchSettings;
+}
+
+// 움직임 설정 (system: 운영체제의 "동작 줄이기" 설정을 따름)
+export type MotionPreference = "system" | "reduced" | "full";
+
+export interface AudioSettings {
+  musicVolume: number; // 0 ~ 1
+  sfxVolume: number; // 0 ~ 1
+  muted: boolean;
+}
+
+export interface UserSettings {
+  version: number; // 저장 스키마 버전 (store/userSettings.ts의 마이그레이션 참고)
+  audio: AudioSettings;
+  haptics: boolean; // 모바일 진동 피드백
+  customCursor: boolean; // 타이틀 화면 커스텀 커서 사용
+  motion: MotionPreference; // 장식용 애니메이션과 패럴랙스 줄이기
+  theme: ThemePreference; // 화면 색 테마 (config/themes.ts)
+  language: Locale;
+  controls: ControlSettings;
+}
+
+/* --- 인증 --- */
+
+// 로그인한 사용자
+export interface User {
+  id: string; // 인증 제공자 안에서 고유한 ID ("제공자:사용자" 형식)
+  name: string;
+  email?: string;
+  avatarUrl?: string;
+  provider: string; // 로그인에 사용한 제공자 ID
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: number; // 액세스 토큰 만료 시각 (ms)
+}
+
+export interface AuthSession {
+  user: User;
+  tokens: AuthTokens;
+}
+
+// 인증 오류 (화면에서 번역해 표시)
+export interface AuthError {
+  key: MessageKey;
+  values?: MessageValues; // 예: 인증 서버가 알려 준 원인
+}
+
+// useAuth가 노출하는 인증 상태
+export interface AuthState {
+  session: AuthSession | null;
+  isLoading: boolean; // 로그인/토큰 갱신 진행 중
+  error: AuthError | null;
+}
+
+/* --- 플레이어 프로필 --- */
+
+// 기기(게스트) 또는 계정에 저장되는 진행 상황 전체
+export interface PlayerProfile {
+  version: number;
+  settings: UserSettings;
+  challengeStars: Record<string, number>; // 스테이지별 최고 별점
+  achievements: AchievementProgress; // 최고 점수 등 누적 기록 포함
+  patternCollection: PatternCollection;
+  updatedAt: string; // ISO 문자열
+}
+
+// 게스트와 계정의 설정 값이 다른 항목
+export interface SettingConflict {
+  path: string; // 예: "audio.musicVolume"
+  local: unknown;
+  remote: unknown;
+  chosen: "local" | "remote";
+}
+
+// 로그인 시 병합 결과 요약 (충돌 안내 대화상자용)
+export interface ProfileMergeSummary {
+  bestScore: { local: number; remote: number; merged: number };
+  achievementsAdded: string[]; // 계정에 새로 추가된 업적 ID
+  patternsAdded: string[]; // 계정 도감에 새로 추가된 실루엣 ID
+  starsAdded: number; // 계정에 새로 더해진 챌린지 별 수
+  conflicts: SettingConflict[];
+}
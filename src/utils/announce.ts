@@ -0,0 +1,33 @@
+/* --- 스크린 리더 알림 ---
+ * 화면에 보이는 변화(줄 제거, 실루엣 완성, 게임 종료 등)를 aria-live 영역으로 읽어 줍니다.
+ * 알림을 보내는 쪽은 announce만 부르고, 실제 영역은 앱에 하나만 있는 LiveAnnouncer가 그립니다.
+ */
+
+// polite: 읽던 내용을 마친 뒤 알림, assertive: 바로 끊고 알림
+export type Politeness = "polite" | "assertive";
+
+export interface Announcement {
+  id: number; // 같은 문장을 연달아 보내도 다시 읽도록 매번 바뀜
+  message: string;
+}
+
+export type Announcements = Record<Politeness, Announcement | null>;
+
+let nextId = 0;
+let announcements: Announcements = { polite: null, assertive: null };
+const listeners = new Set<() => void>();
+
+export const announce = (message: string, politeness: Politeness = "polite") => {
+  if (!message) return;
+  announcements = { ...announcements, [politeness]: { id: nextId++, message } };
+  listeners.forEach((listener) => listener());
+};
+
+export const getAnnouncements = (): Announcements => announcements;
+
+export const subscribeAnnouncements = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,25 @@
+import type { Polygon } from "../types/Physics";
+
+/* --- CSS 도형 → 충돌 다각형 --- */
+
+// "50%" → 0.5, "0" → 0 (퍼센트가 아닌 길이 단위는 지원하지 않음)
+const parsePercent = (value: string): number | null => {
+  if (value === "0") return 0;
+  const match = /^(-?\d*\.?\d+)%$/.exec(value);
+  return match ? Number(match[1]) / 100 : null;
+};
+
+// clip-path의 polygon(...)을 요소 크기 기준 비율 좌표(0~1)로 변환
+// polygon이 아니거나 해석할 수 없으면 null (요소 사각형 전체를 충돌체로 사용)
+export const parseClipPathPolygon = (clipPath: string): Polygon | null => {
+  const match = /^polygon\((.*)\)$/.exec(clipPath.trim());
+  if (!match) return null;
+
+  const points: Polygon = [];
+  for (const pair of match[1].split(",")) {
+    const [x, y, ...rest] = pair.trim().split(/\s+/).map(parsePercent);
+    if (x === null || y === null || x === undefined || y === undefined || rest.length > 0) return null;
+    points.push({ x, y });
+  }
+  return points.length >= 3 ? points : null;
+};
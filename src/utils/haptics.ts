@@ -0,0 +1,7 @@
+import { getSettings } from "../store/userSettings";
+
+// 진동 피드백 (지원하지 않는 기기이거나 설정에서 끈 경우 무시)
+export const vibrate = (pattern: number | number[]) => {
+  if (!getSettings().haptics || !("vibrate" in navigator)) return;
+  navigator.vibrate(pattern);
+};
@@ -0,0 +1,44 @@
+/* --- localStorage 헬퍼 ---
+ * 시크릿 모드/용량 초과 등으로 저장소를 쓸 수 없는 환경에서도 예외를 던지지 않습니다.
+ */
+
+const KEY_PREFIX = "7drops:";
+
+export const readString = (key: string): string | null => {
+  try {
+    return window.localStorage.getItem(KEY_PREFIX + key);
+  } catch {
+    return null;
+  }
+};
+
+export const writeString = (key: string, value: string): boolean => {
+  try {
+    window.localStorage.setItem(KEY_PREFIX + key, value);
+    return true;
+  } catch (err) {
+    console.warn(`localStorage write failed (${key}):`, err);
+    return false;
+  }
+};
+
+export const readJSON = <T>(key: string): T | null => {
+  const text = readString(key);
+  if (text === null) return null;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+};
+
+export const writeJSON = (key: string, value: unknown): boolean =>
+  writeString(key, JSON.stringify(value));
+
+export const removeItem = (key: string) => {
+  try {
+    window.localStorage.removeItem(KEY_PREFIX + key);
+  } catch {
+    // 저장소를 쓸 수 없으면 지울 것도 없음
+  }
+};
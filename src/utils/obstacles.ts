@@ -0,0 +1,177 @@
+import type { Aabb, MaterialId, Polygon, Size, StaticCollider } from "../types/Physics";
+
+/* --- 장애물 등록부 ---
+ * 물리 프레임마다 DOM을 훑고 getBoundingClientRect를 부르면 매번 레이아웃이 다시 계산됩니다.
+ * 장애물 요소가 직접 등록하고, 위치는 캐시해 두었다가 창 크기 변경, 스크롤,
+ * 애니메이션 시작/종료, 트랜지션 종료, 등록 변경이 있을 때만 다음 조회에서 한 번 다시 잽니다.
+ * 끝나지 않는 애니메이션이 걸린 요소(회전하는 탱그램 등)는 animationend가 오지 않으므로
+ * 조회할 때마다 그 요소만 다시 잽니다.
+ */
+
+export interface ObstacleOptions {
+  material: MaterialId;
+  restOffsetY?: number; // 내려앉을 때 표면 높이 보정 (눌려 내려간 글자 등)
+  shape?: Polygon; // 요소 크기 기준 비율 좌표(0~1)의 볼록 다각형 (없으면 사각형)
+}
+
+export interface ObstacleSnapshot {
+  bounds: Size; // 화면 크기
+  colliders: StaticCollider[]; // 화면 안에 있는 장애물 (바뀌지 않았으면 같은 배열)
+}
+
+interface ObstacleEntry extends ObstacleOptions {
+  id: string;
+  element: HTMLElement;
+}
+
+const entries = new Map<HTMLElement, ObstacleEntry>();
+const elementsById = new Map<string, HTMLElement>();
+const measured = new Map<HTMLElement, Aabb>();
+let nextId = 0;
+let dirty = true;
+let snapshot: ObstacleSnapshot = { bounds: { width: 0, height: 0 }, colliders: [] };
+let staticColliders: StaticCollider[] = []; // 다시 잴 때까지 그대로인 충돌체
+let dynamicEntries: ObstacleEntry[] = []; // 조회할 때마다 다시 재는 장애물
+
+/* --- 무효화 --- */
+
+export const invalidateObstacles = () => {
+  dirty = true;
+};
+
+const INVALIDATING_EVENTS = [
+  "resize",
+  "scroll",
+  "animationstart",
+  "animationend",
+  "animationcancel",
+  "transitionend",
+] as const;
+
+const listen = () =>
+  INVALIDATING_EVENTS.forEach((type) =>
+    window.addEventListener(type, invalidateObstacles, { capture: true, passive: true })
+  );
+
+const unlisten = () =>
+  INVALIDATING_EVENTS.forEach((type) =>
+    window.removeEventListener(type, invalidateObstacles, { capture: true })
+  );
+
+/* --- 등록 --- */
+
+// 장애물 등록 (반환 함수로 해제)
+export const registerObstacle = (element: HTMLElement, options: ObstacleOptions): (() => void) => {
+  if (entries.size === 0) listen();
+  const id = `obstacle-${nextId++}`;
+  entries.set(element, { ...options, id, element });
+  elementsById.set(id, element);
+  dirty = true;
+
+  return () => {
+    if (entries.get(element)?.id !== id) return;
+    entries.delete(element);
+    elementsById.delete(id);
+    measured.delete(element);
+    dirty = true;
+    if (entries.size === 0) unlisten();
+  };
+};
+
+// 목록 렌더링용 콜백 ref (요소가 붙으면 등록, 떨어지면 해제)
+// 렌더링마다 새로 만들면 매번 다시 등록되므로 useMemo 등으로 한 번만 만들어 써야 함
+export const createObstacleRef = (options: ObstacleOptions) => {
+  let unregister: (() => void) | null = null;
+  return (element: HTMLElement | null) => {
+    unregister?.();
+    unregister = element ? registerObstacle(element, options) : null;
+  };
+};
+
+/* --- 조회 --- */
+
+// 현재 transform의 회전/크기 부분 (해석할 수 없으면 변환 없음으로 봄)
+const getLinearTransform = (element: HTMLElement) => {
+  const transform = window.getComputedStyle(element).transform;
+  try {
+    const { a, b, c, d } = new DOMMatrix(transform && transform !== "none" ? transform : undefined);
+    return { a, b, c, d };
+  } catch {
+    return { a: 1, b: 0, c: 0, d: 1 };
+  }
+};
+
+// 비율 좌표 다각형을 화면 좌표로 (회전 중인 조각도 지금 보이는 모양대로, transform-origin은 중심으로 가정)
+const placeShape = (element: HTMLElement, rect: DOMRect, shape: Polygon): Polygon => {
+  const { a, b, c, d } = getLinearTransform(element);
+  const centerX = rect.left + rect.width / 2;
+  const centerY = rect.top + rect.height / 2;
+  return shape.map((point) => {
+    const x = (point.x - 0.5) * element.offsetWidth;
+    const y = (point.y - 0.5) * element.offsetHeight;
+    return { x: centerX + a * x + c * y, y: centerY + b * x + d * y };
+  });
+};
+
+// 끝나지 않는 애니메이션이 걸려 있는지 (animation-name과 반복 횟수 목록을 같은 순서로 비교)
+const isAnimatedForever = (element: HTMLElement) => {
+  const style = window.getComputedStyle(element);
+  const counts = style.animationIterationCount.split(",").map((count) => count.trim());
+  return style.animationName
+    .split(",")
+    .some((name, index) => name.trim() !== "none" && counts[index % counts.length] === "infinite");
+};
+
+// 요소 하나를 재서 캐시에 넣고 충돌체를 만듦 (화면 밖이면 null)
+// 다각형은 잴 때마다 지금의 transform으로 놓으므로 회전 중인 조각도 보이는 각도를 따름
+const measureEntry = (
+  { id, element, material, restOffsetY, shape }: ObstacleEntry,
+  bounds: Size
+): StaticCollider | null => {
+  const rect = element.getBoundingClientRect();
+  const aabb = { x: rect.left, y: rect.top, width: rect.width, height: rect.height };
+  measured.set(element, aabb);
+
+  if (rect.right < 0 || rect.left > bounds.width || rect.bottom < 0 || rect.top > bounds.height) {
+    return null;
+  }
+  const polygon = shape && placeShape(element, rect, shape);
+  return { id, bounds: aabb, polygon, material, restOffsetY };
+};
+
+const measureDynamic = (bounds: Size): StaticCollider[] =>
+  dynamicEntries.flatMap((entry) => measureEntry(entry, bounds) ?? []);
+
+// 전체를 다시 재고, 계속 움직이는 요소를 따로 모아 둠
+const measure = (): ObstacleSnapshot => {
+  const bounds = { width: window.innerWidth, height: window.innerHeight };
+  measured.clear();
+
+  const all = Array.from(entries.values());
+  dynamicEntries = all.filter(({ element }) => isAnimatedForever(element));
+  staticColliders = all
+    .filter((entry) => !dynamicEntries.includes(entry))
+    .flatMap((entry) => measureEntry(entry, bounds) ?? []);
+
+  return { bounds, colliders: [...staticColliders, ...measureDynamic(bounds)] };
+};
+
+// 현재 장애물 목록 (무효화된 뒤 처음 조회할 때 전체를, 그 밖에는 움직이는 요소만 다시 잼)
+export const getObstacles = (): ObstacleSnapshot => {
+  if (dirty) {
+    snapshot = measure();
+    dirty = false;
+  } else if (dynamicEntries.length > 0) {
+    const { bounds } = snapshot;
+    snapshot = { bounds, colliders: [...staticColliders, ...measureDynamic(bounds)] };
+  }
+  return snapshot;
+};
+
+// 등록된 요소의 캐시된 위치 (등록되지 않았으면 null)
+export const getObstacleBounds = (element: HTMLElement): Aabb | null => {
+  getObstacles();
+  return measured.get(element) ?? null;
+};
+
+export const getObstacleElement = (id: string): HTMLElement | null => elementsById.get(id) ?? null;
@@ -0,0 +1,26 @@
+import type { Rotation, Shape } from "../types/Block";
+
+/* --- 격자 마스크 변환 유틸리티 --- */
+
+// 모양 마스크를 시계 방향으로 rotation x 90도 회전
+export const rotateShape = (shape: Shape, rotation: Rotation): Shape => {
+  let result = shape;
+  for (let i = 0; i < rotation; i++) {
+    const rows = result.length;
+    const cols = result[0].length;
+    result = Array.from({ length: cols }, (_, y) =>
+      Array.from({ length: rows }, (_, x) => result[rows - 1 - x][y])
+    );
+  }
+  return result;
+};
+
+// 좌우 반전
+export const mirrorShape = (shape: Shape): Shape => shape.map((row) => [...row].reverse());
+
+// 마스크 비교용 문자열 키
+export const shapeKey = (shape: Shape): string => shape.map((row) => row.join("")).join("/");
+
+// 템플릿 마스크 문자열("#" / ".")을 0/1 격자로 변환
+export const parseMask = (mask: readonly string[]): Shape =>
+  mask.map((row) => [...row].map((ch) => (ch === "#" ? 1 : 0)));
@@ -0,0 +1,22 @@
+/* --- PKCE 헬퍼 (RFC 7636) ---
+ * 인가 코드 가로채기를 막기 위해 로그인마다 임의의 verifier를 만들고,
+ * 인가 요청에는 그 SHA-256 해시(challenge)만 보냅니다.
+ */
+
+const base64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+// 암호학적으로 안전한 임의 문자열 (base64url, 기본 32바이트 → 43자)
+export const createRandomString = (byteLength = 32): string =>
+  base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+export const createCodeVerifier = (): string => createRandomString(32);
+
+// S256 방식 code_challenge
+export const createCodeChallenge = async (verifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+};
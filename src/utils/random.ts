@@ -0,0 +1,60 @@
+/* --- 시드 기반 난수 생성기 ---
+ * Mulberry32 알고리즘을 사용합니다. 같은 시드는 항상 같은 수열을 만듭니다.
+ * 게임 로직에서 Math.random()을 직접 쓰지 말고 이 모듈을 사용하세요.
+ */
+
+export interface Rng {
+  readonly seed: number;
+  next: () => number; // [0, 1) 구간 실수
+  nextInt: (max: number) => number; // [0, max) 구간 정수
+}
+
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    seed: seed >>> 0,
+    next,
+    nextInt: (max: number) => Math.floor(next() * max),
+  };
+};
+
+// 문자열을 32비트 시드로 변환 (FNV-1a)
+export const hashSeed = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// 새 게임용 임의 시드 (재현이 필요 없는 곳에서만 사용)
+export const createSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// 현지 날짜 키 ("YYYY-MM-DD")
+export const getDayKey = (date: Date = new Date()): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+};
+
+// 날짜별 공통 시드 (데일리 챌린지용, 현지 날짜 기준)
+export const getDailySeed = (date: Date = new Date()): number => hashSeed(`daily-${getDayKey(date)}`);
+
+// Fisher-Yates 셔플 (원본 배열을 바꾸지 않음)
+export const shuffle = <T>(items: readonly T[], rng: Rng): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = rng.nextInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,105 @@
+import { SCORING_RULES, ScoringRules } from "../config/gameConfig";
+import { getPatternTemplate } from "../core/patterns/templates";
+import type { GameEvent, ScoreDelta, ScoreState } from "../types/Game";
+
+/* --- 점수 계산 ---
+ * 엔진이 내보낸 이벤트만 보고 점수를 매기는 순수 함수 모음입니다.
+ * 같은 이벤트 순서면 항상 같은 점수가 나오므로 리플레이 재생에서도 점수가 그대로 재현됩니다.
+ *
+ *   드롭        내린 칸 수 × 칸당 점수 (하드 드롭이면 하드 드롭 단가)
+ *   제거        (줄 점수 + 영역 점수) × 레벨
+ *   콤보        연속 제거 2회째부터 회차마다 보너스 × 레벨
+ *   실루엣      희귀도별 점수
+ *   연속 보너스  "어려운 제거"(minLines줄 이상, 영역 포함, 실루엣을 완성한 조각으로 제거)가 이어지면
+ *              제거/콤보/실루엣 점수에 배율 적용. 쉬운 제거가 끼면 초기화
+ */
+
+type LockEvent = Extract<GameEvent, { type: "lock" }>;
+
+export const createScoreState = (): ScoreState => ({
+  score: 0,
+  combo: 0,
+  backToBack: 0,
+  multiplier: 1,
+});
+
+// 연속 횟수에 따른 배율 (첫 번째 어려운 제거는 1배, 이후 연속할 때마다 step씩 증가)
+export const getBackToBackMultiplier = (streak: number, rules: ScoringRules = SCORING_RULES) =>
+  1 + Math.min(Math.max(streak - 1, 0), rules.backToBack.maxStreak) * rules.backToBack.step;
+
+// 조각 하나가 고정될 때 발생한 이벤트 묶음 (lock 다음부터 다음 lock 전까지)
+const groupByLock = (events: GameEvent[]) => {
+  const groups: { lock: LockEvent; events: GameEvent[] }[] = [];
+  events.forEach((event) => {
+    if (event.type === "lock") groups.push({ lock: event, events: [] });
+    else groups[groups.length - 1]?.events.push(event);
+  });
+  return groups;
+};
+
+// 이벤트 목록을 반영한 새 점수 상태와 점수 변화 내역
+// (level: 점수 배율로 쓸 현재 레벨)
+export const applyScoreEvents = (
+  state: ScoreState,
+  events: GameEvent[],
+  level: number,
+  rules: ScoringRules = SCORING_RULES
+): { state: ScoreState; deltas: ScoreDelta[] } => {
+  const deltas: ScoreDelta[] = [];
+  let { score, combo, backToBack, multiplier } = state;
+
+  groupByLock(events).forEach(({ lock, events: group }) => {
+    const dropRate = lock.hardDrop ? rules.drop.hard : rules.drop.soft;
+    if (lock.dropDistance > 0 && dropRate > 0) {
+      deltas.push({ reason: "drop", hardDrop: lock.hardDrop, points: lock.dropDistance * dropRate });
+    }
+
+    const patterns = group.flatMap((event) => (event.type === "pattern" ? [event.patternId] : []));
+    const clear = group.find(
+      (event): event is Extract<GameEvent, { type: "clear" }> => event.type === "clear"
+    );
+
+    // 줄/영역 제거가 없으면 콤보만 끊기고 연속 보너스는 유지
+    if (clear) {
+      combo += 1;
+      const difficult =
+        clear.lines >= rules.backToBack.minLines || clear.areas > 0 || patterns.length > 0;
+      backToBack = difficult ? backToBack + 1 : 0;
+      multiplier = getBackToBackMultiplier(backToBack, rules);
+
+      const linePoints = rules.lineClear[Math.min(clear.lines, rules.lineClear.length - 1)] ?? 0;
+      const points = (linePoints + clear.areas * rules.areaClear) * level;
+      if (points > 0) {
+        deltas.push({
+          reason: "clear",
+          lines: clear.lines,
+          areas: clear.areas,
+          points: Math.round(points * multiplier),
+        });
+      }
+      if (combo >= 2) {
+        deltas.push({
+          reason: "combo",
+          combo,
+          points: Math.round((combo - 1) * rules.combo.perStep * level * multiplier),
+        });
+      }
+    } else {
+      combo = 0;
+    }
+
+    patterns.forEach((patternId) => {
+      const rarity = getPatternTemplate(patternId)?.rarity ?? "common";
+      deltas.push({
+        reason: "pattern",
+        patternId,
+        points: Math.round(rules.pattern[rarity] * multiplier),
+      });
+    });
+  });
+
+  if (deltas.length === 0 && combo === state.combo) return { state, deltas };
+
+  score += deltas.reduce((sum, delta) => sum + delta.points, 0);
+  return { state: { score, combo, backToBack, multiplier }, deltas };
+};
@@ -1,53 +1,31 @@
 // sound.ts
-import calmPuzzle from '/src/assets/sounds/music/calm-puzzle.mp3';
-import softLand from '/src/assets/sounds/effects/soft-land.mp3';
-import pieceHit from '/src/assets/sounds/effects/piece-hit.mp3';
-import menuHover from '/src/assets/sounds/effects/menu-hover.mp3';
-import menuSelect from '/src/assets/sounds/effects/menu-select.mp3';
+import { createAudioEngine, PlayOptions } from '../core/audio/engine';
+import { AUDIO_CONFIG, MUSIC_TRACKS, MusicId, SOUND_EFFECTS, SoundId } from '../config/audio';
+import { captureError } from '../services/error';
 
-export const SOUNDS = {
-  land: new Audio(softLand),
-  collision: new Audio(pieceHit),
-  hover: new Audio(menuHover),
-  click: new Audio(menuSelect),
-  bgm: new Audio(calmPuzzle)
-};
-
-// 볼륨 및 기본 설정
-Object.values(SOUNDS).forEach(sound => {
-  sound.volume = 0.6;  // 기본 볼륨 60%
+// 앱 전체에서 공유하는 오디오 믹서 (볼륨은 useAudio가 사용자 설정과 동기화)
+// 로드 실패 등은 오류 보고로 모음
+export const audioEngine = createAudioEngine(AUDIO_CONFIG, {
+  onError: (err, context) => captureError(err, 'audio', { context }),
 });
 
-SOUNDS.bgm.loop = true;
-SOUNDS.bgm.volume = 0.3;  // BGM은 30% 볼륨
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchstart'];
 
-// 사운드 초기화 함수 추가
-export const initializeSounds = async () => {
-  try {
-    await Promise.all(
-      Object.values(SOUNDS).map(async (sound) => {
-        try {
-          // 사운드 로드 확인
-          await sound.load();
-          // 잠깐 재생했다가 멈추기 (브라우저 정책 대응)
-          await sound.play();
-          sound.pause();
-          sound.currentTime = 0;
-        } catch (err) {
-          console.warn('Sound initialization error:', err);
-        }
-      })
-    );
-    console.log('Sounds initialized successfully');
-  } catch (err) {
-    console.error('Failed to initialize sounds:', err);
-  }
+// 사운드 초기화: 첫 사용자 입력 때 오디오 재생을 허용
+// (소리 파일은 로딩 화면에서 services/assets.ts가 받아 audioEngine에 넘김)
+export const initializeSounds = () => {
+  const unlock = () => {
+    audioEngine.unlock();
+    UNLOCK_EVENTS.forEach((type) => document.removeEventListener(type, unlock));
+  };
+  UNLOCK_EVENTS.forEach((type) => document.addEventListener(type, unlock));
 };
 
-// 사운드 재생 헬퍼 함수
-export const playSound = (sound: HTMLAudioElement) => {
-  sound.currentTime = 0; // 재생 위치 초기화
-  return sound.play().catch(err => {
-    console.warn('Sound play failed:', err);
-  });
-};
\ No newline at end of file
+// 효과음 재생 헬퍼 함수 (같은 소리를 연달아 호출해도 서로 끊기지 않음)
+export const playSound = (id: SoundId, options?: PlayOptions) =>
+  audioEngine.play(SOUND_EFFECTS[id], options);
+
+// 배경음악 재생 (재생 중인 곡이 있으면 크로스페이드)
+export const playMusic = (id: MusicId) => audioEngine.playMusic(MUSIC_TRACKS[id]);
+
+export const stopMusic = (fadeMs?: number) => audioEngine.stopMusic(fadeMs);
@@ -0,0 +1,52 @@
+import { THEMES } from "../config/themes";
+import type { Theme, ThemePreference } from "../types/Theme";
+
+/* --- 테마 적용 ---
+ * 테마 색은 문서 루트의 CSS 변수("r g b" 채널 값)로 넣습니다.
+ * Tailwind 테마 색(tailwind.config.js)과 themeColor()가 이 변수를 읽으므로,
+ * 테마를 바꿔도 컴포넌트를 다시 그리지 않고 바로 반영됩니다.
+ */
+
+// "#06b6d4" → "6 182 212" (rgb(var(--x) / 0.5)처럼 투명도를 붙일 수 있도록 채널만)
+const toChannels = (hex: string): string => {
+  const value = parseInt(hex.slice(1), 16);
+  return `${(value >> 16) & 255} ${(value >> 8) & 255} ${value & 255}`;
+};
+
+// CSS 변수 이름 → 값
+export const getThemeVariables = ({ tokens }: Theme): Record<string, string> => {
+  const variables: Record<string, string> = {
+    "--color-content": toChannels(tokens.content),
+    "--color-accent": toChannels(tokens.accent),
+    "--color-on-accent": toChannels(tokens.onAccent),
+    "--theme-background": `linear-gradient(to bottom, ${tokens.background.join(", ")})`,
+  };
+  Object.entries(tokens.surface).forEach(([name, color]) => {
+    variables[`--color-surface-${name}`] = toChannels(color);
+  });
+  Object.entries(tokens.pieces).forEach(([kind, color]) => {
+    variables[`--color-piece-${kind}`] = toChannels(color);
+  });
+  Object.entries(tokens.letters).forEach(([name, color]) => {
+    variables[`--color-letter-${name}`] = toChannels(color);
+  });
+  Object.entries(tokens.menu).forEach(([name, color]) => {
+    variables[`--color-menu-${name}`] = toChannels(color);
+  });
+  return variables;
+};
+
+export const applyTheme = (theme: Theme) => {
+  const root = document.documentElement;
+  Object.entries(getThemeVariables(theme)).forEach(([name, value]) => root.style.setProperty(name, value));
+  root.dataset.theme = theme.id;
+  root.style.colorScheme = theme.dark ? "dark" : "light";
+};
+
+// 환경설정 값을 실제 테마로 (auto는 시간대에 따라)
+export const resolveTheme = (preference: ThemePreference, isEvening: boolean): Theme =>
+  THEMES[preference === "auto" ? (isEvening ? "night" : "classic") : preference];
+
+// 인라인 스타일용 테마 색 (예: themeColor("piece-square"), themeColor("menu-cyan", 0.6))
+export const themeColor = (name: string, alpha?: number): string =>
+  alpha === undefined ? `rgb(var(--color-${name}))` : `rgb(var(--color-${name}) / ${alpha})`;
@@ -0,0 +1,224 @@
+import { FAMILY_CELL_COUNTS, TANGRAM_FAMILIES } from "../config/constants";
+import type { TangramFamily } from "../types/Block";
+import type { PatternPack, PatternRarity, PatternTemplate } from "../types/Pattern";
+
+/* --- 데이터 검증 유틸리티 ---
+ * 외부에서 들어오는 JSON 데이터를 검사하고, 문제가 있으면
+ * "경로: 설명" 형식의 오류 메시지 목록을 돌려줍니다.
+ */
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// 중첩 객체를 "경로 → 값" 목록으로 펼침 (예: "audio.muted", 배열은 하나의 값으로 취급)
+export const flattenPaths = (value: unknown, prefix = ""): [string, unknown][] =>
+  isRecord(value)
+    ? Object.entries(value).flatMap(([key, child]) =>
+        flattenPaths(child, prefix ? `${prefix}.${key}` : key)
+      )
+    : [[prefix, value]];
+
+/* --- 패턴 템플릿 검증 --- */
+
+const PATTERN_ID_RE = /^[a-z][a-z0-9-]*$/;
+const MASK_ROW_RE = /^[#.]+$/;
+const VIEWBOX_RE = /^-?[\d.]+(\s+-?[\d.]+){3}$/;
+const SVG_PATH_RE = /^[MmLlHhVvCcSsQqTtAaZz0-9eE.,\s-]+$/;
+const RARITIES: readonly PatternRarity[] = ["common", "rare", "epic", "legendary"];
+const LOCALES = ["ko", "en", "ja"];
+
+// 마스크의 채워진 칸이 상하좌우로 모두 이어져 있는지 검사
+const isConnected = (mask: string[]): boolean => {
+  const filled: [number, number][] = [];
+  mask.forEach((row, y) =>
+    [...row].forEach((ch, x) => {
+      if (ch === "#") filled.push([x, y]);
+    })
+  );
+  if (filled.length === 0) return false;
+
+  const visited = new Set<string>([filled[0].join(",")]);
+  const stack = [filled[0]];
+  while (stack.length > 0) {
+    const [x, y] = stack.pop()!;
+    for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const nx = x + dx;
+      const ny = y + dy;
+      const key = `${nx},${ny}`;
+      if (mask[ny]?.[nx] === "#" && !visited.has(key)) {
+        visited.add(key);
+        stack.push([nx, ny]);
+      }
+    }
+  }
+  return visited.size === filled.length;
+};
+
+const validateMask = (mask: unknown, path: string, errors: string[]): number => {
+  if (!Array.isArray(mask) || mask.length === 0) {
+    errors.push(`${path}: 한 줄 이상의 문자열 배열이어야 합니다.`);
+    return 0;
+  }
+
+  let valid = true;
+  mask.forEach((row, y) => {
+    if (typeof row !== "string" || !MASK_ROW_RE.test(row)) {
+      errors.push(`${path}[${y}]: "#"과 "."만 사용할 수 있습니다.`);
+      valid = false;
+    }
+  });
+  if (!valid) return 0;
+
+  const rows = mask as string[];
+  const width = rows[0].length;
+  rows.forEach((row, y) => {
+    if (row.length !== width) {
+      errors.push(`${path}[${y}]: 길이가 ${row.length}칸입니다. 모든 줄은 ${width}칸이어야 합니다.`);
+      valid = false;
+    }
+  });
+  if (!valid) return 0;
+
+  const filledCount = rows.join("").split("").filter((ch) => ch === "#").length;
+  if (filledCount === 0) {
+    errors.push(`${path}: 채워진 칸("#")이 하나도 없습니다.`);
+    return 0;
+  }
+  if (!rows[0].includes("#") || !rows[rows.length - 1].includes("#")) {
+    errors.push(`${path}: 맨 위/아래 줄에 빈 줄이 있습니다. 마스크를 실루엣 크기에 맞게 잘라주세요.`);
+  }
+  if (!rows.some((row) => row[0] === "#") || !rows.some((row) => row[width - 1] === "#")) {
+    errors.push(`${path}: 맨 왼쪽/오른쪽 열이 비어 있습니다. 마스크를 실루엣 크기에 맞게 잘라주세요.`);
+  }
+  if (!isConnected(rows)) {
+    errors.push(`${path}: 채워진 칸이 하나로 이어져 있지 않습니다.`);
+  }
+  return filledCount;
+};
+
+const validatePieces = (
+  pieces: unknown,
+  filledCount: number,
+  path: string,
+  errors: string[]
+) => {
+  if (pieces === undefined) return;
+  if (!isRecord(pieces)) {
+    errors.push(`${path}: 조각 계열별 개수를 담은 객체여야 합니다.`);
+    return;
+  }
+
+  let cells = 0;
+  let valid = true;
+  Object.entries(pieces).forEach(([family, count]) => {
+    if (!TANGRAM_FAMILIES.includes(family as TangramFamily)) {
+      errors.push(
+        `${path}.${family}: 알 수 없는 조각 계열입니다. (${TANGRAM_FAMILIES.join(", ")} 중 하나)`
+      );
+      valid = false;
+      return;
+    }
+    if (typeof count !== "number" || !Number.isInteger(count) || count < 1) {
+      errors.push(`${path}.${family}: 1 이상의 정수여야 합니다.`);
+      valid = false;
+      return;
+    }
+    cells += FAMILY_CELL_COUNTS[family as TangramFamily] * count;
+  });
+
+  if (valid && filledCount > 0 && cells !== filledCount) {
+    errors.push(`${path}: 조각 구성은 ${cells}칸인데 마스크는 ${filledCount}칸입니다.`);
+  }
+};
+
+export const validatePatternTemplate = (
+  raw: unknown,
+  path = "pattern"
+): ValidationResult<PatternTemplate> => {
+  const errors: string[] = [];
+  if (!isRecord(raw)) {
+    return { ok: false, errors: [`${path}: 객체여야 합니다.`] };
+  }
+
+  if (typeof raw.id !== "string" || !PATTERN_ID_RE.test(raw.id)) {
+    errors.push(`${path}.id: 영문 소문자로 시작하고 소문자/숫자/"-"만 사용할 수 있습니다.`);
+  }
+
+  if (!isRecord(raw.name) || typeof raw.name.ko !== "string" || raw.name.ko.trim() === "") {
+    errors.push(`${path}.name.ko: 한국어 이름은 필수입니다.`);
+  } else {
+    Object.entries(raw.name).forEach(([locale, text]) => {
+      if (!LOCALES.includes(locale)) {
+        errors.push(`${path}.name.${locale}: 지원하지 않는 언어입니다. (${LOCALES.join(", ")})`);
+      } else if (typeof text !== "string") {
+        errors.push(`${path}.name.${locale}: 문자열이어야 합니다.`);
+      }
+    });
+  }
+
+  const filledCount = validateMask(raw.mask, `${path}.mask`, errors);
+  validatePieces(raw.pieces, filledCount, `${path}.pieces`, errors);
+
+  if (!RARITIES.includes(raw.rarity as PatternRarity)) {
+    errors.push(`${path}.rarity: ${RARITIES.join(", ")} 중 하나여야 합니다.`);
+  }
+
+  if (!isRecord(raw.svg)) {
+    errors.push(`${path}.svg: viewBox와 path를 가진 객체여야 합니다.`);
+  } else {
+    if (typeof raw.svg.viewBox !== "string" || !VIEWBOX_RE.test(raw.svg.viewBox.trim())) {
+      errors.push(`${path}.svg.viewBox: "minX minY width height" 형식의 숫자 4개여야 합니다.`);
+    }
+    if (
+      typeof raw.svg.path !== "string" ||
+      raw.svg.path.trim() === "" ||
+      !SVG_PATH_RE.test(raw.svg.path)
+    ) {
+      errors.push(`${path}.svg.path: 올바른 SVG path 명령이 아닙니다.`);
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: raw as unknown as PatternTemplate };
+};
+
+// 팩 전체 검증 (existingIds: 이미 등록된 템플릿 id)
+export const validatePatternPack = (
+  raw: unknown,
+  existingIds: Iterable<string> = []
+): ValidationResult<PatternPack> => {
+  if (!isRecord(raw)) {
+    return { ok: false, errors: ["pack: 객체여야 합니다."] };
+  }
+
+  const errors: string[] = [];
+  if (raw.format !== 1) {
+    errors.push(`pack.format: 지원하지 않는 포맷 버전입니다. (${String(raw.format)}, 지원: 1)`);
+  }
+  if (typeof raw.id !== "string" || raw.id.trim() === "") {
+    errors.push("pack.id: 비어 있지 않은 문자열이어야 합니다.");
+  }
+  if (!Array.isArray(raw.patterns) || raw.patterns.length === 0) {
+    errors.push("pack.patterns: 템플릿이 하나 이상 있어야 합니다.");
+    return { ok: false, errors };
+  }
+
+  const seen = new Set(existingIds);
+  raw.patterns.forEach((pattern, index) => {
+    const path = `pack.patterns[${index}]`;
+    const result = validatePatternTemplate(pattern, path);
+    if (!result.ok) {
+      errors.push(...result.errors);
+      return;
+    }
+    if (seen.has(result.value.id)) {
+      errors.push(`${path}.id: "${result.value.id}"는 이미 사용 중인 id입니다.`);
+    }
+    seen.add(result.value.id);
+  });
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: raw as unknown as PatternPack };
+};
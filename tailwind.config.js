@@ -1,8 +1,26 @@
+// 테마 색은 utils/theme.ts가 넣는 CSS 변수를 읽음 (bg-surface/70처럼 투명도도 사용 가능)
+const themeColor = (name) => `rgb(var(--color-${name}) / <alpha-value>)`;
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        content: themeColor('content'),
+        accent: themeColor('accent'),
+        'on-accent': themeColor('on-accent'),
+        surface: {
+          sunken: themeColor('surface-sunken'),
+          panel: themeColor('surface-panel'),
+          DEFAULT: themeColor('surface-base'),
+          strong: themeColor('surface-strong'),
+        },
+      },
+      backgroundImage: {
+        screen: 'var(--theme-background)',
+      },
+    },
   },
   plugins: [],
 };